@@ -0,0 +1,34 @@
+/**
+ * Wrapper for JSON numbers that keeps their exact source text
+ */
+
+/**
+ * A JSON number kept as written, produced by `numbers: 'decimal-wrapper'`.
+ * formatJSON and minifyJSON write it back unchanged; convert it with
+ * toNumber() or Number() when precision does not matter.
+ */
+export class JSONDecimal {
+  constructor(readonly value: string) {}
+
+  toNumber(): number {
+    return Number(this.value);
+  }
+
+  valueOf(): number {
+    return this.toNumber();
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  /**
+   * JSON.stringify has no way to emit raw number text, so it gets a string.
+   * Use formatJSON or minifyJSON to keep the number as written.
+   */
+  toJSON(): string {
+    return this.value;
+  }
+}
+
+export default JSONDecimal;
@@ -2,8 +2,26 @@
  * Main JSONMan class - The core of the JSON manipulation library
  */
 
-import { JSONValue, ParseOptions, ParseResult, FixOptions, FixResult, FixReport } from './types';
-import { JSONParseError, createErrorResult, createSuccessResult } from './errors';
+import {
+  JSONValue,
+  JSONObject,
+  LosslessJSONValue,
+  LosslessParseOptions,
+  ParseOptions,
+  ParseResult,
+  FixOptions,
+  FixResult,
+  JSONInput,
+  SecurityOptions,
+} from './types';
+import { defaultPipeline } from '../modules/parser/Pipeline';
+import { Fixer, defaultFixer } from '../modules/fixer/Fixer';
+import {
+  findCircularReference,
+  formatJSONPath,
+  isUnsafeKey,
+  safeStringify,
+} from '../utils/helpers';
 
 /**
  * JSONMan - Comprehensive JSON Helper Library
@@ -24,889 +42,32 @@ export class JSONMan {
   // ============================================================================
 
   /**
-   * Safely parse JSON string with detailed error information
+   * Safely parse JSON string with detailed error information. Runs the same
+   * stages as Parser.safe, including any added to Parser.pipeline.
    */
-  static parse(jsonString: string, options?: ParseOptions): ParseResult {
-    try {
-      const data = JSON.parse(jsonString, options?.reviver);
-      return createSuccessResult(data);
-    } catch (error) {
-      const parseError = JSONParseError.fromNativeError(error as SyntaxError, jsonString);
-      return createErrorResult(parseError);
-    }
+  static parse(input: JSONInput, options: LosslessParseOptions): ParseResult<LosslessJSONValue>;
+  static parse(input: JSONInput, options?: ParseOptions): ParseResult;
+  static parse(input: JSONInput, options?: ParseOptions): ParseResult<LosslessJSONValue> {
+    return defaultPipeline.parse(input, options);
   }
 
   /**
-   * Fix common JSON issues automatically
+   * The rules every fix runs, shared with the fix() shortcut. Turn rules off,
+   * move them or add your own with `JSONMan.fixer.disable(name)` and the like.
    */
-  static fix(malformedJson: string, _options?: FixOptions): FixResult {
-    try {
-      const fixes: FixReport[] = [];
-      let original = malformedJson;
-      let fixed = malformedJson;
-
-      // Step 1: Remove BOM if present
-      if (fixed.charCodeAt(0) === 0xFEFF) {
-        fixed = fixed.slice(1);
-        fixes.push({
-          type: 'other',
-          description: 'Removed Unicode BOM',
-          position: { start: 0, end: 1 },
-          original: original.slice(0, 1),
-          fixed: ''
-        });
-      }
-
-      // Step 2: Handle comments first - comprehensive removal
-      fixed = this.removeComments(fixed, fixes);
-
-      // Step 3: Handle special literals (None, undefined, etc.)
-      fixed = this.convertLiterals(fixed, fixes);
-
-      // Step 4: Handle JavaScript hex numbers (0x...)
-      fixed = this.convertHexNumbers(fixed, fixes);
-
-      // Step 5: Handle duplicate opening delimiters early
-      fixed = this.fixDuplicateDelimiters(fixed, fixes);
-
-      // Step 6: Handle single quotes to double quotes - Enhanced
-      fixed = this.fixSingleQuotes(fixed, fixes);
-
-      // Step 7: Handle unescaped quotes in strings - Enhanced
-      fixed = this.fixUnescapedQuotes(fixed, fixes);
-
-      // Step 8: Fix escape sequences - Enhanced
-      fixed = this.fixEscapeSequences(fixed, fixes);
-
-      // Step 9: Quote unquoted keys - Enhanced
-      fixed = this.quoteUnquotedKeys(fixed, fixes);
-
-      // Step 10: Fix missing commas between properties - Enhanced
-      fixed = this.fixMissingCommas(fixed, fixes);
-
-      // Step 11: Handle double commas and empty slots
-      fixed = this.fixDoubleCommas(fixed, fixes);
-
-      // Step 12: Fix trailing commas
-      fixed = this.fixTrailingCommas(fixed, fixes);
-
-      // Step 13: Balance brackets and braces - Enhanced
-      fixed = this.balanceBrackets(fixed, fixes);
-
-      // Step 14: Handle multiple root objects - Enhanced
-      fixed = this.handleMultipleRoots(fixed, fixes);
-
-      // Step 15: Remove dangling artifacts
-      fixed = this.removeDanglingArtifacts(fixed, fixes);
-
-      // Step 16: Handle stringified JSON (recursive parsing) - Enhanced
-      fixed = this.unescapeStringifiedJSON(fixed, fixes);
-
-      // Step 17: Final cleanup
-      fixed = fixed.trim();
-
-      // Try to parse the result
-      const parseResult = this.parse(fixed);
-      if (parseResult.success) {
-        return {
-          success: true,
-          data: fixed,
-          fixes
-        };
-      } else {
-        // If still can't parse, try some last-ditch efforts
-        const finalAttempt = this.finalFixAttempt(fixed);
-        const finalParseResult = this.parse(finalAttempt);
-        
-        if (finalParseResult.success) {
-          fixes.push({
-            type: 'other',
-            description: 'Applied final recovery fixes',
-            position: { start: 0, end: finalAttempt.length },
-            original: fixed,
-            fixed: finalAttempt
-          });
-          return {
-            success: true,
-            data: finalAttempt,
-            fixes
-          };
-        }
-
-        return {
-          success: false,
-          error: new JSONParseError('Unable to fix JSON after all attempts'),
-          fixes
-        };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        error: new JSONParseError('Failed to fix JSON', { cause: error as Error }),
-        fixes: []
-      };
-    }
-  }
-
-  private static removeComments(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-
-    // More robust comment removal that handles edge cases
-    // Remove multi-line comments first
-    const multiLinePattern = /\/\*[\s\S]*?\*\//g;
-    if (multiLinePattern.test(result)) {
-      result = result.replace(multiLinePattern, ' ');
-      hasChanges = true;
-    }
-
-    // Remove single-line comments - but be more careful about strings
-    const lines = result.split('\n');
-    const newLines = lines.map(line => {
-      let inString = false;
-      let escaped = false;
-      
-      for (let i = 0; i < line.length - 1; i++) {
-        if (escaped) {
-          escaped = false;
-          continue;
-        }
-        
-        if (line[i] === '\\') {
-          escaped = true;
-          continue;
-        }
-        
-        if (line[i] === '"' && !escaped) {
-          inString = !inString;
-        }
-        
-        if (!inString && line[i] === '/' && line[i + 1] === '/') {
-          return line.substring(0, i).trim();
-        }
-      }
-      
-      return line;
-    });
-    
-    const cleanedResult = newLines.join('\n');
-    if (cleanedResult !== result) {
-      result = cleanedResult;
-      hasChanges = true;
-    }
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'other',
-        description: 'Removed comments',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static convertLiterals(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-
-    const literalReplacements = [
-      { pattern: /\bNone\b/g, replacement: 'null' },
-      { pattern: /\bundefined\b/g, replacement: 'null' },
-      { pattern: /\bNULL\b/g, replacement: 'null' },
-      { pattern: /\bTrue\b/g, replacement: 'true' },
-      { pattern: /\bFalse\b/g, replacement: 'false' }
-    ];
-
-    for (const { pattern, replacement } of literalReplacements) {
-      if (pattern.test(result)) {
-        result = result.replace(pattern, replacement);
-        hasChanges = true;
-      }
-    }
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'other',
-        description: 'Converted literals to JSON format',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static convertHexNumbers(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const hexPattern = /\b0x([0-9A-Fa-f]+)\b/g;
-    let hasChanges = false;
-
-    result = result.replace(hexPattern, (_match, hex) => {
-      const decimal = parseInt(hex, 16);
-      hasChanges = true;
-      return decimal.toString();
-    });
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'other',
-        description: 'Converted hex numbers to decimal',
-        position: { start: 0, end: result.length },
-        original: text,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixSingleQuotes(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-    
-    // More comprehensive single quote to double quote conversion
-    // Handle escaped single quotes properly
-    let newResult = '';
-    let i = 0;
-    
-    while (i < result.length) {
-      if (result[i] === "'") {
-        // Found a single quote - find the matching closing quote
-        let j = i + 1;
-        let content = '';
-        
-        while (j < result.length) {
-          if (result[j] === "'") {
-            // Found closing quote
-            break;
-          } else if (result[j] === '\\' && j + 1 < result.length) {
-            // Handle escape sequences
-            content += result[j]! + result[j + 1]!;
-            j += 2;
-          } else {
-            content += result[j];
-            j++;
-          }
-        }
-        
-        if (j < result.length && result[j] === "'") {
-          // Valid single-quoted string found
-          newResult += '"' + content + '"';
-          hasChanges = true;
-          i = j + 1;
-        } else {
-          // Incomplete string, just copy the quote
-          newResult += result[i];
-          i++;
-        }
-      } else {
-        newResult += result[i];
-        i++;
-      }
-    }
-    
-    if (hasChanges) {
-      result = newResult;
-      fixes.push({
-        type: 'quote',
-        description: 'Converted single quotes to double quotes',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixUnescapedQuotes(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-    
-    // More targeted approach: only fix quotes that are clearly malformed
-    // Pattern: Look for strings with internal quotes that aren't followed by proper JSON delimiters
-    
-    // Handle cases like: "text "quotes" text" where there are multiple quote pairs in a value
-    // But NOT cases like: "hello" where it's a single valid string
-    
-    // First, try to identify strings that have internal unescaped quotes
-    const problematicQuotePattern = /"([^"\\]*)"(\s*)([^"\\]+)"(\s*)([^"\\]*)"(?=\s*[,}\]])/g;
-    
-    result = result.replace(problematicQuotePattern, (match, part1, space1, middle, space2, part2) => {
-      // This pattern matches: "part1"middle"part2" 
-      // Only fix if the middle part looks like it should be escaped quotes
-      if (middle.trim().length > 0 && !middle.includes(':') && !middle.includes('{') && !middle.includes('[')) {
-        hasChanges = true;
-        return `"${part1}${space1}\\"${middle}\\"${space2}${part2}"`;
-      }
-      return match;
-    });
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'quote',
-        description: 'Fixed unescaped quotes in string values',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixEscapeSequences(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-    
-    // Remove invalid escape sequences but preserve valid ones
-    result = result.replace(/\\x[0-9A-Fa-f]{2}/g, '');
-    if (result !== text) hasChanges = true;
-    
-    // Handle unicode escape sequences
-    result = result.replace(/\\u[0-9A-Fa-f]{4}/g, (match) => {
-      try {
-        return JSON.parse(`"${match}"`);
-      } catch {
-        return '';
-      }
-    });
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'other',
-        description: 'Fixed invalid escape sequences',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static unescapeStringifiedJSON(text: string, fixes: FixReport[]): string {
-    // Enhanced nested stringified JSON handling - more aggressive approach
-    const originalText = text;
-    let result = text;
-    let hasChanges = false;
-    let maxIterations = 10; // Prevent infinite loops
-    
-    while (maxIterations > 0) {
-      let iterationChanges = false;
-      maxIterations--;
-      
-      // Pattern to match strings that might contain stringified JSON
-      const stringPattern = /"([^"\\]*(\\.[^"\\]*)*)"/g;
-      
-      result = result.replace(stringPattern, (match, content) => {
-        try {
-          // Check if the content looks like stringified JSON
-          if (content.includes('\\"') && (content.includes('{') || content.includes('['))) {
-            // Try to unescape the content
-            let unescaped = content.replace(/\\"/g, '"').replace(/\\\\/g, '\\');
-            
-            // Try to parse the unescaped content
-            try {
-              const parseAttempt = this.parse(unescaped);
-              if (parseAttempt.success) {
-                iterationChanges = true;
-                hasChanges = true;
-                return unescaped;
-              }
-            } catch {
-              // Try a recursive fix on the unescaped content
-              try {
-                const fixAttempt = this.fix(unescaped);
-                if (fixAttempt.success) {
-                  const parseAttempt = this.parse(fixAttempt.data!);
-                  if (parseAttempt.success) {
-                    iterationChanges = true;
-                    hasChanges = true;
-                    return fixAttempt.data!;
-                  }
-                }
-              } catch {
-                // Continue with original
-              }
-            }
-          }
-        } catch {
-          // If unescaping fails, return original
-        }
-        return match;
-      });
-      
-      if (!iterationChanges) {
-        break; // No more changes, exit loop
-      }
-    }
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'other',
-        description: 'Unescaped stringified JSON',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixMissingCommas(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    
-    // Enhanced missing comma detection - more comprehensive patterns
-    // Handle missing commas between object properties (most common case)
-    result = result.replace(/"([^"]*)"(\s+)"([^"]+)"(\s*):/g, '"$1",$2"$3"$4:');
-    
-    // Handle missing commas after closing braces/brackets followed by new property
-    result = result.replace(/}(\s*)"([^"]+)"(\s*):/g, '},$1"$2"$3:');
-    result = result.replace(/](\s*)"([^"]+)"(\s*):/g, '],$1"$2"$3:');
-    
-    // Handle unquoted keys with missing commas
-    result = result.replace(/(\w+)(\s+)(\w+)(\s*):/g, '$1,$2$3$4:');
-    
-    // Handle missing commas between values (numbers, booleans, etc) and next property
-    result = result.replace(/(\d+|true|false|null)(\s+)("?\w+"?\s*:)/g, '$1,$2$3');
-    
-    // Handle missing commas between array/object elements
-    result = result.replace(/}(\s*){/g, '},$1{');
-    result = result.replace(/](\s*)\[/g, '],$1[');
-    result = result.replace(/}(\s*)\[/g, '},$1[');
-    result = result.replace(/](\s*){/g, '],$1{');
-    
-    // Handle values followed by properties without comma
-    result = result.replace(/("(?:[^"\\]|\\.)*")(\s+)("?\w+"?\s*:)/g, '$1,$2$3');
-
-    if (result !== originalText) {
-      fixes.push({
-        type: 'comma',
-        description: 'Added missing commas',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixTrailingCommas(text: string, fixes: FixReport[]): string {
-    let result = text;
-    
-    // Remove trailing commas before closing braces/brackets
-    result = result.replace(/,(\s*[}\]])/g, '$1');
-    
-    // Handle trailing commas with newlines
-    result = result.replace(/,(\s*\n\s*[}\]])/g, '$1');
-
-    if (result !== text) {
-      fixes.push({
-        type: 'comma',
-        description: 'Removed trailing commas',
-        position: { start: 0, end: result.length },
-        original: text,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixDoubleCommas(text: string, fixes: FixReport[]): string {
-    let result = text;
-    
-    // Remove double commas and empty array slots
-    result = result.replace(/,(\s*),/g, ',');
-    result = result.replace(/\[(\s*),/g, '[');
-    result = result.replace(/,(\s*)\]/g, ']');
-
-    if (result !== text) {
-      fixes.push({
-        type: 'comma',
-        description: 'Fixed double commas and empty slots',
-        position: { start: 0, end: result.length },
-        original: text,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static quoteUnquotedKeys(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    
-    // Enhanced unquoted key detection
-    // Quote unquoted object keys - be more careful about what constitutes a valid unquoted key
-    result = result.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":');
-
-    if (result !== originalText) {
-      fixes.push({
-        type: 'quote',
-        description: 'Quoted unquoted keys',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static balanceBrackets(text: string, fixes: FixReport[]): string {
-    let result = text;
-    const originalText = text;
-    let hasChanges = false;
-    
-    // Handle incomplete objects/arrays at the end first
-    if (result.endsWith(':')) {
-      result += 'null';
-      hasChanges = true;
-    }
-    
-    // Handle incomplete property assignments like {c: -> {c:null}
-    if (result.match(/[{,]\s*\w+\s*:\s*$/)) {
-      result += 'null';
-      hasChanges = true;
-    }
-    
-    // Fix bracket/brace mismatches
-    if (result.includes('[') && result.includes('}')) {
-      // More sophisticated mismatch detection
-      // Build a stack to track expected closing delimiters
-      let stack: Array<{ type: string; pos: number }> = [];
-      let inString = false;
-      let escaped = false;
-      let corrections: Array<{ pos: number; from: string; to: string }> = [];
-      
-      for (let i = 0; i < result.length; i++) {
-        const char = result[i];
-        if (escaped) {
-          escaped = false;
-          continue;
-        }
-        if (char === '\\') {
-          escaped = true;
-          continue;
-        }
-        if (char === '"') {
-          inString = !inString;
-          continue;
-        }
-        if (!inString) {
-          if (char === '{') {
-            stack.push({ type: '}', pos: i });
-          } else if (char === '[') {
-            stack.push({ type: ']', pos: i });
-          } else if (char === '}' || char === ']') {
-            if (stack.length > 0) {
-              const expected = stack.pop();
-              if (expected && expected.type !== char) {
-                // Mismatch detected - record it for correction
-                corrections.push({ pos: i, from: char, to: expected.type });
-              }
-            }
-          }
-        }
-      }
-      
-      // Apply corrections from right to left to preserve positions
-      corrections.reverse().forEach(correction => {
-        result = result.substring(0, correction.pos) + correction.to + result.substring(correction.pos + 1);
-        hasChanges = true;
-      });
-    }
-    
-    // Handle incomplete objects/arrays more intelligently
-    // If we have unmatched opening brackets, we might need to complete structures
-    if (result.endsWith(',') || result.match(/,\s*$/)) {
-      // Remove trailing commas before adding closing brackets
-      result = result.replace(/,\s*$/, '');
-      hasChanges = true;
-    }
-    
-    // Better approach: track the opening stack and add closers in correct order
-    const openStack = [];
-    let stringMode = false;
-    let escapeNext = false;
-    
-    // Build a stack of unclosed opening delimiters
-    for (let i = 0; i < result.length; i++) {
-      const char = result[i];
-      
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
-      
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
-      }
-      
-      if (char === '"') {
-        stringMode = !stringMode;
-        continue;
-      }
-      
-      if (!stringMode) {
-        if (char === '{') {
-          openStack.push('}');
-        } else if (char === '[') {
-          openStack.push(']');
-        } else if (char === '}' || char === ']') {
-          // Remove the corresponding opener from the stack
-          if (openStack.length > 0) {
-            openStack.pop();
-          }
-        }
-      }
-    }
-    
-    // Add missing closing delimiters in reverse order (LIFO)
-    while (openStack.length > 0) {
-      result += openStack.pop();
-      hasChanges = true;
-    }
-
-    if (hasChanges) {
-      fixes.push({
-        type: 'bracket',
-        description: 'Balanced brackets and completed incomplete structures',
-        position: { start: 0, end: result.length },
-        original: originalText,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static handleMultipleRoots(text: string, fixes: FixReport[]): string {
-    // Enhanced multiple root object detection
-    const trimmed = text.trim();
-    
-    // More comprehensive detection of multiple objects
-    const objectSections = [];
-    let braceCount = 0;
-    let start = 0;
-    let inString = false;
-    let escaped = false;
-    
-    for (let i = 0; i < trimmed.length; i++) {
-      const char = trimmed[i];
-      
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      
-      if (char === '\\') {
-        escaped = true;
-        continue;
-      }
-      
-      if (char === '"') {
-        inString = !inString;
-        continue;
-      }
-      
-      if (!inString) {
-        if (char === '{') {
-          if (braceCount === 0) {
-            start = i;
-          }
-          braceCount++;
-        } else if (char === '}') {
-          braceCount--;
-          if (braceCount === 0) {
-            objectSections.push({
-              text: trimmed.slice(start, i + 1),
-              start,
-              end: i + 1
-            });
-          }
-        }
-      }
-    }
-
-    // If we found multiple complete objects, combine them into an array
-    if (objectSections.length > 1) {
-      const validObjects = [];
-      
-      for (const section of objectSections) {
-        try {
-          const parseResult = this.parse(section.text.trim());
-          if (parseResult.success) {
-            validObjects.push(section.text.trim());
-          }
-        } catch {
-          // Skip invalid objects
-        }
-      }
-      
-      if (validObjects.length > 1) {
-        const arrayResult = '[' + validObjects.join(',') + ']';
-        fixes.push({
-          type: 'other',
-          description: 'Converted multiple root objects to array',
-          position: { start: 0, end: arrayResult.length },
-          original: text,
-          fixed: arrayResult
-        });
-        return arrayResult;
-      }
-    }
-    
-    // Handle CSV-style object rows (comma separated)
-    if (trimmed.includes('}\n{') || trimmed.includes('},\n{')) {
-      const lines = trimmed.split('\n');
-      const objectLines = [];
-      
-      for (const line of lines) {
-        const cleanLine = line.trim().replace(/,$/, ''); // Remove trailing comma
-        if (cleanLine.startsWith('{') && cleanLine.endsWith('}')) {
-          try {
-            const parseResult = this.parse(cleanLine);
-            if (parseResult.success) {
-              objectLines.push(cleanLine);
-            }
-          } catch {
-            // Skip invalid lines
-          }
-        }
-      }
-      
-      if (objectLines.length > 1) {
-        const arrayResult = '[' + objectLines.join(',') + ']';
-        fixes.push({
-          type: 'other',
-          description: 'Converted CSV-style object rows to array',
-          position: { start: 0, end: arrayResult.length },
-          original: text,
-          fixed: arrayResult
-        });
-        return arrayResult;
-      }
-    }
-
-    return text;
-  }
-
-  private static removeDanglingArtifacts(text: string, fixes: FixReport[]): string {
-    let result = text;
-    
-    // Remove dangling colons and other artifacts at the end
-    result = result.replace(/:\s*["']?\s*$/, '');
-    result = result.replace(/[,:;]\s*$/, '');
-    
-    if (result !== text) {
-      fixes.push({
-        type: 'other',
-        description: 'Removed dangling artifacts',
-        position: { start: 0, end: result.length },
-        original: text,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
-
-  private static fixDuplicateDelimiters(text: string, fixes: FixReport[]): string {
-    let result = text;
-    
-    // Remove duplicate opening braces/brackets
-    result = result.replace(/{{/g, '{');
-    result = result.replace(/\[\[/g, '[');
-    result = result.replace(/}}/g, '}');
-    result = result.replace(/\]\]/g, ']');
-
-    if (result !== text) {
-      fixes.push({
-        type: 'bracket',
-        description: 'Fixed duplicate delimiters',
-        position: { start: 0, end: result.length },
-        original: text,
-        fixed: result
-      });
-    }
-
-    return result;
-  }
+  static readonly fixer: Fixer = defaultFixer;
 
-  private static finalFixAttempt(text: string): string {
-    // Enhanced last resort fixes
-    let result = text.trim();
-    
-    // If it's empty (after comment removal), return null
-    if (result === '' || result === '""') {
-      return 'null';
-    }
-    
-    // If it's just comments, return null
-    if (result.startsWith('//') && !result.includes('{') && !result.includes('[')) {
-      return 'null';
-    }
-    
-    // Check for completely invalid input that shouldn't be fixed
-    const hasJsonStructure = result.includes('{') || result.includes('[') || result.includes(':') || result.includes('"');
-    if (!hasJsonStructure && result.split(' ').length > 3) {
-      // This looks like plain text with multiple words, not JSON
-      throw new Error('Input appears to be plain text, not malformed JSON');
-    }
-    
-    // If it's a bare string without quotes but is already valid JSON, preserve it
-    if (!result.includes('{') && !result.includes('[') && !result.includes('"')) {
-      const trimmed = result.trim();
-      
-      // Handle primitive values
-      if (trimmed === 'true' || trimmed === 'false' || trimmed === 'null') {
-        return trimmed;
-      }
-      
-      // Handle numbers
-      if (!isNaN(Number(trimmed)) && trimmed !== '') {
-        return trimmed;
-      }
-      
-      // Handle single word strings - wrap in quotes
-      if (trimmed && trimmed !== '' && !trimmed.includes(' ')) {
-        return `"${trimmed}"`;
-      }
-    }
-    
-    // If it looks like object properties without wrapper, wrap it
-    if (result.includes(':') && !result.trim().startsWith('{') && !result.trim().startsWith('[')) {
-      return `{${result}}`;
-    }
-    
-    // Handle case where we have objects but they're malformed at the end
-    if (result.includes('{') && !result.includes('}')) {
-      return result + '}';
-    }
-    
-    // Handle case where we have arrays but they're malformed at the end
-    if (result.includes('[') && !result.includes(']')) {
-      return result + ']';
-    }
-    
-    return result;
+  /**
+   * Fix common JSON issues automatically. Bytes are decoded first, with the
+   * encoding detected unless `encoding` is given. Repairs work on tokens, so
+   * string contents are only changed by the repairs aimed at strings. Options
+   * not given take their DEFAULT_OPTIONS.FIX values. With `dryRun` the fixed
+   * text is left out and the changes come back as `edits` and a `diff` of the
+   * input instead; `success` then says whether applying them all gives JSON.
+   * Runs the rules of JSONMan.fixer.
+   */
+  static fix(input: JSONInput, options?: FixOptions): FixResult {
+    return JSONMan.fixer.fix(input, options);
   }
 
   /**
@@ -921,10 +82,16 @@ export class JSONMan {
     }
 
     if (data !== null && data !== undefined) {
-      try {
-        JSON.stringify(data);
-      } catch (error) {
+      const cycle = findCircularReference(data);
+      if (cycle) {
         errors.push('Data is not serializable to JSON');
+        errors.push(`Circular reference at ${cycle.path} back to ${cycle.target || 'the root'}`);
+      } else {
+        try {
+          JSON.stringify(data);
+        } catch (error) {
+          errors.push('Data is not serializable to JSON');
+        }
       }
     }
 
@@ -993,19 +160,21 @@ export class JSONMan {
       return typeof value;
     };
 
+    // A circular reference adds no depth
+    const ancestors = new Set<JSONValue>();
     const getDepth = (obj: JSONValue): number => {
-      if (typeof obj !== 'object' || obj === null) return 0;
-      if (Array.isArray(obj)) {
-        return obj.length === 0 ? 1 : 1 + Math.max(...obj.map(getDepth));
-      }
-      const values = Object.values(obj);
-      return values.length === 0 ? 1 : 1 + Math.max(...values.map(getDepth));
+      if (typeof obj !== 'object' || obj === null || ancestors.has(obj)) return 0;
+      ancestors.add(obj);
+      const values = Array.isArray(obj) ? obj : Object.values(obj);
+      const depth = values.length === 0 ? 1 : 1 + Math.max(...values.map(getDepth));
+      ancestors.delete(obj);
+      return depth;
     };
 
     return {
       type: getType(data),
       depth: getDepth(data),
-      size: JSON.stringify(data).length,
+      size: safeStringify(data).length,
     };
   }
 
@@ -1047,37 +216,88 @@ export class JSONMan {
   }
 
   /**
-   * Merge two JSON objects
+   * Merge two JSON objects.
+   * With `secure`, __proto__, constructor and prototype keys from either side are skipped
+   * at any depth, including in objects inside arrays.
    */
-  static merge(obj1: JSONValue, obj2: JSONValue, strategy?: string): JSONValue {
+  static merge(
+    obj1: JSONValue,
+    obj2: JSONValue,
+    strategy?: string,
+    options?: SecurityOptions
+  ): JSONValue {
+    return this.mergeAt(obj1, obj2, strategy, options, '$');
+  }
+
+  private static mergeAt(
+    obj1: JSONValue,
+    obj2: JSONValue,
+    strategy: string | undefined,
+    options: SecurityOptions | undefined,
+    path: string
+  ): JSONValue {
     // Basic merge - will be enhanced by Merger module
     if (typeof obj1 !== 'object' || obj1 === null) {
-      return typeof obj2 === 'object' && obj2 !== null ? obj2 : obj1;
+      return typeof obj2 === 'object' && obj2 !== null ? this.secured(obj2, options, path) : obj1;
     }
     if (typeof obj2 !== 'object' || obj2 === null) {
-      return obj1;
+      return this.secured(obj1, options, path);
     }
 
     // If either is an array, preserve the first one's type
     if (Array.isArray(obj1)) {
-      return obj1;
+      return this.secured(obj1, options, path);
     }
     if (Array.isArray(obj2)) {
-      return obj1; // Preserve obj1 when obj2 is array but obj1 is object
+      return this.secured(obj1, options, path); // Preserve obj1 when obj2 is array but obj1 is object
     }
 
-    const result = { ...obj1 };
+    const result: JSONObject = options?.secure
+      ? (this.secured(obj1, options, path) as JSONObject)
+      : { ...obj1 };
     for (const [key, value] of Object.entries(obj2)) {
+      const keyPath = formatJSONPath([key], path);
+      if (options?.secure && isUnsafeKey(key)) {
+        options.warnings?.push(`Skipped unsafe key "${key}" at ${keyPath}`);
+        continue;
+      }
       if (typeof value === 'object' && value !== null && !Array.isArray(value) &&
           typeof result[key] === 'object' && result[key] !== null && !Array.isArray(result[key])) {
-        result[key] = this.merge(result[key]!, value, strategy);
+        result[key] = this.mergeAt(result[key]!, value, strategy, options, keyPath);
       } else {
-        result[key] = value;
+        result[key] = this.secured(value, options, keyPath);
       }
     }
     return result;
   }
 
+  /**
+   * A value as it goes into a merge result. With `secure` it is copied without
+   * unsafe keys at any depth, including objects inside arrays.
+   */
+  private static secured(value: JSONValue, options: SecurityOptions | undefined, path: string): JSONValue {
+    if (!options?.secure) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.secured(item, options, formatJSONPath([index], path)));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const copy: JSONObject = {};
+    for (const [key, item] of Object.entries(value)) {
+      const keyPath = formatJSONPath([key], path);
+      if (isUnsafeKey(key)) {
+        options.warnings?.push(`Skipped unsafe key "${key}" at ${keyPath}`);
+      } else {
+        copy[key] = this.secured(item, options, keyPath);
+      }
+    }
+    return copy;
+  }
+
   /**
    * Convert JSON to different formats
    */
@@ -1127,8 +347,8 @@ export class JSONMan {
   /**
    * Chain: Parse JSON string
    */
-  parse(jsonString: string, options?: ParseOptions): this {
-    const result = JSONMan.parse(jsonString, options);
+  parse(input: JSONInput, options?: ParseOptions): this {
+    const result = JSONMan.parse(input, options);
     if (result.success) {
       this.data = result.data!;
     } else {
@@ -1304,7 +524,7 @@ export class JSONMan {
 
   // These will be populated when the modules are created
   static Parser: any;
-  static Fixer: any;
+  static Fixer = Fixer;
   static Analyzer: any;
   static Searcher: any;
   static Comparer: any;
@@ -90,17 +90,44 @@ export class JSONManBaseError extends Error implements JSONManError {
  * Error thrown when JSON parsing fails
  */
 export class JSONParseError extends JSONManBaseError {
+  public readonly expected?: string[] | undefined;
+
   constructor(
     message: string,
     options?: {
       suggestions?: string[];
       position?: { line: number; column: number; index: number };
       context?: { before: string; at: string; after: string };
+      expected?: string[];
+      code?: ErrorCode;
       cause?: Error;
     }
   ) {
-    super(ERROR_CODES.PARSE_ERROR, message, options);
+    super(options?.code ?? ERROR_CODES.PARSE_ERROR, message, options);
     this.name = 'JSONParseError';
+    this.expected = options?.expected;
+  }
+
+  /**
+   * Create an error for a known source position, filling in context and suggestions
+   */
+  static atPosition(
+    message: string,
+    input: string,
+    position: { line: number; column: number; index: number },
+    options?: {
+      expected?: string[];
+      suggestions?: string[];
+      code?: ErrorCode;
+    }
+  ): JSONParseError {
+    return new JSONParseError(message, {
+      position,
+      context: extractContext(input, position.index),
+      ...(options?.expected && { expected: options.expected }),
+      ...(options?.code && { code: options.code }),
+      suggestions: options?.suggestions ?? generateParseSuggestions(message, input),
+    });
   }
 
   static fromNativeError(error: SyntaxError, input: string): JSONParseError {
@@ -116,6 +143,25 @@ export class JSONParseError extends JSONManBaseError {
   }
 }
 
+/**
+ * Error thrown when byte input cannot be decoded. `offset` is the index of
+ * the offending byte (or base64 character) in the input.
+ */
+export class JSONEncodingError extends JSONParseError {
+  public readonly offset: number;
+  public readonly encoding: string;
+
+  constructor(message: string, offset: number, encoding: string, suggestions?: string[]) {
+    super(message, {
+      code: ERROR_CODES.INVALID_ENCODING,
+      ...(suggestions && { suggestions }),
+    });
+    this.name = 'JSONEncodingError';
+    this.offset = offset;
+    this.encoding = encoding;
+  }
+}
+
 /**
  * Error thrown when JSON is invalid but not necessarily malformed
  */
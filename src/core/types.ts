@@ -2,11 +2,19 @@
  * Core type definitions for JSONMan library
  */
 
+import type { JSONDecimal } from './JSONDecimal';
+
 // Basic JSON types
 export type JSONValue = string | number | boolean | null | JSONObject | JSONArray;
 export type JSONObject = { [key: string]: JSONValue };
 export type JSONArray = JSONValue[];
 
+// JSON values that may hold BigInt and JSONDecimal numbers from the lossless number modes
+export type LosslessJSONValue =
+  string | number | bigint | JSONDecimal | boolean | null | LosslessJSONObject | LosslessJSONArray;
+export type LosslessJSONObject = { [key: string]: LosslessJSONValue };
+export type LosslessJSONArray = LosslessJSONValue[];
+
 // Utility types
 export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
@@ -56,15 +64,136 @@ export interface ErrorResult<E = JSONManError> extends Result<never, E> {
 }
 
 // Parser types
-// Parser-specific options
-export interface ParseOptions {
-  strict?: boolean;
-  reviver?: (key: string, value: JSONValue) => JSONValue;
-  maxDepth?: number;
+export type ParseMode = 'json' | 'jsonc' | 'json5';
+
+// Grammar extensions understood by the tokenizer and descent parser
+export interface SyntaxOptions {
+  /** `// line` and `/* block *\/` comments */
   allowComments?: boolean;
+  /** A comma after the last member of an object or array */
   allowTrailingCommas?: boolean;
+  /** Strings delimited by `'` */
   allowSingleQuotes?: boolean;
+  /** Object keys written as bare identifiers */
   allowUnquotedKeys?: boolean;
+  /** Hexadecimal integers such as `0xFF` */
+  allowHexNumbers?: boolean;
+  /** `Infinity`, `-Infinity` and `NaN` */
+  allowSpecialNumbers?: boolean;
+  /** An explicit `+` sign in front of numbers */
+  allowLeadingPlus?: boolean;
+  /** Numbers with a leading or trailing decimal point such as `.5` and `5.` */
+  allowLenientDecimals?: boolean;
+  /** Strings continued over several lines with a backslash before the line break */
+  allowMultilineStrings?: boolean;
+  /** The JSON5 escapes `\v`, `\0`, `\xHH` and escaped characters that stand for themselves */
+  allowExtendedEscapes?: boolean;
+  /**
+   * The JSON5 whitespace: `\v`, `\f`, the byte order mark, Unicode space
+   * separators such as U+00A0, and the line terminators U+2028 and U+2029
+   */
+  allowExtendedWhitespace?: boolean;
+}
+
+// Parser-specific options
+export interface ParseOptions extends SyntaxOptions {
+  /** When `true`, only plain JSON is accepted regardless of `mode` and the allow* flags */
+  strict?: boolean;
+  /** Preset for the allow* flags; explicit flags override the preset */
+  mode?: ParseMode;
+  /** Sees BigInt and JSONDecimal values when a lossless `numbers` mode is set */
+  reviver?: (key: string, value: LosslessJSONValue) => LosslessJSONValue;
+  /** Maximum nesting depth of objects and arrays (default PERFORMANCE_LIMITS.MAX_DEPTH) */
+  maxDepth?: number;
+  /** Maximum input length in characters (default PERFORMANCE_LIMITS.MAX_SIZE) */
+  maxSize?: number;
+  /** Maximum number of values, containers included (default PERFORMANCE_LIMITS.MAX_NODES) */
+  maxNodes?: number;
+  /**
+   * Guard against prototype pollution: `true` or `'strip'` drops __proto__,
+   * constructor and prototype keys with a warning, `'error'` rejects the input
+   */
+  secure?: boolean | 'strip' | 'error';
+  /**
+   * How to treat a key that appears twice in the same object. Without this
+   * option the last value wins silently, as with JSON.parse
+   */
+  duplicateKeys?: DuplicateKeyPolicy;
+  /**
+   * How to read numbers that do not fit a JavaScript number exactly. Only
+   * plain JSON number literals are affected; see NumberMode. Without it
+   * they are read as with `'number'`.
+   */
+  numbers?: NumberMode;
+  /**
+   * How byte input is decoded. By default (`'auto'`) a byte order mark or the
+   * pattern of null bytes in the first characters picks UTF-8, UTF-16 or
+   * UTF-32, as RFC 4627 describes. `'base64'` decodes base64 text first and
+   * then detects the encoding of the result.
+   */
+  encoding?: InputEncoding;
+}
+
+/** Text or raw bytes (a Uint8Array or Node.js Buffer) */
+export type JSONInput = string | Uint8Array;
+
+/** Concrete encodings that bytes can be decoded from */
+export type TextEncoding = 'utf8' | 'utf16le' | 'utf16be' | 'utf32le' | 'utf32be' | 'ascii';
+
+// 'utf16' and 'utf32' detect the byte order; 'auto' detects everything
+export type InputEncoding = TextEncoding | 'auto' | 'utf16' | 'utf32' | 'base64';
+
+export interface DecodedInput {
+  text: string;
+  /** The encoding bytes were read as; absent for string input */
+  encoding?: TextEncoding;
+  /** Whether a byte order mark was found and removed */
+  bom: boolean;
+}
+
+/**
+ * - `number`: read as a number, with a warning for each value that loses precision
+ * - `bigint`: integers beyond 2^53 become BigInt; other lossy values warn
+ * - `string`: lossy values are kept as their source text
+ * - `decimal-wrapper`: numbers that would not be written back as-is become JSONDecimal
+ */
+export type NumberMode = 'number' | 'bigint' | 'string' | 'decimal-wrapper';
+
+/** Parse options whose result may hold BigInt or JSONDecimal values */
+export interface LosslessParseOptions extends ParseOptions {
+  numbers: 'bigint' | 'decimal-wrapper';
+}
+
+// 'warn' keeps the last value, 'collect' keeps every value in an array
+export type DuplicateKeyPolicy = 'error' | 'warn' | 'first' | 'last' | 'collect';
+
+export interface DuplicateKey {
+  key: string;
+  /** JSONPath of the key, e.g. $.server.port */
+  path: string;
+  /** Where the key was first defined */
+  first: SourcePosition;
+  /** Where it was repeated */
+  duplicate: SourcePosition;
+}
+
+// Options for helpers that write keys coming from untrusted data
+export interface SecurityOptions {
+  /** Skip __proto__, constructor and prototype keys instead of writing them */
+  secure?: boolean;
+  /** Receives one message per blocked key */
+  warnings?: string[];
+}
+
+// Options for safeStringify
+export interface SafeStringifyOptions {
+  /**
+   * `'marker'` (default) writes a reference back to an ancestor as
+   * "[Circular ~.path]"; `'ref'` writes every repeated reference as
+   * {"$ref": "#/path"}, as decycle does
+   */
+  cycles?: 'marker' | 'ref';
+  indent?: number | string;
 }
 
 // Parser-specific types
@@ -112,33 +241,365 @@ export interface ParseError {
 
 export interface ParseResult<T = JSONValue> extends Result<T> {
   warnings?: string[];
+  /** Duplicate keys found when `duplicateKeys` is set */
+  duplicates?: DuplicateKey[];
+}
+
+/**
+ * State handed from stage to stage by the parse pipeline. Stages before
+ * 'parse' may rewrite `text` and `options`; stages after it see `data`.
+ */
+export interface ParseContext {
+  text: string;
+  /** A copy of the caller's options */
+  options: ParseOptions;
+  /** The grammar the 'parse' stage accepts, set by the 'leniency' stage */
+  syntax: SyntaxOptions;
+  data?: LosslessJSONValue;
+  warnings: string[];
+  duplicates: DuplicateKey[];
+  /**
+   * Present when the caller asked for source locations (Parser.withLocations);
+   * the 'parse' stage fills it in the same pass that builds `data`
+   */
+  locations?: Record<string, SourceLocation>;
+}
+
+export interface ParseStage {
+  /** Unique within a pipeline; other stages are placed relative to it */
+  name: string;
+  run(context: ParseContext): void;
+}
+
+export type StagePlacement = { before: string } | { after: string };
+
+export interface TolerantParseResult extends ParseResult<JSONValue> {
+  /** Every syntax error found, in source order; `error` is the first of them */
+  errors: JSONManError[];
+}
+
+export interface TypedParseResult<T> extends ParseResult<T> {
+  /**
+   * Every schema violation when the data did not match a schema. A value's own
+   * violations, missing required properties included, come before those of
+   * its members, which follow in document order; allOf, anyOf and oneOf
+   * violations come last.
+   */
+  errors?: ValidationError[];
+}
+
+// Tokenizer types
+export type TokenType =
+  | 'beginObject'
+  | 'endObject'
+  | 'beginArray'
+  | 'endArray'
+  | 'colon'
+  | 'comma'
+  | 'string'
+  | 'number'
+  | 'true'
+  | 'false'
+  | 'null'
+  | 'identifier'
+  | 'eof';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+  index: number;
+}
+
+export interface Token {
+  type: TokenType;
+  /** Raw source text of the token */
+  raw: string;
+  /** Decoded value for string, number and literal tokens */
+  value?: JSONValue;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Whitespace and comments between tokens
+export type TriviaType = 'whitespace' | 'lineComment' | 'blockComment';
+
+export interface Trivia {
+  type: TriviaType;
+  raw: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Concrete syntax tree types
+export type CSTNodeType =
+  | 'document'
+  | 'object'
+  | 'array'
+  | 'property'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'null';
+
+export interface CSTNode {
+  kind: 'node';
+  type: CSTNodeType;
+  /** Range of the node's own tokens, without surrounding trivia (documents span the whole input) */
+  start: SourcePosition;
+  end: SourcePosition;
+  /** Tokens, trivia and child nodes in source order */
+  children: CSTElement[];
+  /** Member name, for property nodes */
+  key?: string;
+  /** Decoded value, for string, number, boolean and null nodes */
+  value?: JSONValue;
+}
+
+export interface CSTToken {
+  kind: 'token';
+  type: TokenType;
+  text: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface CSTTrivia {
+  kind: 'trivia';
+  type: TriviaType;
+  text: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export type CSTElement = CSTNode | CSTToken | CSTTrivia;
+
+// Where a value (and its key, for object members) sits in the source
+export interface SourceLocation {
+  start: SourcePosition;
+  end: SourcePosition;
+  keyStart?: SourcePosition;
+  keyEnd?: SourcePosition;
+}
+
+export interface LocatedParseResult<T = JSONValue> extends ParseResult<T> {
+  /** Source location of every value, keyed by JSON Pointer (`''` is the root) */
+  locations?: Record<string, SourceLocation>;
+}
+
+// Format-preserving edit types
+/** Dot notation (`compilerOptions.strict`) or explicit segments (`['paths', '@/*', 0]`) */
+export type EditPath = string | Array<string | number>;
+
+/** Replace `length` characters at `offset` with `content` */
+export interface TextEdit {
+  offset: number;
+  length: number;
+  content: string;
+}
+
+/** A change to the text a syntax tree was parsed from, as reported by an editor */
+export interface SourceChange {
+  offset: number;
+  deleteCount: number;
+  insertText: string;
+}
+
+export interface EditOptions extends ParseOptions {
+  /** Indentation for inserted values; detected from the source by default */
+  indent?: number | string;
+  /** Line break for inserted lines; detected from the source by default */
+  newline?: '\n' | '\r\n';
+}
+
+// Streaming types
+export type StreamEventType =
+  | 'startObject'
+  | 'endObject'
+  | 'startArray'
+  | 'endArray'
+  | 'key'
+  | 'value'
+  | 'end';
+
+export interface StreamEvent {
+  type: StreamEventType;
+  /** Path segments of the container, member or element the event belongs to */
+  path: Array<string | number>;
+  /** Member name, for `key` events */
+  key?: string;
+  /** Primitive value, for `value` events */
+  value?: JSONValue;
+}
+
+export type StreamListener = (event: StreamEvent) => void;
+
+export interface StreamingParserOptions {
+  /** Maximum nesting depth of objects and arrays (default PERFORMANCE_LIMITS.MAX_DEPTH) */
+  maxDepth?: number;
+  /**
+   * JSONPath pattern such as `$.items[*]`. Only events inside matching
+   * subtrees are emitted; the rest is validated but never buffered
+   */
+  select?: string;
+}
+
+export type StreamChunk = string | Uint8Array;
+
+// Anything the stream-based parsers can read chunks from
+export type StreamSource =
+  | StreamChunk
+  | Iterable<StreamChunk>
+  | AsyncIterable<StreamChunk>
+  | ReadableStream<StreamChunk>;
+
+// JSON Lines types
+export interface LinesOptions extends ParseOptions {
+  /** Leave out lines that fail to parse instead of yielding their errors */
+  skipOnError?: boolean;
+  /** Longest accepted line in characters; longer lines are reported without being buffered */
+  maxLineLength?: number;
+  /** Drop the `\r` of `\r\n` line endings before parsing (default true) */
+  crlf?: boolean;
+}
+
+export type LineResult =
+  | { line: number; value: JSONValue; error?: never }
+  | { line: number; error: JSONManError; value?: never };
+
+export interface LineWriterOptions {
+  /** Line terminator written after each value (default '\n') */
+  newline?: '\n' | '\r\n';
+}
+
+// The part of a Node Writable needed to honour backpressure and notice failures
+export interface LineSink {
+  write(chunk: string): boolean;
+  once(event: 'drain' | 'close', listener: () => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  removeListener(event: 'drain' | 'close' | 'error', listener: (error: Error) => void): unknown;
+}
+
+export type LineDestination = LineSink | WritableStream<string>;
+
+// Concatenated JSON and RFC 7464 sequence types
+export interface SequenceOptions extends ParseOptions {
+  /** Leave out values that fail to parse instead of yielding their errors */
+  skipOnError?: boolean;
 }
 
+// Byte offsets are into the UTF-8 input; `end` is exclusive
+export type SequenceResult =
+  | { value: JSONValue; start: number; end: number; error?: never }
+  | { error: JSONManError; start: number; end: number; value?: never };
+
 // Fixer types
 export interface FixOptions {
+  /** How byte input is decoded; see ParseOptions.encoding */
+  encoding?: InputEncoding;
   quotes?: 'single' | 'double' | 'preserve';
   trailingCommas?: 'remove' | 'preserve' | 'add';
   missingCommas?: 'add' | 'ignore';
   brackets?: 'balance' | 'preserve';
   whitespace?: 'normalize' | 'preserve' | 'minify';
   comments?: 'remove' | 'preserve';
+  /** Work out the repairs without applying them; see FixResult.edits and diff */
+  dryRun?: boolean;
 }
 
 export interface FixResult extends Result<string> {
   fixes: FixReport[];
+  /** With dryRun, the changes the repairs make to the input */
+  edits?: ProposedEdit[];
+  /** With dryRun, the same changes as a unified diff of the input */
+  diff?: string;
+}
+
+/** How likely a repair is to give what the author of the input meant */
+export type FixConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A change a dry run of JSONMan.fix proposes, as an edit to the input (the
+ * decoded text, for bytes). Edits do not overlap, so any of them can be
+ * applied with Parser.applyEdits; applying all of them gives the fixed text.
+ */
+export interface ProposedEdit extends TextEdit {
+  /** The lowest confidence of the repairs that make up the change */
+  confidence: FixConfidence;
+  /** The repairs that make up the change */
+  fixes: FixReport[];
 }
 
+/**
+ * One repair made by JSONMan.fix, located in the original input (the decoded
+ * text, for bytes)
+ */
 export interface FixReport {
   type: 'quote' | 'comma' | 'bracket' | 'whitespace' | 'other';
+  /** Name of the rule that made the repair, such as 'trailing-commas' */
+  rule: string;
   description: string;
+  confidence: FixConfidence;
+  /**
+   * Offsets of the replaced text; `end` is exclusive and equals `start` for an
+   * insertion. `line` and `column` (1-based) are those of `start`.
+   */
   position: {
     start: number;
     end: number;
+    line: number;
+    column: number;
   };
+  /** The text the repair replaced; empty for an insertion */
   original: string;
+  /** The text written in its place; empty for a removal */
   fixed: string;
 }
 
+// Tokens the fixer works on; together they cover every character of the text
+export type FixTokenType = Exclude<TokenType, 'eof'> | TriviaType | 'junk';
+
+// What the enclosing object, array or root expected when a token was reached
+export type FixTokenRole = 'key' | 'colon' | 'value' | 'comma';
+
+export interface FixToken {
+  type: FixTokenType;
+  raw: string;
+  /** Offsets into the text being repaired; `end` is exclusive */
+  start: number;
+  end: number;
+  /** Decoded value for string, number and literal tokens */
+  value?: JSONValue;
+  /** For strings, whether the closing quote is present */
+  terminated?: boolean;
+  /** Where the token sits; not set for whitespace and comments */
+  container?: 'root' | 'object' | 'array';
+  expected?: FixTokenRole;
+}
+
+// An edit made by a fix rule, with a description or confidence when the rule's
+// own does not fit
+export interface FixEdit extends TextEdit {
+  description?: string;
+  confidence?: FixConfidence;
+}
+
+/**
+ * A repair made by JSONMan.fix. Rules see the text as tokens, so they only
+ * change string contents when they set out to.
+ */
+export interface FixRule {
+  name: string;
+  description: string;
+  type: FixReport['type'];
+  /** How sure the repair is: high for trailing commas, low for guessed closers */
+  confidence: FixConfidence;
+  /**
+   * Edits that make the repair; none when the rule does not apply. `options`
+   * has the defaults filled in.
+   */
+  apply(tokens: FixToken[], text: string, options: FixOptions): FixEdit[];
+}
+
 // Analyzer types
 export interface AnalysisOptions {
   includeSchema?: boolean;
@@ -155,20 +616,90 @@ export interface AnalysisResult {
   performance?: PerformanceInfo;
 }
 
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * The JSON Schema keywords JSONMan understands. Arrays are readonly so a
+ * schema declared `as const` still fits.
+ */
 export interface JSONSchema {
-  type: string;
-  properties?: { [key: string]: JSONSchema };
+  type?: JSONSchemaType | readonly JSONSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: { readonly [key: string]: JSONSchema };
+  additionalProperties?: boolean | JSONSchema;
   items?: JSONSchema;
-  required?: string[];
+  required?: readonly string[];
   format?: string;
   pattern?: string;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
-  enum?: JSONValue[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  enum?: readonly JSONValue[];
+  const?: JSONValue;
+  anyOf?: readonly JSONSchema[];
+  oneOf?: readonly JSONSchema[];
+  allOf?: readonly JSONSchema[];
 }
 
+/**
+ * The TypeScript type of the values a JSON Schema accepts. The schema's
+ * literals must survive for this to be precise, so declare it `as const`;
+ * anything it cannot narrow is JSONValue.
+ */
+export type FromSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { anyOf: readonly (infer M)[] }
+      ? FromSchema<M>
+      : S extends { oneOf: readonly (infer M)[] }
+        ? FromSchema<M>
+        : S extends { type: readonly (infer K)[] }
+          ? FromSchemaType<S, K>
+          : S extends { type: infer K }
+            ? FromSchemaType<S, K>
+            : JSONValue;
+
+type FromSchemaType<S, K> = string extends K
+  ? JSONValue
+  : K extends 'string'
+    ? string
+    : K extends 'number' | 'integer'
+      ? number
+      : K extends 'boolean'
+        ? boolean
+        : K extends 'null'
+          ? null
+          : K extends 'array'
+            ? S extends { items: infer I }
+              ? FromSchema<I>[]
+              : JSONArray
+            : K extends 'object'
+              ? FromObjectSchema<S>
+              : never;
+
+type FromObjectSchema<S> = S extends { properties: infer P }
+  ? Flatten<
+      {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]>;
+      } & {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]>;
+      }
+    >
+  : JSONObject;
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
 export interface JSONStats {
   totalSize: number;
   depth: number;
@@ -359,6 +890,36 @@ export interface TransformationReport {
   affectedPaths: string[];
 }
 
+// Serializer types
+/**
+ * JSON plus the annotations needed to restore what JSON cannot hold.
+ * `meta.values` maps the JSON Pointer of each encoded value to its type:
+ * 'undefined', 'number' (NaN, ±Infinity, -0), 'bigint', 'Date', 'RegExp',
+ * 'Map', 'Set' or the name of a SerializerPlugin.
+ */
+export interface SerializedJSON {
+  json: JSONValue;
+  /** Present only when some value needed an annotation */
+  meta?: { values: Record<string, string> };
+}
+
+/**
+ * Teaches Serializer a custom class. `serialize` must return plain JSON;
+ * `deserialize` receives that JSON back.
+ */
+export interface SerializerPlugin<T = unknown> {
+  /** Stored as the type annotation, so it must stay stable between versions */
+  name: string;
+  isApplicable(value: unknown): value is T;
+  serialize(value: T): JSONValue;
+  deserialize(json: JSONValue): T;
+}
+
+export interface SerializeOptions {
+  /** Plugins for this call, tried before the registered ones */
+  plugins?: SerializerPlugin<any>[];
+}
+
 // Configuration types
 export interface JSONManOptions {
   strict?: boolean;
@@ -418,6 +979,12 @@ export const ERROR_CODES = {
   ANALYZE_ERROR: 'ANALYZE_ERROR',
   FIX_ERROR: 'FIX_ERROR',
   COMPARE_ERROR: 'COMPARE_ERROR',
+  DEPTH_EXCEEDED: 'DEPTH_EXCEEDED',
+  SIZE_EXCEEDED: 'SIZE_EXCEEDED',
+  NODES_EXCEEDED: 'NODES_EXCEEDED',
+  UNSAFE_KEY: 'UNSAFE_KEY',
+  DUPLICATE_KEY: 'DUPLICATE_KEY',
+  INVALID_ENCODING: 'INVALID_ENCODING',
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
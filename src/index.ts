@@ -9,9 +9,18 @@ export { JSONMan as default } from './core/JSONMan';
 export { JSONMan } from './core/JSONMan';
 export * from './core/types';
 export * from './core/errors';
+export { JSONDecimal } from './core/JSONDecimal';
 
 // Module exports
 export { Parser } from './modules/parser/Parser';
+export { Tokenizer } from './modules/parser/Tokenizer';
+export { DescentParser } from './modules/parser/DescentParser';
+export { StreamingParser } from './modules/parser/StreamingParser';
+export { CSTParser } from './modules/parser/CST';
+export { TolerantParser } from './modules/parser/TolerantParser';
+export { ParsePipeline } from './modules/parser/Pipeline';
+export { Fixer } from './modules/fixer/Fixer';
+export { Serializer } from './modules/serializer/Serializer';
 
 // Utility exports
 export * from './utils/helpers';
@@ -19,6 +28,8 @@ export {
   VERSION as LIB_VERSION,
   LIBRARY_NAME,
   DEFAULT_OPTIONS,
+  PARSE_MODES,
+  UNSAFE_KEYS,
   PERFORMANCE_LIMITS,
   MERGE_STRATEGIES,
   ARRAY_MERGE_OPTIONS,
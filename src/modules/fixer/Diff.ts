@@ -0,0 +1,152 @@
+/**
+ * Unified diffs of the changes the fixer proposes
+ */
+
+import { TextEdit } from '../../core/types';
+
+// Unchanged lines shown around each change
+const CONTEXT = 3;
+
+// Lines [start, end) of the input that become lines [newStart, newEnd) of the output
+interface Block {
+  start: number;
+  end: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * A unified diff from `before` to `after`, where `after` is `before` with
+ * `edits` (sorted and not overlapping) applied. Knowing the edits, the
+ * changed lines are found directly instead of by comparing the texts.
+ */
+export function unifiedDiff(before: string, after: string, edits: readonly TextEdit[]): string {
+  const oldLines = new Lines(before);
+  const newLines = new Lines(after);
+  const blocks: Block[] = [];
+  let shift = 0;
+
+  for (const edit of edits) {
+    const newOffset = edit.offset + shift;
+    const block: Block = {
+      start: oldLines.at(edit.offset),
+      end: oldLines.after(edit.offset + edit.length),
+      newStart: newLines.at(newOffset),
+      newEnd: newLines.after(newOffset + edit.content.length),
+    };
+    shift += edit.content.length - edit.length;
+
+    // Changes on the same or neighbouring lines are shown as one
+    const previous = blocks[blocks.length - 1];
+    if (previous && block.start <= previous.end) {
+      previous.end = Math.max(previous.end, block.end);
+      previous.newEnd = Math.max(previous.newEnd, block.newEnd);
+    } else {
+      blocks.push(block);
+    }
+  }
+  if (blocks.length === 0) {
+    return '';
+  }
+
+  let diff = '--- input\n+++ fixed\n';
+  for (const hunk of hunks(blocks)) {
+    const first = hunk[0]!;
+    const last = hunk[hunk.length - 1]!;
+    const start = Math.max(0, first.start - CONTEXT);
+    const end = Math.min(oldLines.count, last.end + CONTEXT);
+    const newStart = first.newStart - (first.start - start);
+    const newEnd = last.newEnd + (end - last.end);
+
+    diff += `@@ -${range(start, end)} +${range(newStart, newEnd)} @@\n`;
+    let line = start;
+    for (const block of hunk) {
+      diff += oldLines.print(' ', line, block.start);
+      diff += oldLines.print('-', block.start, block.end);
+      diff += newLines.print('+', block.newStart, block.newEnd);
+      line = block.end;
+    }
+    diff += oldLines.print(' ', line, end);
+  }
+  return diff;
+}
+
+/**
+ * The lines of a text; a line break ending the text does not start a line
+ */
+class Lines {
+  private readonly starts: number[] = [0];
+  readonly count: number;
+
+  constructor(private readonly text: string) {
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      this.starts.push(i + 1);
+    }
+    this.count = text.endsWith('\n') || text === '' ? this.starts.length - 1 : this.starts.length;
+  }
+
+  /**
+   * The line an offset is on
+   */
+  at(offset: number): number {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.starts[middle]! <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return Math.min(low, this.count);
+  }
+
+  /**
+   * The line after the one an offset is on
+   */
+  after(offset: number): number {
+    return Math.min(this.at(offset) + 1, this.count);
+  }
+
+  /**
+   * Lines [from, to) with a prefix, marking a last line without a line break
+   */
+  print(prefix: string, from: number, to: number): string {
+    let printed = '';
+    for (let line = from; line < to; line++) {
+      const start = this.starts[line]!;
+      const end = this.starts[line + 1];
+      printed +=
+        end === undefined
+          ? `${prefix}${this.text.slice(start)}\n\\ No newline at end of file\n`
+          : `${prefix}${this.text.slice(start, end)}`;
+    }
+    return printed;
+  }
+}
+
+// Blocks grouped into hunks wherever their context would touch
+function hunks(blocks: Block[]): Block[][] {
+  const grouped: Block[][] = [];
+  for (const block of blocks) {
+    const hunk = grouped[grouped.length - 1];
+    const previous = hunk?.[hunk.length - 1];
+    if (hunk && previous && block.start - previous.end <= CONTEXT * 2) {
+      hunk.push(block);
+    } else {
+      grouped.push([block]);
+    }
+  }
+  return grouped;
+}
+
+// A hunk header range: the 1-based first line and, unless it is one, the line
+// count. An empty range starts at the line before it.
+function range(start: number, end: number): string {
+  const count = end - start;
+  if (count === 0) {
+    return `${start},0`;
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
@@ -0,0 +1,445 @@
+/**
+ * Token-based repair of broken JSON text, with the registry of rules behind
+ * JSONMan.fix
+ */
+
+import {
+  DecodedInput,
+  FixConfidence,
+  FixEdit,
+  FixOptions,
+  FixReport,
+  FixResult,
+  FixRule,
+  JSONInput,
+  ProposedEdit,
+  StagePlacement,
+  TextEdit,
+} from '../../core/types';
+import { JSONFixError, JSONParseError } from '../../core/errors';
+import { DEFAULT_OPTIONS } from '../../utils/constants';
+import { applyEdits } from '../parser/Edit';
+import { decodeInput } from '../parser/Encoding';
+import { defaultPipeline } from '../parser/Pipeline';
+import { unifiedDiff } from './Diff';
+import { lex } from './Lexer';
+import { BUILTIN_FIX_RULES } from './Rules';
+
+/**
+ * Result of repair
+ */
+export interface RepairResult {
+  text: string;
+  fixes: FixReport[];
+  /** The same changes as edits to the input */
+  edits: ProposedEdit[];
+}
+
+const CONFIDENCE: readonly FixConfidence[] = ['low', 'medium', 'high'];
+
+// A stretch of the text being repaired: copied from the input, or written by
+// a rule in place of input[start, end)
+interface Piece {
+  length: number;
+  start: number;
+  end: number;
+  copied: boolean;
+}
+
+/**
+ * Run rules over text in order, each on the text the ones before it left.
+ * Every edit a rule makes is reported on its own, at the place in `text` it
+ * stands for. Options not given take their DEFAULT_OPTIONS.FIX values.
+ */
+export function repair(
+  text: string,
+  options: FixOptions = {},
+  rules: readonly FixRule[] = BUILTIN_FIX_RULES
+): RepairResult {
+  const settings: FixOptions = { ...DEFAULT_OPTIONS.FIX, ...options };
+  const origins = new Origins(text.length);
+  const lines = lineStarts(text);
+  const fixes: FixReport[] = [];
+  let current = text;
+
+  for (const rule of rules) {
+    const edits = rule
+      .apply(lex(current), current, settings)
+      .filter(edit => current.slice(edit.offset, edit.offset + edit.length) !== edit.content)
+      .sort((a, b) => a.offset - b.offset);
+    if (edits.length === 0) {
+      continue;
+    }
+
+    for (const edit of edits) {
+      const { start, end } = origins.locate(edit);
+      fixes.push({
+        type: rule.type,
+        rule: rule.name,
+        description: edit.description ?? rule.description,
+        confidence: edit.confidence ?? rule.confidence,
+        position: { start, end, ...lineAndColumn(lines, start) },
+        original: current.slice(edit.offset, edit.offset + edit.length),
+        fixed: edit.content,
+      });
+    }
+    origins.apply(edits);
+    current = applyEdits(current, edits);
+  }
+
+  const edits = origins.edits(current).map(edit => {
+    const end = edit.offset + edit.length;
+    const made = fixes.filter(fix => fix.position.start >= edit.offset && fix.position.end <= end);
+    return { ...edit, confidence: lowest(made.map(fix => fix.confidence)), fixes: made };
+  });
+  return { text: current, fixes, edits };
+}
+
+/**
+ * An ordered set of repair rules. It starts with the built-in rules, which
+ * can be turned off, moved or joined by rules of your own; names() lists
+ * them in the order they run.
+ */
+export class Fixer {
+  private readonly rules: FixRule[] = [...BUILTIN_FIX_RULES];
+  private readonly disabled = new Set<string>();
+
+  /**
+   * Rule names in the order they run, turned off ones included
+   */
+  names(): string[] {
+    return this.rules.map(rule => rule.name);
+  }
+
+  /**
+   * Whether a rule is registered and turned on
+   */
+  isEnabled(name: string): boolean {
+    return this.rules.some(rule => rule.name === name) && !this.disabled.has(name);
+  }
+
+  /**
+   * Add a rule. By default it runs first, which suits rules that turn other
+   * formats into something the built-in rules can finish off.
+   */
+  use(rule: FixRule, placement?: StagePlacement): this {
+    if (this.rules.some(existing => existing.name === rule.name)) {
+      throw new JSONFixError(`A fix rule named '${rule.name}' is already registered`, rule.name, {
+        suggestions: ['Remove the existing rule first, or give this one another name'],
+      });
+    }
+    this.rules.splice(placement ? this.indexFor(rule.name, placement) : 0, 0, rule);
+    return this;
+  }
+
+  /**
+   * Run a rule at another place in the order
+   */
+  move(name: string, placement: StagePlacement): this {
+    const rule = this.rules[this.indexOf(name)]!;
+    const anchor = 'before' in placement ? placement.before : placement.after;
+    if (anchor === name) {
+      throw new JSONFixError(`Cannot place '${name}' relative to itself`, name);
+    }
+    this.rules.splice(this.indexOf(name), 1);
+    this.rules.splice(this.indexFor(name, placement), 0, rule);
+    return this;
+  }
+
+  /**
+   * Remove a rule added with use(). Built-in rules can only be turned off.
+   * Returns false when there was none by that name.
+   */
+  remove(name: string): boolean {
+    if (BUILTIN_FIX_RULES.some(rule => rule.name === name)) {
+      throw new JSONFixError(`The built-in '${name}' rule cannot be removed`, name, {
+        suggestions: [`Turn it off with disable('${name}')`],
+      });
+    }
+    const index = this.rules.findIndex(rule => rule.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.rules.splice(index, 1);
+    this.disabled.delete(name);
+    return true;
+  }
+
+  /**
+   * Turn a rule back on
+   */
+  enable(name: string): this {
+    this.indexOf(name);
+    this.disabled.delete(name);
+    return this;
+  }
+
+  /**
+   * Turn a rule off, keeping its place in the order
+   */
+  disable(name: string): this {
+    this.indexOf(name);
+    this.disabled.add(name);
+    return this;
+  }
+
+  /**
+   * A copy with the same rules, for changing them for a single call
+   */
+  clone(): Fixer {
+    const copy = new Fixer();
+    copy.rules.splice(0, copy.rules.length, ...this.rules);
+    this.disabled.forEach(name => copy.disabled.add(name));
+    return copy;
+  }
+
+  /**
+   * Run the rules that are turned on over text
+   */
+  repair(text: string, options: FixOptions = {}): RepairResult {
+    return repair(
+      text,
+      options,
+      this.rules.filter(rule => !this.disabled.has(rule.name))
+    );
+  }
+
+  /**
+   * Repair input into JSON text; see JSONMan.fix. Errors thrown by rules are
+   * returned as a JSONParseError with the error as its cause.
+   */
+  fix(input: JSONInput, options: FixOptions = {}): FixResult {
+    let decoded: DecodedInput;
+    try {
+      decoded = decodeInput(input, options.encoding);
+    } catch (error) {
+      if (error instanceof JSONParseError) {
+        return { success: false, error, fixes: [] };
+      }
+      throw error;
+    }
+
+    try {
+      const fixes: FixReport[] = [];
+
+      // Decoding bytes already dropped their BOM, so it sits just before the
+      // decoded text; the 'bom' rule removes one left in text
+      if (decoded.bom) {
+        fixes.push({
+          type: 'other',
+          rule: 'bom',
+          description: 'Removed Unicode BOM',
+          confidence: 'high',
+          position: { start: 0, end: 0, line: 1, column: 1 },
+          original: '\uFEFF',
+          fixed: '',
+        });
+      }
+
+      const settings = { ...DEFAULT_OPTIONS.FIX, ...options };
+      const repaired = this.repair(decoded.text, settings);
+      fixes.push(...repaired.fixes);
+      const fixed = repaired.text;
+      const proposal = settings.dryRun
+        ? { edits: repaired.edits, diff: unifiedDiff(decoded.text, fixed, repaired.edits) }
+        : {};
+
+      // Kept comments, trailing commas and single quotes make JSONC or JSON5
+      const parseResult = defaultPipeline.parse(fixed, {
+        allowComments: settings.comments === 'preserve',
+        allowTrailingCommas: settings.trailingCommas !== 'remove',
+        allowSingleQuotes: settings.quotes !== 'double',
+      });
+      if (parseResult.success) {
+        return {
+          success: true,
+          ...(!settings.dryRun && { data: fixed }),
+          fixes,
+          ...proposal,
+        };
+      }
+
+      return {
+        success: false,
+        error: new JSONParseError('Unable to fix JSON after all attempts'),
+        fixes,
+        ...proposal,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: new JSONParseError('Failed to fix JSON', { cause: error as Error }),
+        fixes: [],
+      };
+    }
+  }
+
+  // Index of a registered rule
+  private indexOf(name: string): number {
+    const index = this.rules.findIndex(rule => rule.name === name);
+    if (index === -1) {
+      throw new JSONFixError(`There is no fix rule named '${name}'`, name, {
+        suggestions: [`Use one of: ${this.names().join(', ')}`],
+      });
+    }
+    return index;
+  }
+
+  // Where a rule placed relative to another goes
+  private indexFor(name: string, placement: StagePlacement): number {
+    const anchor = 'before' in placement ? placement.before : placement.after;
+    const index = this.rules.findIndex(rule => rule.name === anchor);
+    if (index === -1) {
+      throw new JSONFixError(`Cannot place '${name}': there is no rule named '${anchor}'`, name, {
+        suggestions: [`Place it relative to one of: ${this.names().join(', ')}`],
+      });
+    }
+    return 'before' in placement ? index : index + 1;
+  }
+}
+
+/**
+ * The rules behind JSONMan.fix; changes to it apply to every fix
+ */
+export const defaultFixer = new Fixer();
+
+/**
+ * Where each part of the text being repaired came from, so that edits to it
+ * can be reported against the input
+ */
+class Origins {
+  private pieces: Piece[];
+
+  constructor(private readonly length: number) {
+    this.pieces = length > 0 ? [{ length, start: 0, end: length, copied: true }] : [];
+  }
+
+  /**
+   * The input range an edit to the current text replaces. Text written by an
+   * earlier rule maps to the range that rule replaced.
+   */
+  locate(edit: FixEdit): { start: number; end: number } {
+    const start = this.original(edit.offset, false);
+    const end = edit.length > 0 ? this.original(edit.offset + edit.length, true) : start;
+    return { start, end: Math.max(start, end) };
+  }
+
+  /**
+   * Record edits, sorted by offset, made to the current text
+   */
+  apply(edits: FixEdit[]): void {
+    const pieces: Piece[] = [];
+    let cursor = 0;
+    for (const edit of edits) {
+      pieces.push(...this.slice(cursor, edit.offset));
+      if (edit.content.length > 0) {
+        pieces.push({ length: edit.content.length, ...this.locate(edit), copied: false });
+      }
+      cursor = Math.max(cursor, edit.offset + edit.length);
+    }
+    pieces.push(...this.slice(cursor, Infinity));
+    this.pieces = pieces;
+  }
+
+  /**
+   * Edits that turn the input into the current text: each run of written text
+   * replaces the input between the copied pieces around it
+   */
+  edits(current: string): TextEdit[] {
+    const edits: TextEdit[] = [];
+    let input = 0;
+    let position = 0;
+    let content = '';
+    const flush = (end: number): void => {
+      if (end > input || content.length > 0) {
+        edits.push({ offset: input, length: end - input, content });
+      }
+      content = '';
+    };
+
+    for (const piece of this.pieces) {
+      if (piece.copied) {
+        flush(piece.start);
+        input = piece.end;
+      } else {
+        content += current.slice(position, position + piece.length);
+      }
+      position += piece.length;
+    }
+    flush(this.length);
+    return edits;
+  }
+
+  /**
+   * Input offset of a current offset. At the boundary between two pieces
+   * `before` picks the end of the first rather than the start of the second.
+   */
+  private original(offset: number, before: boolean): number {
+    let position = 0;
+    for (const piece of this.pieces) {
+      const end = position + piece.length;
+      if (before ? offset <= end : offset < end) {
+        if (!piece.copied) {
+          return before ? piece.end : piece.start;
+        }
+        return piece.start + Math.max(0, offset - position);
+      }
+      position = end;
+    }
+    const last = this.pieces[this.pieces.length - 1];
+    return last ? last.end : 0;
+  }
+
+  // The pieces covering the current text from `from` to `to`
+  private slice(from: number, to: number): Piece[] {
+    const pieces: Piece[] = [];
+    let position = 0;
+    for (const piece of this.pieces) {
+      const start = Math.max(from, position);
+      const end = Math.min(to, position + piece.length);
+      if (end > start) {
+        pieces.push(
+          piece.copied
+            ? {
+                length: end - start,
+                start: piece.start + start - position,
+                end: piece.start + end - position,
+                copied: true,
+              }
+            : { ...piece, length: end - start }
+        );
+      }
+      position += piece.length;
+    }
+    return pieces;
+  }
+}
+
+// The lowest of some confidences; high when there are none
+function lowest(confidences: FixConfidence[]): FixConfidence {
+  return CONFIDENCE.find(confidence => confidences.includes(confidence)) ?? 'high';
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAndColumn(starts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - starts[low]! + 1 };
+}
+
+export default Fixer;
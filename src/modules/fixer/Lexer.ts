@@ -0,0 +1,157 @@
+/**
+ * Lossless tokenizing of broken JSON for the fixer
+ */
+
+import { FixToken, FixTokenRole } from '../../core/types';
+import { PARSE_MODES } from '../../utils/constants';
+import { Tokenizer } from '../parser/Tokenizer';
+
+interface Frame {
+  container: 'root' | 'object' | 'array';
+  expected: FixTokenRole;
+}
+
+const TRIVIA: ReadonlySet<string> = new Set(['whitespace', 'lineComment', 'blockComment']);
+const KEYS: ReadonlySet<string> = new Set([
+  'string',
+  'identifier',
+  'number',
+  'true',
+  'false',
+  'null',
+]);
+
+/**
+ * Split text into tokens that cover every character, so a repair can change
+ * one token and leave the rest of the text exactly as it was. The JSON5
+ * grammar is read with error recovery: characters the tokenizer skips become
+ * `junk` tokens, and strings cut short by a line break or the end of input
+ * are marked as not terminated. Every token other than whitespace and
+ * comments records the container it sits in and what that container expected
+ * next.
+ */
+export function lex(text: string): FixToken[] {
+  const tokenizer = new Tokenizer(text, PARSE_MODES.json5, () => undefined);
+  const tokens: FixToken[] = [];
+  let offset = 0;
+
+  const add = (token: FixToken): void => {
+    if (token.start > offset) {
+      tokens.push({
+        type: 'junk',
+        raw: text.slice(offset, token.start),
+        start: offset,
+        end: token.start,
+      });
+    }
+    tokens.push(token);
+    offset = token.end;
+  };
+
+  for (;;) {
+    const { trivia, token } = tokenizer.nextWithTrivia();
+    for (const item of trivia) {
+      add({ type: item.type, raw: item.raw, start: item.start.index, end: item.end.index });
+    }
+    if (token.type === 'eof') {
+      break;
+    }
+    add({
+      type: token.type,
+      raw: token.raw,
+      start: token.start.index,
+      end: token.end.index,
+      ...(token.value !== undefined && { value: token.value }),
+      ...(token.type === 'string' && { terminated: isTerminated(token.raw) }),
+    });
+  }
+  if (offset < text.length) {
+    tokens.push({ type: 'junk', raw: text.slice(offset), start: offset, end: text.length });
+  }
+
+  annotate(tokens);
+  return tokens;
+}
+
+/**
+ * Whether a token is anything other than whitespace or a comment
+ */
+export function isSignificant(token: FixToken): boolean {
+  return !TRIVIA.has(token.type);
+}
+
+/**
+ * Whether a token is an object key, including one that follows a value
+ * without a comma
+ */
+export function isKey(token: FixToken): boolean {
+  return (
+    token.container === 'object' &&
+    KEYS.has(token.type) &&
+    (token.expected === 'key' || token.expected === 'comma')
+  );
+}
+
+/**
+ * Record the container and expectation of each significant token, following
+ * the structure as leniently as it can: a missing comma or colon is assumed
+ * rather than reported, and a closer that matches no open container is
+ * ignored
+ */
+function annotate(tokens: FixToken[]): void {
+  const stack: Frame[] = [{ container: 'root', expected: 'value' }];
+
+  for (const token of tokens) {
+    if (!isSignificant(token)) {
+      continue;
+    }
+    const frame = stack[stack.length - 1]!;
+    token.container = frame.container;
+    token.expected = frame.expected;
+
+    switch (token.type) {
+      case 'beginObject':
+      case 'beginArray':
+        frame.expected = 'comma';
+        stack.push({
+          container: token.type === 'beginObject' ? 'object' : 'array',
+          expected: token.type === 'beginObject' ? 'key' : 'value',
+        });
+        break;
+      case 'endObject':
+      case 'endArray': {
+        const container = token.type === 'endObject' ? 'object' : 'array';
+        const index = stack.map(open => open.container).lastIndexOf(container);
+        if (index > 0) {
+          stack.length = index;
+        }
+        break;
+      }
+      case 'colon':
+        if (frame.container === 'object' && frame.expected === 'colon') {
+          frame.expected = 'value';
+        }
+        break;
+      case 'comma':
+        frame.expected = frame.container === 'object' ? 'key' : 'value';
+        break;
+      case 'junk':
+        break;
+      default:
+        frame.expected = isKey(token) ? 'colon' : 'comma';
+    }
+  }
+}
+
+// Whether the quote that opens a string is matched by an unescaped one at its end
+function isTerminated(raw: string): boolean {
+  const quote = raw[0];
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i] === '\\') {
+      i++;
+    } else if (raw[i] === quote) {
+      return i === raw.length - 1;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,712 @@
+/**
+ * The repairs JSONMan.fix makes, in the order it makes them
+ */
+
+import { FixEdit, FixOptions, FixRule, FixToken } from '../../core/types';
+import { isValidJSON } from '../../utils/helpers';
+import { applyEdits } from '../parser/Edit';
+import { JSON_NUMBER } from '../parser/Tokenizer';
+import { isKey, isSignificant, lex } from './Lexer';
+
+const LITERALS: ReadonlyMap<string, string> = new Map([
+  ['None', 'null'],
+  ['undefined', 'null'],
+  ['NULL', 'null'],
+  ['True', 'true'],
+  ['False', 'false'],
+]);
+
+const VALUE_START: ReadonlySet<string> = new Set([
+  'beginObject',
+  'beginArray',
+  'string',
+  'number',
+  'true',
+  'false',
+  'null',
+  'identifier',
+]);
+
+// Tokens that would run together without whitespace between them
+const WORDS: ReadonlySet<string> = new Set([
+  'identifier',
+  'number',
+  'true',
+  'false',
+  'null',
+  'junk',
+]);
+
+const CONTROL_ESCAPES: { [char: string]: string } = {
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+// Stringified JSON is unwrapped at most this many levels deep
+const MAX_UNWRAP_DEPTH = 10;
+
+const bom: FixRule = {
+  name: 'bom',
+  description: 'Removed Unicode BOM',
+  type: 'other',
+  confidence: 'high',
+  apply: (_tokens, text) =>
+    text.charCodeAt(0) === 0xfeff ? [{ offset: 0, length: 1, content: '' }] : [],
+};
+
+const comments: FixRule = {
+  name: 'comments',
+  description: 'Removed comments',
+  type: 'other',
+  confidence: 'high',
+  apply: (tokens, text, options) =>
+    tokens
+      .filter(
+        token =>
+          (token.type === 'lineComment' || token.type === 'blockComment') &&
+          options.comments !== 'preserve'
+      )
+      .map(comment => {
+        if (comment.type === 'lineComment') {
+          // Along with the spaces before it, so the line has no trailing whitespace
+          let start = comment.start;
+          while (text[start - 1] === ' ' || text[start - 1] === '\t') {
+            start--;
+          }
+          return { offset: start, length: comment.end - start, content: '' };
+        }
+        // A block comment between two tokens still keeps them apart
+        const before = text[comment.start - 1] ?? ' ';
+        const after = text[comment.end] ?? ' ';
+        return replace(comment, /\S\S/.test(before + after) ? ' ' : '');
+      }),
+};
+
+const missingBraces: FixRule = {
+  name: 'missing-braces',
+  description: 'Wrapped bare members in braces',
+  type: 'bracket',
+  confidence: 'medium',
+  apply: tokens => {
+    const sig = tokens.filter(isSignificant);
+    const [first, second] = sig;
+    if (!first || second?.type !== 'colon' || !['string', 'identifier'].includes(first.type)) {
+      return [];
+    }
+    return [insert(first.start, '{'), insert(sig[sig.length - 1]!.end, '}')];
+  },
+};
+
+const literals: FixRule = {
+  name: 'literals',
+  description: 'Converted literals to JSON format',
+  type: 'other',
+  confidence: 'medium',
+  apply: tokens =>
+    tokens.flatMap(token => {
+      const literal = token.type === 'identifier' ? LITERALS.get(token.raw) : undefined;
+      return literal !== undefined && !isKey(token) ? [replace(token, literal)] : [];
+    }),
+};
+
+const numbers: FixRule = {
+  name: 'numbers',
+  description: 'Converted JavaScript numbers to JSON',
+  type: 'other',
+  confidence: 'high',
+  apply: tokens =>
+    tokens.flatMap(token => {
+      if (token.type !== 'number' || JSON_NUMBER.test(token.raw) || isKey(token)) {
+        return [];
+      }
+      const json = toJSONNumber(token.raw);
+      if (json === undefined) {
+        return [];
+      }
+      // Infinity and NaN have no JSON form, so their value is lost
+      return [
+        { ...replace(token, json), ...(json === 'null' && { confidence: 'medium' as const }) },
+      ];
+    }),
+};
+
+const duplicateDelimiters: FixRule = {
+  name: 'duplicate-delimiters',
+  description: 'Fixed duplicate delimiters',
+  type: 'bracket',
+  confidence: 'medium',
+  // Only braces: `{{` is never valid, while `[[` opens a nested array
+  apply: tokens => {
+    const sig = tokens.filter(isSignificant);
+    return sig.flatMap((token, i) => {
+      if (token.type !== 'beginObject' || sig[i - 1]?.type !== 'beginObject') {
+        return [];
+      }
+      const close = matchingCloser(sig, i);
+      const closer = sig[close];
+      return closer?.type === 'endObject' && sig[close + 1]?.type === 'endObject'
+        ? [remove(token), remove(closer)]
+        : [];
+    });
+  },
+};
+
+const quotes: FixRule = {
+  name: 'quotes',
+  description: 'Converted single quotes to double quotes',
+  type: 'quote',
+  confidence: 'high',
+  apply: (tokens, _text, options) => {
+    if (options.quotes === 'preserve') {
+      return [];
+    }
+    const to = options.quotes === 'single' ? "'" : '"';
+    return tokens
+      .filter(token => token.type === 'string' && token.raw[0] !== to)
+      .map(token => ({
+        ...replace(token, requote(token, to)),
+        ...(to === "'" && { description: 'Converted double quotes to single quotes' }),
+      }));
+  },
+};
+
+const unescapedQuotes: FixRule = {
+  name: 'unescaped-quotes',
+  description: 'Fixed unescaped quotes in string values',
+  type: 'quote',
+  confidence: 'low',
+  // `"say "hi" now"` reads as a string, a word and another string before
+  // the next comma or closer; anything structural in between means the
+  // strings really are separate
+  apply: (tokens, text) => {
+    const sig = tokens.filter(isSignificant);
+    const edits: FixEdit[] = [];
+    for (let i = 0; i < sig.length; i++) {
+      const first = sig[i]!;
+      if (!isQuoted(first) || isKey(first)) {
+        continue;
+      }
+      let end = i + 1;
+      while (end < sig.length && !['comma', 'endObject', 'endArray'].includes(sig[end]!.type)) {
+        end++;
+      }
+      const run = sig.slice(i + 1, end);
+      const last = run[run.length - 1];
+      if (
+        run.length < 2 ||
+        !last ||
+        !isQuoted(last) ||
+        last.raw[0] !== first.raw[0] ||
+        run.some(token => ['colon', 'beginObject', 'beginArray'].includes(token.type))
+      ) {
+        continue;
+      }
+      const quote = first.raw[0]!;
+      const inner = text.slice(first.start + 1, last.end - 1);
+      edits.push({
+        offset: first.start,
+        length: last.end - first.start,
+        content: quote + escapeQuotes(inner, quote) + quote,
+      });
+      i = end - 1;
+    }
+    return edits;
+  },
+};
+
+const escapes: FixRule = {
+  name: 'escapes',
+  description: 'Fixed invalid escape sequences',
+  type: 'other',
+  confidence: 'high',
+  apply: tokens => tokens.flatMap(token => (token.type === 'string' ? escapeEdits(token) : [])),
+};
+
+const unquotedKeys: FixRule = {
+  name: 'unquoted-keys',
+  description: 'Quoted unquoted keys',
+  type: 'quote',
+  confidence: 'high',
+  apply: (tokens, _text, options) =>
+    tokens
+      .filter(token => isKey(token) && token.type !== 'string')
+      .map(token => replace(token, quoteString(token.raw, options))),
+};
+
+const missingCommas: FixRule = {
+  name: 'missing-commas',
+  description: 'Added missing commas',
+  type: 'comma',
+  confidence: 'medium',
+  apply: (tokens, _text, options) => {
+    if (options.missingCommas === 'ignore') {
+      return [];
+    }
+    const sig = tokens.filter(isSignificant);
+    return sig.flatMap((token, i) => {
+      const previous = sig[i - 1];
+      if (!previous || previous.type === 'junk' || token.expected !== 'comma') {
+        return [];
+      }
+      const missing =
+        token.container === 'object'
+          ? isKey(token)
+          : token.container === 'array' && VALUE_START.has(token.type);
+      return missing ? [insert(previous.end, ',')] : [];
+    });
+  },
+};
+
+const doubleCommas: FixRule = {
+  name: 'double-commas',
+  description: 'Fixed double commas and empty slots',
+  type: 'comma',
+  confidence: 'medium',
+  apply: tokens =>
+    tokens
+      .filter(
+        token =>
+          token.type === 'comma' &&
+          ((token.container === 'array' && token.expected === 'value') ||
+            (token.container === 'object' && token.expected === 'key'))
+      )
+      .map(remove),
+};
+
+const danglingArtifacts: FixRule = {
+  name: 'dangling-artifacts',
+  description: 'Removed dangling artifacts',
+  type: 'other',
+  confidence: 'low',
+  // Stray punctuation after a complete root value, such as `{"a":1}:"`
+  apply: tokens => {
+    const sig = tokens.filter(isSignificant);
+    let start = sig.length;
+    while (start > 0 && isDangling(sig[start - 1]!)) {
+      start--;
+    }
+    return start > 0 && sig[start]?.expected === 'comma' ? sig.slice(start).map(remove) : [];
+  },
+};
+
+const unterminatedStrings: FixRule = {
+  name: 'unterminated-strings',
+  description: 'Closed unterminated strings',
+  type: 'quote',
+  confidence: 'low',
+  apply: tokens =>
+    tokens
+      .filter(token => token.type === 'string' && !token.terminated)
+      .map(token => insert(token.end, token.raw[0]!)),
+};
+
+const brackets: FixRule = {
+  name: 'brackets',
+  description: 'Balanced brackets and completed incomplete structures',
+  type: 'bracket',
+  confidence: 'low',
+  apply: (tokens, _text, options) => {
+    if (options.brackets === 'preserve') {
+      return [];
+    }
+    const sig = tokens.filter(isSignificant);
+    const open: FixToken[] = [];
+    const edits: FixEdit[] = [];
+
+    sig.forEach((token, i) => {
+      if (token.type === 'beginObject' || token.type === 'beginArray') {
+        open.push(token);
+      } else if (token.type === 'endObject' || token.type === 'endArray') {
+        const opener = token.type === 'endObject' ? 'beginObject' : 'beginArray';
+        const index = open.map(container => container.type).lastIndexOf(opener);
+        if (index === -1) {
+          edits.push(remove(token));
+          return;
+        }
+        // `[1, 2}` closes the array before the object it sits in
+        const unclosed = open.splice(index).slice(1);
+        if (unclosed.length > 0) {
+          edits.push(insert(sig[i - 1]!.end, closers(unclosed)));
+        }
+      }
+    });
+
+    // Truncated input: finish the last member, then close what is open. A
+    // comma left before the closers is dealt with by 'trailing-commas'.
+    if (open.length > 0) {
+      const last = sig[sig.length - 1]!;
+      const completion = last.type === 'colon' ? 'null' : isKey(last) ? ':null' : '';
+      edits.push(insert(last.end, completion + closers(open)));
+    }
+    return edits;
+  },
+};
+
+const trailingCommas: FixRule = {
+  name: 'trailing-commas',
+  description: 'Removed trailing commas',
+  type: 'comma',
+  confidence: 'high',
+  apply: (tokens, _text, options) => {
+    if (options.trailingCommas === 'preserve') {
+      return [];
+    }
+    const sig = tokens.filter(isSignificant);
+    return sig.flatMap((token, i) => {
+      const previous = sig[i - 1];
+      if (!previous || (token.type !== 'endObject' && token.type !== 'endArray')) {
+        return [];
+      }
+      if (options.trailingCommas === 'add') {
+        return previous.type === 'comma' ||
+          previous.type === 'beginObject' ||
+          previous.type === 'beginArray'
+          ? []
+          : [{ ...insert(previous.end, ','), description: 'Added trailing commas' }];
+      }
+      return previous.type === 'comma' ? [remove(previous)] : [];
+    });
+  },
+};
+
+const multipleRoots: FixRule = {
+  name: 'multiple-roots',
+  description: 'Converted multiple root values to array',
+  type: 'other',
+  confidence: 'low',
+  apply: tokens => {
+    const sig = tokens.filter(isSignificant);
+    const roots = sig.filter(token => token.container === 'root' && token.type !== 'comma');
+    if (
+      roots.length < 2 ||
+      !roots.every(token => token.type === 'beginObject' || token.type === 'beginArray')
+    ) {
+      return [];
+    }
+    const edits = [insert(roots[0]!.start, '[')];
+    for (const root of roots.slice(1)) {
+      const previous = sig[sig.indexOf(root) - 1]!;
+      if (previous.type !== 'comma') {
+        edits.push(insert(previous.end, ','));
+      }
+    }
+    edits.push(insert(sig[sig.length - 1]!.end, ']'));
+    return edits;
+  },
+};
+
+const stringifiedJSON: FixRule = {
+  name: 'stringified-json',
+  description: 'Unescaped stringified JSON',
+  type: 'other',
+  confidence: 'medium',
+  apply: tokens => unwrapEdits(tokens, 0),
+};
+
+const bareWord: FixRule = {
+  name: 'bare-word',
+  description: 'Quoted a bare word',
+  type: 'quote',
+  confidence: 'low',
+  apply: (tokens, _text, options) => {
+    const sig = tokens.filter(isSignificant);
+    const [only] = sig;
+    return sig.length === 1 && only?.type === 'identifier'
+      ? [replace(only, quoteString(only.raw, options))]
+      : [];
+  },
+};
+
+const emptyInput: FixRule = {
+  name: 'empty-input',
+  description: 'Replaced empty input with null',
+  type: 'other',
+  confidence: 'low',
+  // After any comments that were kept
+  apply: (tokens, text) => {
+    if (tokens.some(isSignificant)) {
+      return [];
+    }
+    const afterComment = tokens[tokens.length - 1]?.type === 'lineComment';
+    return [insert(text.length, afterComment ? '\nnull' : 'null')];
+  },
+};
+
+const whitespace: FixRule = {
+  name: 'whitespace',
+  description: 'Normalized whitespace',
+  type: 'whitespace',
+  confidence: 'high',
+  // 'normalize' trims the text, ends lines with \n and drops spaces at line
+  // ends; 'minify' keeps only the whitespace that separates tokens
+  apply: (tokens, _text, options) => {
+    if (options.whitespace === 'preserve') {
+      return [];
+    }
+    const minify = options.whitespace === 'minify';
+    return tokens.flatMap((token, i) => {
+      if (token.type !== 'whitespace') {
+        return [];
+      }
+      const content = minify ? minified(tokens, i) : normalized(tokens, i);
+      if (content === token.raw) {
+        return [];
+      }
+      return [
+        { ...replace(token, content), ...(minify && { description: 'Minified whitespace' }) },
+      ];
+    });
+  },
+};
+
+/**
+ * Every repair, in the order JSONMan.fix makes them. Later rules see the
+ * text earlier ones produced, so keys are quoted before commas are placed
+ * and strings are closed before brackets are balanced. Each rule follows
+ * the FixOptions setting that concerns it.
+ */
+export const BUILTIN_FIX_RULES: readonly FixRule[] = [
+  bom,
+  comments,
+  missingBraces,
+  literals,
+  numbers,
+  duplicateDelimiters,
+  quotes,
+  unescapedQuotes,
+  escapes,
+  unquotedKeys,
+  missingCommas,
+  doubleCommas,
+  danglingArtifacts,
+  unterminatedStrings,
+  brackets,
+  trailingCommas,
+  multipleRoots,
+  stringifiedJSON,
+  bareWord,
+  emptyInput,
+  whitespace,
+];
+
+function replace(token: FixToken, content: string): FixEdit {
+  return { offset: token.start, length: token.end - token.start, content };
+}
+
+function remove(token: FixToken): FixEdit {
+  return replace(token, '');
+}
+
+function insert(offset: number, content: string): FixEdit {
+  return { offset, length: 0, content };
+}
+
+function isQuoted(token: FixToken): boolean {
+  return token.type === 'string' && !!token.terminated;
+}
+
+/**
+ * A string written with the quotes `options.quotes` asks for; double
+ * unless that is 'single'
+ */
+function quoteString(value: string, options: FixOptions): string {
+  const json = JSON.stringify(value);
+  return options.quotes === 'single' ? requote({ raw: json, terminated: true }, "'") : json;
+}
+
+/**
+ * A string rewritten with other quotes: the new quote is escaped inside it
+ * and the old one no longer is. Nothing else in it changes.
+ */
+function requote({ raw, terminated }: Pick<FixToken, 'raw' | 'terminated'>, to: string): string {
+  const from = raw[0];
+  const body = raw.slice(1, terminated ? -1 : undefined);
+  let content = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]!;
+    if (char === '\\' && i + 1 < body.length) {
+      const next = body[++i]!;
+      content += next === from ? next : char + next;
+    } else {
+      content += char === to ? `\\${to}` : char;
+    }
+  }
+  return to + content + (terminated ? to : '');
+}
+
+function minified(tokens: FixToken[], i: number): string {
+  const previous = tokens[i - 1];
+  const next = tokens[i + 1];
+  if (!previous || !next) {
+    return '';
+  }
+  if (previous.type === 'lineComment') {
+    return '\n';
+  }
+  return WORDS.has(previous.type) && WORDS.has(next.type) ? ' ' : '';
+}
+
+function normalized(tokens: FixToken[], i: number): string {
+  if (i === 0 || i === tokens.length - 1) {
+    return '';
+  }
+  return tokens[i]!.raw.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n');
+}
+
+function isDangling(token: FixToken): boolean {
+  return (
+    token.container === 'root' &&
+    (token.type === 'colon' ||
+      token.type === 'comma' ||
+      token.type === 'junk' ||
+      (token.type === 'string' && token.raw.length === 1))
+  );
+}
+
+// Index of the closer matching the opener at `open`, or -1 when it is never closed
+function matchingCloser(sig: FixToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < sig.length; i++) {
+    const type = sig[i]!.type;
+    if (type === 'beginObject' || type === 'beginArray') {
+      depth++;
+    } else if ((type === 'endObject' || type === 'endArray') && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function closers(open: FixToken[]): string {
+  return open
+    .map(container => (container.type === 'beginObject' ? '}' : ']'))
+    .reverse()
+    .join('');
+}
+
+/**
+ * Hex, signed and lenient decimal numbers written as JSON; Infinity and NaN
+ * have no JSON form and become null
+ */
+function toJSONNumber(raw: string): string | undefined {
+  const sign = raw[0] === '-' ? '-' : '';
+  const body = raw[0] === '-' || raw[0] === '+' ? raw.slice(1) : raw;
+  if (/^0[xX][0-9a-fA-F]+$/.test(body)) {
+    return sign + BigInt(body).toString();
+  }
+  if (body === 'Infinity' || body === 'NaN') {
+    return 'null';
+  }
+  const match = /^(\d*)\.?(\d*)([eE][+-]?\d+)?$/.exec(body);
+  if (!match) {
+    return undefined;
+  }
+  const [, integer = '', fraction = '', exponent = ''] = match;
+  const json = `${sign}${integer || '0'}${fraction && `.${fraction}`}${exponent}`;
+  return JSON_NUMBER.test(json) && (integer || fraction) ? json : undefined;
+}
+
+function escapeQuotes(text: string, quote: string): string {
+  let escaped = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '\\' && i + 1 < text.length) {
+      escaped += char + text[++i];
+    } else {
+      escaped += char === quote ? `\\${quote}` : char;
+    }
+  }
+  return escaped;
+}
+
+/**
+ * Rewrite escapes JSON does not have and control characters written raw,
+ * one edit each; the rest of the string is left as written, so `é`
+ * stays an escape
+ */
+function escapeEdits(token: FixToken): FixEdit[] {
+  const { raw } = token;
+  const end = token.terminated ? raw.length - 1 : raw.length;
+  const edits: FixEdit[] = [];
+
+  for (let i = 1; i < end; i++) {
+    const char = raw[i]!;
+    if (char === '\\') {
+      const { length, content } = readEscape(raw.slice(i, end), raw[0]!);
+      if (content !== undefined) {
+        edits.push({ offset: token.start + i, length, content });
+      }
+      i += length - 1;
+    } else if (char < ' ') {
+      edits.push({
+        offset: token.start + i,
+        length: 1,
+        content: CONTROL_ESCAPES[char] ?? unicodeEscape(char),
+      });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Length of the escape at the start of `text` and, when JSON does not
+ * accept it, what to write instead. JavaScript escapes keep their meaning:
+ * `\x41` becomes `\u0041` and `\'` becomes `'` in a double-quoted string.
+ */
+function readEscape(text: string, quote: string): { length: number; content?: string } {
+  const char = text[1];
+  if (char === undefined) {
+    return { length: 1, content: '\\\\' };
+  }
+  if (char === quote || '"\\/bfnrt'.includes(char)) {
+    return { length: 2 };
+  }
+  if (char === 'u') {
+    return /^[0-9a-fA-F]{4}$/.test(text.slice(2, 6))
+      ? { length: 6 }
+      : { length: 1, content: '\\\\' };
+  }
+  if (char === 'x' && /^[0-9a-fA-F]{2}$/.test(text.slice(2, 4))) {
+    return { length: 4, content: `\\u00${text.slice(2, 4)}` };
+  }
+  if (char === '\r' && text[2] === '\n') {
+    return { length: 3, content: '' };
+  }
+  if (char === '\n' || char === '\r' || char === '\u2028' || char === '\u2029') {
+    return { length: 2, content: '' };
+  }
+  if (char === 'v') {
+    return { length: 2, content: '\\u000b' };
+  }
+  if (char === '0' && !/\d/.test(text[2] ?? '')) {
+    return { length: 2, content: '\\u0000' };
+  }
+  return { length: 2, content: char };
+}
+
+function unicodeEscape(char: string): string {
+  return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+}
+
+/**
+ * Replace strings holding escaped JSON objects or arrays with the JSON
+ * itself, including strings of that kind nested inside
+ */
+function unwrapEdits(tokens: FixToken[], depth: number): FixEdit[] {
+  if (depth >= MAX_UNWRAP_DEPTH) {
+    return [];
+  }
+  return tokens.flatMap(token => {
+    if (!isQuoted(token) || isKey(token) || typeof token.value !== 'string') {
+      return [];
+    }
+    const json = token.value.trim();
+    if (!/^[[{]/.test(json) || !json.includes('"') || !isValidJSON(json)) {
+      return [];
+    }
+    return [replace(token, applyEdits(json, unwrapEdits(lex(json), depth + 1)))];
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * Lossless concrete syntax tree for JSON, JSONC and JSON5 documents
+ */
+
+import {
+  CSTElement,
+  CSTNode,
+  CSTNodeType,
+  CSTToken,
+  CSTTrivia,
+  ParseOptions,
+  SourcePosition,
+  SyntaxOptions,
+  Token,
+  TokenType,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { Tokenizer, describeToken, isIdentifierName } from './Tokenizer';
+import { ParseLimits } from './ParseLimits';
+import { resolveSyntax } from './DescentParser';
+
+const SCALAR_TYPES: Partial<Record<TokenType, CSTNodeType>> = {
+  string: 'string',
+  number: 'number',
+  true: 'boolean',
+  false: 'boolean',
+  null: 'null',
+};
+
+/**
+ * Builds a concrete syntax tree that keeps every character of the input.
+ * Whitespace and comments become trivia children of the node whose token
+ * follows them; trivia after the root value belongs to the document node.
+ * The grammar and error messages are the same as the DescentParser's.
+ */
+export class CSTParser {
+  private readonly tokenizer: Tokenizer;
+  private readonly syntax: SyntaxOptions;
+  private current!: Token;
+  // Trivia between the previous token and the current one
+  private trivia: CSTTrivia[] = [];
+
+  constructor(
+    private readonly input: string,
+    private readonly options: { syntax?: SyntaxOptions; limits?: ParseLimits } = {}
+  ) {
+    this.syntax = options.syntax ?? {};
+    this.tokenizer = new Tokenizer(input, this.syntax);
+    this.advance();
+  }
+
+  /**
+   * Parse a complete document, throwing a JSONParseError on invalid input
+   */
+  parse(): CSTNode {
+    const children: CSTElement[] = this.takeTrivia();
+    children.push(this.parseValue());
+
+    if (!this.at('eof')) {
+      throw this.unexpected(['end of input']);
+    }
+    children.push(...this.takeTrivia());
+
+    return node('document', { line: 1, column: 1, index: 0 }, this.current.end, children);
+  }
+
+  private parseValue(): CSTNode {
+    const token = this.current;
+    this.options.limits?.node(token.start);
+
+    switch (token.type) {
+      case 'beginObject':
+        return this.parseObject();
+      case 'beginArray':
+        return this.parseArray();
+    }
+
+    const type = SCALAR_TYPES[token.type];
+    if (!type) {
+      throw this.unexpected(['value']);
+    }
+    return { ...node(type, token.start, token.end, [this.token()]), value: token.value! };
+  }
+
+  private parseObject(): CSTNode {
+    this.options.limits?.enter(this.current.start);
+    const children: CSTElement[] = [this.token()]; // {
+    children.push(...this.takeTrivia());
+
+    if (this.at('endObject')) {
+      return this.close('object', children);
+    }
+
+    for (;;) {
+      children.push(this.parseProperty());
+      children.push(...this.takeTrivia());
+
+      if (this.at('comma')) {
+        children.push(this.token());
+        children.push(...this.takeTrivia());
+        if (this.at('endObject') && !this.syntax.allowTrailingCommas) {
+          throw this.unexpected(['string key'], ['Remove trailing commas before closing braces']);
+        }
+        if (this.at('endObject')) {
+          return this.close('object', children);
+        }
+        continue;
+      }
+
+      if (this.at('endObject')) {
+        return this.close('object', children);
+      }
+
+      throw this.unexpected(["','", "'}'"]);
+    }
+  }
+
+  private parseProperty(): CSTNode {
+    const keyToken = this.current;
+    let key: string;
+
+    if (keyToken.type === 'string') {
+      key = keyToken.value as string;
+    } else if (this.syntax.allowUnquotedKeys && isIdentifierName(keyToken.raw)) {
+      key = keyToken.raw;
+    } else {
+      throw this.unexpected(['string key']);
+    }
+
+    const children: CSTElement[] = [this.token()];
+    children.push(...this.takeTrivia());
+
+    if (!this.at('colon')) {
+      throw this.unexpected(["':'"]);
+    }
+    children.push(this.token());
+    children.push(...this.takeTrivia());
+
+    const value = this.parseValue();
+    children.push(value);
+
+    return { ...node('property', keyToken.start, value.end, children), key };
+  }
+
+  private parseArray(): CSTNode {
+    this.options.limits?.enter(this.current.start);
+    const children: CSTElement[] = [this.token()]; // [
+    children.push(...this.takeTrivia());
+
+    if (this.at('endArray')) {
+      return this.close('array', children);
+    }
+
+    for (;;) {
+      children.push(this.parseValue());
+      children.push(...this.takeTrivia());
+
+      if (this.at('comma')) {
+        children.push(this.token());
+        children.push(...this.takeTrivia());
+        if (this.at('endArray') && !this.syntax.allowTrailingCommas) {
+          throw this.unexpected(['value'], ['Remove trailing commas before closing brackets']);
+        }
+        if (this.at('endArray')) {
+          return this.close('array', children);
+        }
+        continue;
+      }
+
+      if (this.at('endArray')) {
+        return this.close('array', children);
+      }
+
+      throw this.unexpected(["','", "']'"]);
+    }
+  }
+
+  private close(type: 'object' | 'array', children: CSTElement[]): CSTNode {
+    this.options.limits?.leave();
+    const closing = this.token(); // } or ]
+    children.push(closing);
+    return node(type, (children[0] as CSTToken).start, closing.end, children);
+  }
+
+  private at(type: TokenType): boolean {
+    return this.current.type === type;
+  }
+
+  /**
+   * Consume the current token as a CST leaf
+   */
+  private token(): CSTToken {
+    const { type, raw, start, end } = this.current;
+    this.advance();
+    return { kind: 'token', type, text: raw, start, end };
+  }
+
+  private takeTrivia(): CSTElement[] {
+    const trivia = this.trivia;
+    this.trivia = [];
+    return trivia;
+  }
+
+  private advance(): void {
+    const { trivia, token } = this.tokenizer.nextWithTrivia();
+    this.trivia = trivia.map(({ type, raw, start, end }) => ({
+      kind: 'trivia',
+      type,
+      text: raw,
+      start,
+      end,
+    }));
+    this.current = token;
+  }
+
+  private unexpected(expected: string[], suggestions?: string[]): JSONParseError {
+    const token = this.current;
+    const message =
+      token.type === 'eof'
+        ? `Unexpected end of input, expected ${expected.join(' or ')}`
+        : `Unexpected token ${describeToken(token)}, expected ${expected.join(' or ')}`;
+
+    return JSONParseError.atPosition(message, this.input, token.start, {
+      expected,
+      ...(suggestions && { suggestions }),
+    });
+  }
+}
+
+/**
+ * Parse a document into a concrete syntax tree. The grammar follows the
+ * same `mode` and allow* options as Parser.safe, and the size, depth and
+ * node limits apply.
+ */
+export function parseCST(
+  input: string,
+  options: ParseOptions = {}
+): { tree: CSTNode; warnings: string[] } {
+  const limits = new ParseLimits(input, options);
+  limits.checkSize();
+  const tree = new CSTParser(input, { syntax: resolveSyntax(options), limits }).parse();
+  return { tree, warnings: limits.warnings };
+}
+
+/**
+ * Print a node, token or trivia back to source text. Printing the document
+ * node of an unmodified tree reproduces the original input exactly.
+ */
+export function printCST(element: CSTElement): string {
+  if (element.kind !== 'node') {
+    return element.text;
+  }
+  let text = '';
+  for (const child of element.children) {
+    text += printCST(child);
+  }
+  return text;
+}
+
+function node(
+  type: CSTNodeType,
+  start: SourcePosition,
+  end: SourcePosition,
+  children: CSTElement[]
+): CSTNode {
+  return { kind: 'node', type, start, end, children };
+}
+
+export default CSTParser;
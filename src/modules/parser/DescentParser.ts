@@ -0,0 +1,530 @@
+/**
+ * Recursive-descent JSON parser built on the Tokenizer
+ */
+
+import {
+  DuplicateKey,
+  DuplicateKeyPolicy,
+  ERROR_CODES,
+  LosslessJSONArray,
+  LosslessJSONObject,
+  LosslessJSONValue,
+  NumberMode,
+  ParseOptions,
+  SourceLocation,
+  SourcePosition,
+  SyntaxOptions,
+  Token,
+  TokenType,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { JSONDecimal } from '../../core/JSONDecimal';
+import { PARSE_MODES, UNSAFE_KEYS } from '../../utils/constants';
+import { formatJSONPath, formatJSONPointer, losesPrecision } from '../../utils/helpers';
+import { JSON_NUMBER, Tokenizer, describeToken, isIdentifierName } from './Tokenizer';
+import { ParseLimits } from './ParseLimits';
+
+const SYNTAX_FLAGS = Object.keys(PARSE_MODES.json) as Array<keyof SyntaxOptions>;
+
+export interface DescentParserOptions {
+  syntax?: SyntaxOptions;
+  limits?: ParseLimits;
+  /** What to do with __proto__, constructor and prototype keys */
+  unsafeKeys?: 'strip' | 'error';
+  /** What to do with a key repeated in the same object */
+  duplicateKeys?: DuplicateKeyPolicy;
+  /** How to read numbers that do not fit a JavaScript number exactly */
+  numbers?: NumberMode;
+  /**
+   * Filled with where each value of the result sits, keyed by JSON Pointer.
+   * Values that are dropped or replaced leave no entry.
+   */
+  locations?: Record<string, SourceLocation>;
+}
+
+/**
+ * Parses JSON text token by token. Every syntax error is raised as a
+ * JSONParseError carrying the exact line, column and index of the offending
+ * token together with the tokens that would have been accepted there.
+ */
+export class DescentParser {
+  readonly warnings: string[] = [];
+  readonly duplicates: DuplicateKey[] = [];
+
+  private readonly tokenizer: Tokenizer;
+  private readonly syntax: SyntaxOptions;
+  private readonly path: Array<string | number> = [];
+  private current: Token;
+  // End of the last token read
+  private end: SourcePosition;
+  // Depth of values being parsed only to be dropped, which are not located
+  private discarding = 0;
+
+  constructor(
+    private readonly input: string,
+    private readonly options: DescentParserOptions = {}
+  ) {
+    this.syntax = options.syntax ?? {};
+    this.tokenizer = new Tokenizer(input, this.syntax);
+    this.current = this.tokenizer.next();
+    this.end = this.current.start;
+  }
+
+  /**
+   * Parse a complete JSON document. BigInt and JSONDecimal values only
+   * appear with the lossless `numbers` modes.
+   */
+  static parse(input: string, options?: DescentParserOptions): LosslessJSONValue {
+    return new DescentParser(input, options).parse();
+  }
+
+  /**
+   * Parse a complete JSON document, throwing on trailing content
+   */
+  parse(): LosslessJSONValue {
+    const value = this.parseValue();
+    if (!this.at('eof')) {
+      throw this.unexpected(['end of input']);
+    }
+    return value;
+  }
+
+  private parseValue(key?: Token): LosslessJSONValue {
+    const locations = this.discarding === 0 ? this.options.locations : undefined;
+    if (!locations) {
+      return this.readValue();
+    }
+
+    const location: SourceLocation = {
+      start: this.current.start,
+      end: this.current.start,
+      ...(key && { keyStart: key.start, keyEnd: key.end }),
+    };
+    locations[formatJSONPointer(this.path)] = location;
+    const value = this.readValue();
+    location.end = this.end;
+    return value;
+  }
+
+  private readValue(): LosslessJSONValue {
+    const token = this.current;
+    this.options.limits?.node(token.start);
+
+    switch (token.type) {
+      case 'beginObject':
+        return this.parseObject();
+      case 'beginArray':
+        return this.parseArray();
+      case 'number':
+        this.advance();
+        return this.numberValue(token);
+      case 'string':
+      case 'true':
+      case 'false':
+      case 'null':
+        this.advance();
+        return token.value!;
+      default:
+        throw this.unexpected(['value']);
+    }
+  }
+
+  private parseObject(): LosslessJSONObject {
+    const object: LosslessJSONObject = {};
+    // First position of each key and the keys collected into arrays so far
+    const seen = this.options.duplicateKeys ? new Map<string, SourcePosition>() : undefined;
+    const collected = new Set<string>();
+    this.options.limits?.enter(this.current.start);
+    this.advance(); // {
+
+    if (this.at('endObject')) {
+      return this.close(object);
+    }
+
+    for (;;) {
+      const keyToken = this.current;
+      const key = this.parseKey();
+      this.expect('colon');
+
+      const first = seen?.get(key);
+      const unsafe = this.options.unsafeKeys !== undefined && UNSAFE_KEYS.includes(key);
+
+      this.path.push(key);
+      const value = this.options.locations
+        ? this.parseLocatedMember(
+            object,
+            key,
+            keyToken,
+            collected,
+            unsafe || (first !== undefined && this.options.duplicateKeys === 'first')
+          )
+        : this.parseValue();
+      this.path.pop();
+
+      if (unsafe) {
+        this.blockUnsafeKey(key, keyToken);
+      } else if (first) {
+        this.reportDuplicate(key, first, keyToken);
+        this.applyDuplicate(object, key, value, collected);
+      } else {
+        seen?.set(key, keyToken.start);
+        setProperty(object, key, value);
+      }
+
+      if (this.at('comma')) {
+        this.advance();
+        if (this.at('endObject') && !this.syntax.allowTrailingCommas) {
+          throw this.unexpected(['string key'], ['Remove trailing commas before closing braces']);
+        }
+        if (this.at('endObject')) {
+          return this.close(object);
+        }
+        continue;
+      }
+
+      if (this.at('endObject')) {
+        return this.close(object);
+      }
+
+      throw this.unexpected(["','", "'}'"]);
+    }
+  }
+
+  private parseArray(): LosslessJSONArray {
+    const array: LosslessJSONArray = [];
+    this.options.limits?.enter(this.current.start);
+    this.advance(); // [
+
+    if (this.at('endArray')) {
+      return this.close(array);
+    }
+
+    for (;;) {
+      this.path.push(array.length);
+      array.push(this.parseValue());
+      this.path.pop();
+
+      if (this.at('comma')) {
+        this.advance();
+        if (this.at('endArray') && !this.syntax.allowTrailingCommas) {
+          throw this.unexpected(['value'], ['Remove trailing commas before closing brackets']);
+        }
+        if (this.at('endArray')) {
+          return this.close(array);
+        }
+        continue;
+      }
+
+      if (this.at('endArray')) {
+        return this.close(array);
+      }
+
+      throw this.unexpected(["','", "']'"]);
+    }
+  }
+
+  private numberValue(token: Token): LosslessJSONValue {
+    const mode = this.options.numbers ?? 'number';
+    const value = token.value as number;
+
+    // Number modes only apply to the plain JSON grammar, not hex or Infinity
+    if (!JSON_NUMBER.test(token.raw)) {
+      return value;
+    }
+
+    // The wrapper also keeps formatting such as 1.50 or 1e3 that would not survive
+    if (mode === 'decimal-wrapper') {
+      return String(value) === token.raw ? value : new JSONDecimal(token.raw);
+    }
+
+    if (!losesPrecision(token.raw)) {
+      return value;
+    }
+    if (mode === 'string') {
+      return token.raw;
+    }
+    if (mode === 'bigint' && /^-?\d+$/.test(token.raw)) {
+      return BigInt(token.raw);
+    }
+
+    const { line, column } = token.start;
+    this.warnings.push(
+      `Number ${token.raw} at ${formatJSONPath(this.path)} (line ${line}, column ${column}) cannot be represented exactly and was read as ${value}`
+    );
+    return value;
+  }
+
+  private parseKey(): string {
+    const token = this.current;
+
+    if (token.type === 'string') {
+      this.advance();
+      return token.value as string;
+    }
+
+    // Unquoted keys may be any identifier name, including true, null or Infinity
+    if (this.syntax.allowUnquotedKeys && isIdentifierName(token.raw)) {
+      this.advance();
+      return token.raw;
+    }
+
+    throw this.unexpected(['string key']);
+  }
+
+  private blockUnsafeKey(key: string, token: Token): void {
+    const path = formatJSONPath([...this.path, key]);
+    const { line, column } = token.start;
+
+    if (this.options.unsafeKeys === 'error') {
+      throw JSONParseError.atPosition(`Unsafe key "${key}" at ${path}`, this.input, token.start, {
+        code: ERROR_CODES.UNSAFE_KEY,
+        suggestions: ["Use secure: 'strip' to drop unsafe keys instead of rejecting the input"],
+      });
+    }
+
+    this.warnings.push(`Removed unsafe key "${key}" at ${path} (line ${line}, column ${column})`);
+  }
+
+  private reportDuplicate(key: string, first: SourcePosition, token: Token): void {
+    const path = formatJSONPath([...this.path, key]);
+    const { line, column } = token.start;
+    const firstAt = `line ${first.line}, column ${first.column}`;
+
+    if (this.options.duplicateKeys === 'error') {
+      throw JSONParseError.atPosition(
+        `Duplicate key "${key}" at ${path}, first defined at ${firstAt}`,
+        this.input,
+        token.start,
+        {
+          code: ERROR_CODES.DUPLICATE_KEY,
+          suggestions: [
+            'Remove or rename one of the duplicate keys',
+            "Use duplicateKeys: 'first', 'last' or 'collect' to accept duplicates",
+          ],
+        }
+      );
+    }
+
+    this.duplicates.push({ key, path, first, duplicate: token.start });
+    if (this.options.duplicateKeys === 'warn') {
+      this.warnings.push(
+        `Duplicate key "${key}" at ${path} (line ${line}, column ${column}), first defined at ${firstAt}`
+      );
+    }
+  }
+
+  private applyDuplicate(
+    object: LosslessJSONObject,
+    key: string,
+    value: LosslessJSONValue,
+    collected: Set<string>
+  ): void {
+    switch (this.options.duplicateKeys) {
+      case 'first':
+        return;
+      case 'collect':
+        if (collected.has(key)) {
+          (object[key] as LosslessJSONArray).push(value);
+        } else {
+          collected.add(key);
+          setProperty(object, key, [object[key]!, value]);
+        }
+        return;
+      default:
+        setProperty(object, key, value);
+    }
+  }
+
+  /**
+   * Parse the value of an object member, keeping `locations` in step with
+   * what the object will hold: dropped values are not located, a replaced
+   * value's entries are removed and collected values are located by index
+   */
+  private parseLocatedMember(
+    object: LosslessJSONObject,
+    key: string,
+    keyToken: Token,
+    collected: Set<string>,
+    dropped: boolean
+  ): LosslessJSONValue {
+    const locations = this.options.locations!;
+    const pointer = formatJSONPointer(this.path);
+
+    if (dropped) {
+      this.discarding++;
+      const value = this.parseValue();
+      this.discarding--;
+      return value;
+    }
+    if (!Object.prototype.hasOwnProperty.call(object, key)) {
+      return this.parseValue(keyToken);
+    }
+    if (this.options.duplicateKeys !== 'collect') {
+      moveLocations(locations, pointer);
+      return this.parseValue(keyToken);
+    }
+
+    // The first value moves to index 0; the member itself stays where it was first defined
+    if (!collected.has(key)) {
+      moveLocations(locations, pointer, `${pointer}/0`);
+      locations[`${pointer}/0`] = { ...locations[pointer]! };
+    }
+    this.path.push(collected.has(key) ? (object[key] as LosslessJSONArray).length : 1);
+    const value = this.parseValue(keyToken);
+    this.path.pop();
+    return value;
+  }
+
+  private close<T extends LosslessJSONObject | LosslessJSONArray>(container: T): T {
+    this.options.limits?.leave();
+    this.advance(); // } or ]
+    return container;
+  }
+
+  private at(type: TokenType): boolean {
+    return this.current.type === type;
+  }
+
+  private advance(): void {
+    this.end = this.current.end;
+    this.current = this.tokenizer.next();
+  }
+
+  private expect(type: TokenType): void {
+    if (this.current.type !== type) {
+      throw this.unexpected([type === 'colon' ? "':'" : type]);
+    }
+    this.advance();
+  }
+
+  private unexpected(expected: string[], suggestions?: string[]): JSONParseError {
+    const token = this.current;
+    const message =
+      token.type === 'eof'
+        ? `Unexpected end of input, expected ${expected.join(' or ')}`
+        : `Unexpected token ${describeToken(token)}, expected ${expected.join(' or ')}`;
+
+    return JSONParseError.atPosition(message, this.input, token.start, {
+      expected,
+      ...(suggestions && { suggestions }),
+    });
+  }
+}
+
+/**
+ * Move the locations below `pointer` to the same paths below `target`, or
+ * remove them when there is no target
+ */
+function moveLocations(
+  locations: Record<string, SourceLocation>,
+  pointer: string,
+  target?: string
+): void {
+  const prefix = `${pointer}/`;
+  for (const [path, location] of Object.entries(locations)) {
+    if (path.startsWith(prefix)) {
+      delete locations[path];
+      if (target !== undefined) {
+        locations[target + path.slice(pointer.length)] = location;
+      }
+    }
+  }
+}
+
+/**
+ * Assign an own property the way JSON.parse does, so that a `__proto__` key
+ * becomes a plain property instead of replacing the object's prototype
+ */
+export function setProperty<T>(object: { [key: string]: T }, key: string, value: T): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  } else {
+    object[key] = value;
+  }
+}
+
+/**
+ * Resolve the grammar flags for a set of parse options. `strict: true` turns
+ * every extension off; otherwise the `mode` preset applies and explicit
+ * allow* flags override it.
+ */
+export function resolveSyntax(options: ParseOptions = {}): SyntaxOptions {
+  const syntax: SyntaxOptions = { ...PARSE_MODES[options.mode ?? 'json'] };
+
+  if (options.strict === true) {
+    return { ...PARSE_MODES.json };
+  }
+
+  for (const flag of SYNTAX_FLAGS) {
+    const value = options[flag];
+    if (value !== undefined) {
+      syntax[flag] = value;
+    }
+  }
+
+  return syntax;
+}
+
+/**
+ * Whether any grammar extension is enabled
+ */
+export function isLenient(syntax: SyntaxOptions): boolean {
+  return SYNTAX_FLAGS.some(flag => syntax[flag]);
+}
+
+/**
+ * Re-run invalid input through the descent parser to get an exact error
+ */
+export function explainSyntaxError(input: string, cause: SyntaxError): JSONParseError {
+  try {
+    DescentParser.parse(input);
+  } catch (error) {
+    if (error instanceof JSONParseError) {
+      return new JSONParseError(error.message, {
+        ...(error.position && { position: error.position }),
+        ...(error.context && { context: error.context }),
+        ...(error.expected && { expected: error.expected }),
+        ...(error.suggestions && { suggestions: error.suggestions }),
+        code: error.code,
+        cause,
+      });
+    }
+  }
+  return JSONParseError.fromNativeError(cause, input);
+}
+
+/**
+ * Apply a reviver the way JSON.parse does: children before their parents,
+ * with `this` bound to the holder and `undefined` results deleting the member
+ */
+export function applyReviver(
+  data: LosslessJSONValue,
+  reviver: (key: string, value: LosslessJSONValue) => LosslessJSONValue
+): LosslessJSONValue {
+  const walk = (holder: LosslessJSONObject, key: string): LosslessJSONValue | undefined => {
+    const value = holder[key]!;
+
+    if (value !== null && typeof value === 'object' && !(value instanceof JSONDecimal)) {
+      const record = value as LosslessJSONObject;
+      for (const childKey of Object.keys(record)) {
+        const revived = walk(record, childKey);
+        if (revived === undefined) {
+          delete record[childKey];
+        } else {
+          record[childKey] = revived;
+        }
+      }
+    }
+
+    return reviver.call(holder, key, value);
+  };
+
+  return walk({ '': data }, '') as LosslessJSONValue;
+}
+
+export default DescentParser;
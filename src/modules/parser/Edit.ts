@@ -0,0 +1,482 @@
+/**
+ * Format-preserving edits to JSON and JSONC documents
+ */
+
+import {
+  CSTElement,
+  CSTNode,
+  CSTToken,
+  EditOptions,
+  EditPath,
+  JSONValue,
+  TextEdit,
+} from '../../core/types';
+import { JSONTransformError } from '../../core/errors';
+import { formatJSON, formatJSONPath, minifyJSON } from '../../utils/helpers';
+import { parseCST } from './CST';
+
+/**
+ * Parsed source plus the layout used for new text
+ */
+class EditContext {
+  readonly root: CSTNode;
+  readonly indent: string;
+  readonly newline: string;
+
+  constructor(
+    readonly source: string,
+    options: EditOptions
+  ) {
+    const { indent, newline, ...parseOptions } = options;
+    const document = parseCST(source, { mode: 'jsonc', ...parseOptions }).tree;
+    this.root = nodesOf(document)[0]!;
+    this.indent =
+      typeof indent === 'number' ? ' '.repeat(indent) : (indent ?? detectIndent(source));
+    this.newline = newline ?? (source.includes('\r\n') ? '\r\n' : '\n');
+  }
+
+  /**
+   * Leading whitespace of the line containing an offset
+   */
+  indentationAt(offset: number): string {
+    const start = this.lineStart(offset);
+    return /^[ \t]*/.exec(this.source.slice(start, offset))![0];
+  }
+
+  lineStart(offset: number): number {
+    return this.source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  /**
+   * Whether only whitespace precedes an offset on its line
+   */
+  startsLine(offset: number): boolean {
+    return this.source.slice(this.lineStart(offset), offset).trim() === '';
+  }
+
+  /**
+   * End of the line containing an offset, before its line break
+   */
+  lineEnd(offset: number): number {
+    const newline = this.source.indexOf('\n', offset);
+    if (newline === -1) {
+      return this.source.length;
+    }
+    return this.source[newline - 1] === '\r' ? newline - 1 : newline;
+  }
+
+  /**
+   * Whether the rest of the line after an offset is blank or a line comment
+   */
+  endsLine(offset: number): boolean {
+    return /^[ \t]*(\/\/.*)?$/.test(this.source.slice(offset, this.lineEnd(offset)));
+  }
+
+  /**
+   * Serialize a value whose first line starts at an offset, indenting the
+   * following lines to match
+   */
+  format(value: JSONValue, offset: number, multiline: boolean): string {
+    if (!multiline) {
+      return minifyJSON(value);
+    }
+    const base = this.indentationAt(offset);
+    return formatJSON(value, this.indent)
+      .split('\n')
+      .join(this.newline + base);
+  }
+}
+
+/**
+ * Set the value at a path, adding the member and any missing parent objects
+ * when it does not exist yet. Array paths may append at index `length`.
+ */
+export function editJSON(
+  source: string,
+  path: EditPath,
+  value: JSONValue,
+  options: EditOptions = {}
+): TextEdit[] {
+  const segments = toSegments(path);
+
+  if (source.trim() === '') {
+    return [{ offset: 0, length: source.length, content: formatJSON(wrap(segments, value)) }];
+  }
+
+  const context = new EditContext(source, options);
+  const { node, depth } = walk(context.root, segments);
+
+  if (depth === segments.length) {
+    const content = context.format(value, node.start.index, source.includes('\n'));
+    const length = node.end.index - node.start.index;
+    return source.slice(node.start.index, node.end.index) === content
+      ? []
+      : [{ offset: node.start.index, length, content }];
+  }
+
+  const segment = segments[depth]!;
+  const newValue = wrap(segments.slice(depth + 1), value);
+
+  if (node.type === 'object') {
+    return appendMember(context, node, String(segment), newValue);
+  }
+  if (node.type === 'array') {
+    const index = toIndex(segment);
+    if (index !== nodesOf(node).length) {
+      throw invalidPath(
+        'edit',
+        segments,
+        `index ${String(segment)} is past the end of the array at ${formatJSONPath(segments.slice(0, depth))}`
+      );
+    }
+    return appendMember(context, node, undefined, newValue);
+  }
+  throw invalidPath(
+    'edit',
+    segments,
+    `${formatJSONPath(segments.slice(0, depth))} is not an object or array`
+  );
+}
+
+/**
+ * Remove the member or element at a path together with its comma. Returns
+ * no edits when the path does not exist.
+ */
+export function removeJSON(source: string, path: EditPath, options: EditOptions = {}): TextEdit[] {
+  const segments = toSegments(path);
+  if (segments.length === 0) {
+    throw invalidPath('remove', segments, 'the root value cannot be removed');
+  }
+
+  const context = new EditContext(source, options);
+  const { node: parent, depth } = walk(context.root, segments.slice(0, -1));
+  if (depth < segments.length - 1) {
+    return [];
+  }
+
+  const member = findMember(parent, segments[segments.length - 1]!);
+  return member ? removeMember(context, parent, member) : [];
+}
+
+/**
+ * Insert a value into the array at a path, before the element at `index`.
+ * An index equal to the array's length appends.
+ */
+export function insertJSON(
+  source: string,
+  path: EditPath,
+  index: number,
+  value: JSONValue,
+  options: EditOptions = {}
+): TextEdit[] {
+  const segments = toSegments(path);
+  const context = new EditContext(source, options);
+  const { node, depth } = walk(context.root, segments);
+
+  if (depth < segments.length || node.type !== 'array') {
+    throw invalidPath('insert', segments, `${formatJSONPath(segments)} is not an array`);
+  }
+
+  const elements = nodesOf(node);
+  if (!Number.isInteger(index) || index < 0 || index > elements.length) {
+    throw invalidPath(
+      'insert',
+      segments,
+      `index ${index} is outside the array of length ${elements.length}`
+    );
+  }
+
+  if (index === elements.length) {
+    return appendMember(context, node, undefined, value);
+  }
+
+  const next = elements[index]!;
+  if (context.startsLine(next.start.index)) {
+    const indentation = context.indentationAt(next.start.index);
+    const content = context.format(value, next.start.index, true);
+    return [
+      {
+        offset: next.start.index,
+        length: 0,
+        content: `${content},${context.newline}${indentation}`,
+      },
+    ];
+  }
+  return [
+    {
+      offset: next.start.index,
+      length: 0,
+      content: `${minifyJSON(value)},${separatorSpace(context, node)}`,
+    },
+  ];
+}
+
+/**
+ * Apply edits returned by editJSON, removeJSON or insertJSON to the source
+ * they were computed from
+ */
+export function applyEdits(source: string, edits: TextEdit[]): string {
+  let text = source;
+  for (const edit of [...edits].sort((a, b) => b.offset - a.offset)) {
+    text = text.slice(0, edit.offset) + edit.content + text.slice(edit.offset + edit.length);
+  }
+  return text;
+}
+
+/**
+ * Add a member after the last one in an object (with a key) or array
+ */
+function appendMember(
+  context: EditContext,
+  container: CSTNode,
+  key: string | undefined,
+  value: JSONValue
+): TextEdit[] {
+  const { source, newline } = context;
+  const members = nodesOf(container);
+  const open = container.children[0] as CSTToken;
+  const close = container.children[container.children.length - 1] as CSTToken;
+  const text = (offset: number, multiline: boolean): string => {
+    const content = context.format(value, offset, multiline);
+    return key === undefined
+      ? content
+      : `${JSON.stringify(key)}:${colonSpace(container)}${content}`;
+  };
+
+  if (members.length === 0) {
+    const multiline = source.includes('\n');
+    const indentation = context.indentationAt(open.start.index);
+    const interior = source.slice(open.end.index, close.start.index);
+    const member = multiline
+      ? // Formatting is relative to the line the member will start on
+        newline +
+        indentation +
+        context.indent +
+        text(open.start.index, true)
+          .split(newline)
+          .join(newline + context.indent)
+      : text(open.start.index, false);
+
+    if (interior.trim() === '') {
+      return [
+        {
+          offset: open.end.index,
+          length: interior.length,
+          content: multiline ? member + newline + indentation : member,
+        },
+      ];
+    }
+    return [{ offset: open.end.index, length: 0, content: member }];
+  }
+
+  const last = members[members.length - 1]!;
+  const comma = adjacentComma(container, last, 1);
+  const anchor = comma ? comma.end.index : last.end.index;
+
+  if (!context.startsLine(members[0]!.start.index)) {
+    const space = separatorSpace(context, container);
+    const content = text(last.start.index, false);
+    return comma
+      ? [{ offset: anchor, length: 0, content: `${space}${content},` }]
+      : [{ offset: anchor, length: 0, content: `,${space}${content}` }];
+  }
+
+  // Go after a trailing line comment rather than splitting it from its member
+  const rest = source.slice(anchor, context.lineEnd(anchor));
+  const offset = rest.trim() === '' ? anchor : context.lineEnd(anchor);
+  const line = newline + context.indentationAt(last.start.index) + text(last.start.index, true);
+
+  if (comma) {
+    return [{ offset, length: 0, content: `${line},` }];
+  }
+  if (offset === anchor) {
+    return [{ offset, length: 0, content: `,${line}` }];
+  }
+  return [
+    { offset: anchor, length: 0, content: ',' },
+    { offset, length: 0, content: line },
+  ];
+}
+
+/**
+ * Remove a member with its comma. A member on lines of its own is removed
+ * with those lines, including a line comment after it.
+ */
+function removeMember(context: EditContext, container: CSTNode, member: CSTNode): TextEdit[] {
+  const { source } = context;
+  const members = nodesOf(container);
+  const before = adjacentComma(container, member, -1);
+  const after = adjacentComma(container, member, 1);
+  const end = after ? after.end.index : member.end.index;
+  const range = (start: number, stop: number): TextEdit => ({
+    offset: start,
+    length: stop - start,
+    content: '',
+  });
+
+  if (members.length === 1 && !container.children.some(isComment)) {
+    const open = container.children[0] as CSTToken;
+    const close = container.children[container.children.length - 1] as CSTToken;
+    return [range(open.end.index, close.start.index)];
+  }
+
+  if (context.startsLine(member.start.index) && context.endsLine(end)) {
+    const lineEnd = context.lineEnd(end);
+    const stop = source[lineEnd] === '\r' ? lineEnd + 2 : Math.min(lineEnd + 1, source.length);
+    const edits = [range(context.lineStart(member.start.index), stop)];
+    // The previous member must not be left with a trailing comma
+    if (!after && before) {
+      edits.unshift(range(before.start.index, before.end.index));
+    }
+    return edits;
+  }
+
+  if (after) {
+    const index = container.children.indexOf(after);
+    const next = container.children
+      .slice(index + 1)
+      .find(child => !(child.kind === 'trivia' && child.type === 'whitespace'));
+    return [range(member.start.index, next ? next.start.index : end)];
+  }
+  if (before) {
+    return [range(before.start.index, member.end.index)];
+  }
+  return [range(member.start.index, member.end.index)];
+}
+
+/**
+ * Follow a path as far as it exists, returning the deepest value node
+ * reached and how many segments led to it
+ */
+function walk(root: CSTNode, segments: Array<string | number>): { node: CSTNode; depth: number } {
+  let node = root;
+  for (let depth = 0; depth < segments.length; depth++) {
+    const member = findMember(node, segments[depth]!);
+    if (!member) {
+      return { node, depth };
+    }
+    node = member.type === 'property' ? valueOf(member) : member;
+  }
+  return { node, depth: segments.length };
+}
+
+/**
+ * The property node (objects) or element node (arrays) for a path segment.
+ * As with JSON.parse, the last of several equal keys is the one that counts.
+ */
+function findMember(container: CSTNode, segment: string | number): CSTNode | undefined {
+  const members = nodesOf(container);
+  if (container.type === 'object') {
+    const key = String(segment);
+    return members.filter(member => member.key === key).pop();
+  }
+  if (container.type === 'array') {
+    return members[toIndex(segment)];
+  }
+  return undefined;
+}
+
+/**
+ * The comma directly after (direction 1) or before (-1) a member, skipping trivia
+ */
+function adjacentComma(
+  container: CSTNode,
+  member: CSTNode,
+  direction: 1 | -1
+): CSTToken | undefined {
+  const { children } = container;
+  for (
+    let i = children.indexOf(member) + direction;
+    i >= 0 && i < children.length;
+    i += direction
+  ) {
+    const child = children[i]!;
+    if (child.kind !== 'trivia') {
+      return child.kind === 'token' && child.type === 'comma' ? child : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Space written after commas in a single-line container, copied from its existing commas
+ */
+function separatorSpace(context: EditContext, container: CSTNode): string {
+  const comma = container.children.find(child => child.kind === 'token' && child.type === 'comma');
+  if (!comma) {
+    return ' ';
+  }
+  return /^[ \t]*/.exec(context.source.slice(comma.end.index))![0];
+}
+
+/**
+ * Space written after a colon, copied from the object's first property
+ */
+function colonSpace(object: CSTNode): string {
+  const property = nodesOf(object)[0];
+  if (!property) {
+    return ' ';
+  }
+  const colon = property.children.findIndex(
+    child => child.kind === 'token' && child.type === 'colon'
+  );
+  const next = property.children[colon + 1];
+  return next?.kind === 'trivia' && next.type === 'whitespace' ? next.text : '';
+}
+
+function nodesOf(node: CSTNode): CSTNode[] {
+  return node.children.filter((child): child is CSTNode => child.kind === 'node');
+}
+
+function valueOf(property: CSTNode): CSTNode {
+  const nodes = nodesOf(property);
+  return nodes[nodes.length - 1]!;
+}
+
+function isComment(element: CSTElement): boolean {
+  return element.kind === 'trivia' && element.type !== 'whitespace';
+}
+
+/**
+ * Build the value to insert for the path segments that do not exist yet
+ */
+function wrap(segments: Array<string | number>, value: JSONValue): JSONValue {
+  return segments.reduceRight<JSONValue>(
+    (inner, segment) => (typeof segment === 'number' ? [inner] : { [segment]: inner }),
+    value
+  );
+}
+
+function toSegments(path: EditPath): Array<string | number> {
+  if (Array.isArray(path)) {
+    return path;
+  }
+  return path === '' ? [] : path.split('.');
+}
+
+function toIndex(segment: string | number): number {
+  if (typeof segment === 'number') {
+    return segment;
+  }
+  return /^\d+$/.test(segment) ? Number(segment) : NaN;
+}
+
+function detectIndent(source: string): string {
+  const match = /^([ \t]+)["'\w[{/]/m.exec(source);
+  if (!match) {
+    return '  ';
+  }
+  return match[1]!.startsWith('\t') ? '\t' : match[1]!;
+}
+
+function invalidPath(
+  operation: string,
+  segments: Array<string | number>,
+  reason: string
+): JSONTransformError {
+  const path = formatJSONPath(segments);
+  return new JSONTransformError(`Cannot ${operation} ${path}: ${reason}`, operation, {
+    path,
+    suggestions: ['Check that every parent on the path is an object or array'],
+  });
+}
@@ -0,0 +1,458 @@
+/**
+ * Decoding byte input: encoding detection as described in RFC 4627 section 3,
+ * UTF-8, UTF-16, UTF-32, ASCII and base64
+ */
+
+import { DecodedInput, InputEncoding, JSONInput, TextEncoding } from '../../core/types';
+import { JSONEncodingError } from '../../core/errors';
+
+// UTF-32LE comes first as its mark starts with the UTF-16LE one
+const BYTE_ORDER_MARKS: Array<[TextEncoding, number[]]> = [
+  ['utf32be', [0x00, 0x00, 0xfe, 0xff]],
+  ['utf32le', [0xff, 0xfe, 0x00, 0x00]],
+  ['utf8', [0xef, 0xbb, 0xbf]],
+  ['utf16be', [0xfe, 0xff]],
+  ['utf16le', [0xff, 0xfe]],
+];
+
+const NAMES: Record<TextEncoding, string> = {
+  utf8: 'UTF-8',
+  utf16le: 'UTF-16LE',
+  utf16be: 'UTF-16BE',
+  utf32le: 'UTF-32LE',
+  utf32be: 'UTF-32BE',
+  ascii: 'ASCII',
+};
+
+// Standard alphabet plus the URL-safe `-` and `_`
+const BASE64_VALUES = new Map<string, number>(
+  [...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/']
+    .map((char, value): [string, number] => [char, value])
+    .concat([
+      ['-', 62],
+      ['_', 63],
+    ])
+);
+const BASE64_WHITESPACE = new Set([' ', '\t', '\r', '\n']);
+
+const SUGGESTIONS = [
+  'Check that the input really is JSON text',
+  'Pass the `encoding` option if it was detected wrongly',
+];
+
+/**
+ * Collects UTF-16 code units, turning them into strings in slices as
+ * String.fromCharCode takes them as arguments
+ */
+class TextBuilder {
+  private static readonly SLICE = 8192;
+  private readonly pieces: string[] = [];
+  private units: number[] = [];
+
+  push(unit: number): void {
+    this.units.push(unit);
+    if (this.units.length >= TextBuilder.SLICE) {
+      this.flush();
+    }
+  }
+
+  pushCodePoint(codePoint: number): void {
+    if (codePoint > 0xffff) {
+      const offset = codePoint - 0x10000;
+      this.push(0xd800 + (offset >> 10));
+      this.push(0xdc00 + (offset & 0x3ff));
+    } else {
+      this.push(codePoint);
+    }
+  }
+
+  toString(): string {
+    this.flush();
+    return this.pieces.join('');
+  }
+
+  private flush(): void {
+    this.pieces.push(String.fromCharCode(...this.units));
+    this.units = [];
+  }
+}
+
+/**
+ * Work out how bytes are encoded: from a byte order mark when there is one,
+ * otherwise from where the null bytes fall among the first four. A JSON text
+ * starts with ASCII characters, so in UTF-16 and UTF-32 their high bytes are 0.
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  const marked = BYTE_ORDER_MARKS.find(([, mark]) => startsWith(bytes, mark));
+  if (marked) {
+    return marked[0];
+  }
+
+  const [a, b, c, d] = [bytes[0], bytes[1], bytes[2], bytes[3]];
+  if (bytes.length >= 4 && a === 0 && b === 0 && c === 0 && d !== 0) {
+    return 'utf32be';
+  }
+  if (bytes.length >= 4 && a !== 0 && b === 0 && c === 0 && d === 0) {
+    return 'utf32le';
+  }
+  if (bytes.length >= 2 && a === 0 && b !== 0) {
+    return 'utf16be';
+  }
+  if (bytes.length >= 2 && a !== 0 && b === 0) {
+    return 'utf16le';
+  }
+  return 'utf8';
+}
+
+/**
+ * Turn parser input into text. Bytes are decoded, dropping a byte order
+ * mark; strings are used as they are unless `encoding` is 'base64'.
+ * Throws a JSONEncodingError with the offset of the first invalid byte, or
+ * of the first byte of an invalid or incomplete multi-byte sequence.
+ */
+export function decodeInput(input: JSONInput, encoding: InputEncoding = 'auto'): DecodedInput {
+  if (typeof input === 'string') {
+    return encoding === 'base64' ? fromBase64(input) : { text: input, bom: false };
+  }
+  if (encoding === 'base64') {
+    return fromBase64(readLatin1(input));
+  }
+
+  const resolved = resolveEncoding(input, encoding);
+  const mark = BYTE_ORDER_MARKS.find(([name]) => name === resolved)?.[1] ?? [];
+  const bom = mark.length > 0 && startsWith(input, mark);
+  const start = bom ? mark.length : 0;
+  const body = input.subarray(start);
+
+  let text: string;
+  switch (resolved) {
+    case 'utf8':
+      text = decodeUTF8(body, start);
+      break;
+    case 'utf16le':
+    case 'utf16be':
+      text = decodeUTF16(body, start, resolved);
+      break;
+    case 'utf32le':
+    case 'utf32be':
+      text = decodeUTF32(body, start, resolved);
+      break;
+    case 'ascii':
+      text = decodeASCII(body, start);
+      break;
+  }
+
+  return { text, encoding: resolved, bom };
+}
+
+/**
+ * Throw the JSONEncodingError that decodeInput would for the first invalid
+ * UTF-8 in `bytes`, which begin `start` bytes into the input. For callers
+ * that decode natively and only need failures explained.
+ */
+export function checkUTF8(bytes: Uint8Array, start = 0): void {
+  decodeUTF8(bytes, start);
+}
+
+/**
+ * Decodes UTF-8 that arrives in chunks, which may split characters. Invalid
+ * bytes throw the JSONEncodingError decodeInput would, with the offset
+ * counted from the start of the first chunk.
+ */
+export class UTF8StreamDecoder {
+  private readonly decoder = new TextDecoder('utf-8', { fatal: true });
+  // Bytes decoded so far, ending with those of a character not yet complete
+  private bytes = 0;
+  private partial = new Uint8Array(0);
+
+  /**
+   * Decode the next chunk, keeping a character it splits for the next one.
+   * Without a chunk, signal the end of the input. The native decoder does
+   * not say where invalid bytes are, so on failure the bytes it had not yet
+   * decoded are checked again to find them.
+   */
+  decode(chunk?: Uint8Array): string {
+    const bytes = chunk ?? new Uint8Array(0);
+    try {
+      const text = this.decoder.decode(bytes, { stream: chunk !== undefined });
+      this.bytes += bytes.length;
+      this.partial = unfinished(concat(this.partial, bytes.subarray(-3)));
+      return text;
+    } catch (error) {
+      const start = this.bytes - this.partial.length;
+      checkUTF8(concat(this.partial, bytes), start);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Settle 'auto', 'utf16' and 'utf32' on a concrete encoding. Without other
+ * evidence UTF-16 and UTF-32 are big-endian, as their RFCs specify.
+ */
+function resolveEncoding(
+  bytes: Uint8Array,
+  encoding: Exclude<InputEncoding, 'base64'>
+): TextEncoding {
+  const detected = detectEncoding(bytes);
+  const littleEndian = detected === 'utf16le' || detected === 'utf32le';
+
+  switch (encoding) {
+    case 'auto':
+      return detected;
+    case 'utf16':
+      return littleEndian ? 'utf16le' : 'utf16be';
+    case 'utf32':
+      return littleEndian ? 'utf32le' : 'utf32be';
+    default:
+      return encoding;
+  }
+}
+
+function decodeUTF8(bytes: Uint8Array, start: number): string {
+  const text = new TextBuilder();
+  let i = 0;
+
+  while (i < bytes.length) {
+    const first = bytes[i]!;
+    if (first < 0x80) {
+      text.push(first);
+      i++;
+      continue;
+    }
+
+    let length: number;
+    let codePoint: number;
+    if (first >= 0xc2 && first <= 0xdf) {
+      length = 2;
+      codePoint = first & 0x1f;
+    } else if (first >= 0xe0 && first <= 0xef) {
+      length = 3;
+      codePoint = first & 0x0f;
+    } else if (first >= 0xf0 && first <= 0xf4) {
+      length = 4;
+      codePoint = first & 0x07;
+    } else {
+      throw invalidByte('utf8', first, start + i);
+    }
+
+    for (let k = 1; k < length; k++) {
+      // A sequence cut short is reported where it starts, not at the byte
+      // that interrupts it
+      const next = bytes[i + k];
+      if (next === undefined || (next & 0xc0) !== 0x80) {
+        throw incomplete('utf8', start + i);
+      }
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    // Overlong forms, surrogates and code points past U+10FFFF
+    const minimum = [0, 0, 0x80, 0x800, 0x10000][length]!;
+    if (codePoint < minimum || codePoint > 0x10ffff || isSurrogate(codePoint)) {
+      throw new JSONEncodingError(
+        `Invalid UTF-8 sequence at offset ${start + i}`,
+        start + i,
+        'utf8',
+        SUGGESTIONS
+      );
+    }
+
+    text.pushCodePoint(codePoint);
+    i += length;
+  }
+
+  return text.toString();
+}
+
+function decodeUTF16(bytes: Uint8Array, start: number, encoding: 'utf16le' | 'utf16be'): string {
+  const text = new TextBuilder();
+  const end = bytes.length - (bytes.length % 2);
+  const unitAt = (i: number): number =>
+    encoding === 'utf16le' ? bytes[i]! | (bytes[i + 1]! << 8) : (bytes[i]! << 8) | bytes[i + 1]!;
+
+  for (let i = 0; i < end; i += 2) {
+    const unit = unitAt(i);
+    if (!isSurrogate(unit)) {
+      text.push(unit);
+      continue;
+    }
+
+    const next = i + 2 < end ? unitAt(i + 2) : undefined;
+    if (unit >= 0xdc00 || next === undefined || next < 0xdc00 || next > 0xdfff) {
+      throw new JSONEncodingError(
+        `Unpaired ${NAMES[encoding]} surrogate 0x${hex(unit, 4)} at offset ${start + i}`,
+        start + i,
+        encoding,
+        SUGGESTIONS
+      );
+    }
+    text.push(unit);
+    text.push(next);
+    i += 2;
+  }
+
+  if (end < bytes.length) {
+    throw incomplete(encoding, start + end);
+  }
+  return text.toString();
+}
+
+function decodeUTF32(bytes: Uint8Array, start: number, encoding: 'utf32le' | 'utf32be'): string {
+  const text = new TextBuilder();
+  const end = bytes.length - (bytes.length % 4);
+
+  for (let i = 0; i < end; i += 4) {
+    const [b0, b1, b2, b3] = [bytes[i]!, bytes[i + 1]!, bytes[i + 2]!, bytes[i + 3]!];
+    const codePoint =
+      encoding === 'utf32le'
+        ? (b0 | (b1 << 8) | (b2 << 16) | (b3 << 24)) >>> 0
+        : ((b0 << 24) | (b1 << 16) | (b2 << 8) | b3) >>> 0;
+
+    if (codePoint > 0x10ffff || isSurrogate(codePoint)) {
+      throw new JSONEncodingError(
+        `Invalid ${NAMES[encoding]} code point 0x${hex(codePoint, 4)} at offset ${start + i}`,
+        start + i,
+        encoding,
+        SUGGESTIONS
+      );
+    }
+    text.pushCodePoint(codePoint);
+  }
+
+  if (end < bytes.length) {
+    throw incomplete(encoding, start + end);
+  }
+  return text.toString();
+}
+
+function decodeASCII(bytes: Uint8Array, start: number): string {
+  const text = new TextBuilder();
+  bytes.forEach((byte, i) => {
+    if (byte > 0x7f) {
+      throw invalidByte('ascii', byte, start + i);
+    }
+    text.push(byte);
+  });
+  return text.toString();
+}
+
+/**
+ * Decode base64 text (standard or URL-safe, whitespace ignored) and then
+ * the bytes it holds
+ */
+function fromBase64(text: string): DecodedInput {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let digits = 0;
+  let padding = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (BASE64_WHITESPACE.has(char)) {
+      continue;
+    }
+    if (char === '=') {
+      padding++;
+      continue;
+    }
+
+    const value = BASE64_VALUES.get(char);
+    if (value === undefined || padding > 0) {
+      throw new JSONEncodingError(
+        `Invalid base64 character ${JSON.stringify(char)} at offset ${i}`,
+        i,
+        'base64',
+        ['Remove characters outside the base64 alphabet', 'Padding (=) may only end the data']
+      );
+    }
+
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    digits++;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  if (digits % 4 === 1 || (padding > 0 && (digits + padding) % 4 !== 0)) {
+    throw new JSONEncodingError(
+      `Incomplete base64 data at offset ${text.length}`,
+      text.length,
+      'base64',
+      ['Check that the base64 data was not truncated']
+    );
+  }
+
+  try {
+    return decodeInput(Uint8Array.from(bytes));
+  } catch (error) {
+    if (error instanceof JSONEncodingError) {
+      throw new JSONEncodingError(
+        `${error.message} of the decoded base64 data`,
+        error.offset,
+        error.encoding,
+        error.suggestions
+      );
+    }
+    throw error;
+  }
+}
+
+function readLatin1(bytes: Uint8Array): string {
+  const text = new TextBuilder();
+  bytes.forEach(byte => text.push(byte));
+  return text.toString();
+}
+
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(first.length + second.length);
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes;
+}
+
+// The bytes ending `bytes` that start a UTF-8 character without all of its
+// continuation bytes yet. `bytes` are valid UTF-8 so far.
+function unfinished(bytes: Uint8Array): Uint8Array {
+  for (let i = bytes.length - 1; i >= 0 && i >= bytes.length - 3; i--) {
+    const byte = bytes[i]!;
+    if ((byte & 0xc0) === 0x80) {
+      continue;
+    }
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return bytes.subarray(bytes.length - i < length ? i : bytes.length);
+  }
+  return bytes.subarray(bytes.length);
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function isSurrogate(value: number): boolean {
+  return value >= 0xd800 && value <= 0xdfff;
+}
+
+function hex(value: number, width: number): string {
+  return value.toString(16).toUpperCase().padStart(width, '0');
+}
+
+function invalidByte(encoding: TextEncoding, byte: number, offset: number): JSONEncodingError {
+  return new JSONEncodingError(
+    `Invalid ${NAMES[encoding]} byte 0x${hex(byte, 2)} at offset ${offset}`,
+    offset,
+    encoding,
+    SUGGESTIONS
+  );
+}
+
+function incomplete(encoding: TextEncoding, offset: number): JSONEncodingError {
+  return new JSONEncodingError(
+    `Incomplete ${NAMES[encoding]} sequence at offset ${offset}`,
+    offset,
+    encoding,
+    SUGGESTIONS
+  );
+}
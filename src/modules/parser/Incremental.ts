@@ -0,0 +1,289 @@
+/**
+ * Incremental re-parsing of concrete syntax trees
+ */
+
+import { CSTElement, CSTNode, ParseOptions, SourceChange, SourcePosition } from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { PERFORMANCE_LIMITS } from '../../utils/constants';
+import { CSTParser, printCST } from './CST';
+import { ParseLimits } from './ParseLimits';
+import { resolveSyntax } from './DescentParser';
+import { advancePosition } from './Tokenizer';
+
+interface Enclosing {
+  node: CSTNode;
+  /** Node whose children hold `node`; undefined for the document */
+  parent: CSTNode | undefined;
+  /** Number of objects and arrays around `node` */
+  depth: number;
+}
+
+/**
+ * Maps positions after the changed range from the old text to the new one
+ */
+class PositionShift {
+  readonly delta: number;
+  /** Whether positions after the change stay where they were */
+  readonly isIdentity: boolean;
+  private readonly lineDelta: number;
+  private readonly columnDelta: number;
+
+  constructor(
+    /** Index just after the replaced range in the old text */
+    readonly oldEnd: number,
+    private readonly oldEndPosition: SourcePosition,
+    newEndPosition: SourcePosition
+  ) {
+    this.delta = newEndPosition.index - oldEndPosition.index;
+    this.lineDelta = newEndPosition.line - oldEndPosition.line;
+    this.columnDelta = newEndPosition.column - oldEndPosition.column;
+    this.isIdentity = this.delta === 0 && this.lineDelta === 0 && this.columnDelta === 0;
+  }
+
+  map(position: SourcePosition): SourcePosition {
+    return {
+      line: position.line + this.lineDelta,
+      column:
+        position.line === this.oldEndPosition.line
+          ? position.column + this.columnDelta
+          : position.column,
+      index: position.index + this.delta,
+    };
+  }
+
+  /**
+   * Move an element that lies wholly after the change, with everything in it
+   */
+  move(element: CSTElement): void {
+    if (this.isIdentity) {
+      return;
+    }
+    element.start = this.map(element.start);
+    element.end = this.map(element.end);
+    if (element.kind === 'node') {
+      for (const child of element.children) {
+        this.move(child);
+      }
+    }
+  }
+}
+
+/**
+ * Apply a text change to a document parsed by Parser.cst, re-parsing only the
+ * smallest value that encloses the change. Unchanged nodes are kept (moved to
+ * their new positions) rather than rebuilt, so their identities survive.
+ * The tree is updated in place and returned; when the changed text does not
+ * parse, a JSONParseError is thrown and the tree is left as it was.
+ */
+export function reparseCST(
+  document: CSTNode,
+  change: SourceChange,
+  options: ParseOptions = {}
+): CSTNode {
+  const { offset, deleteCount } = change;
+  const end = offset + deleteCount;
+
+  if (offset < 0 || deleteCount < 0 || end > document.end.index) {
+    throw new JSONParseError(
+      `Change at ${offset} (${deleteCount} characters) is outside the document of length ${document.end.index}`,
+      { suggestions: ['Pass the tree parsed from the text the change applies to'] }
+    );
+  }
+
+  const chain = enclosingValues(document, offset, end);
+
+  // Innermost first; a fragment that no longer reads as one value needs its parent
+  for (let i = chain.length - 1; i > 0; i--) {
+    const { node, parent, depth } = chain[i]!;
+    const edited = applyChange(node, change);
+    let fragment: CSTNode;
+
+    try {
+      fragment = parseFragment(edited.text, options, depth);
+    } catch (error) {
+      if (error instanceof JSONParseError) {
+        continue;
+      }
+      throw error;
+    }
+
+    // Leading or trailing trivia would merge with the surrounding text
+    const [replacement, ...rest] = fragment.children;
+    if (rest.length > 0 || replacement?.kind !== 'node') {
+      continue;
+    }
+
+    relocate(replacement, node.start);
+    reconcile(node, replacement, offset, edited.shift);
+    parent!.children[parent!.children.indexOf(node)] = replacement;
+
+    if (!edited.shift.isIdentity) {
+      for (const ancestor of ancestorsOf(chain, i)) {
+        ancestor.end = edited.shift.map(ancestor.end);
+        for (const child of ancestor.children) {
+          if (child !== replacement && child.start.index >= end) {
+            edited.shift.move(child);
+          }
+        }
+      }
+    }
+    return document;
+  }
+
+  const edited = applyChange(document, change);
+  const fragment = parseFragment(edited.text, options, 0);
+  reconcile(document, fragment, offset, edited.shift);
+  document.children = fragment.children;
+  document.end = fragment.end;
+  return document;
+}
+
+/**
+ * The text of a node with the change applied, and how positions after the
+ * change move
+ */
+function applyChange(node: CSTNode, change: SourceChange): { text: string; shift: PositionShift } {
+  const { offset, deleteCount, insertText } = change;
+  const oldText = printCST(node);
+  const relative = offset - node.start.index;
+  const text = oldText.slice(0, relative) + insertText + oldText.slice(relative + deleteCount);
+
+  return {
+    text,
+    shift: new PositionShift(
+      offset + deleteCount,
+      advancePosition(node.start, oldText, relative + deleteCount),
+      advancePosition(node.start, text, relative + insertText.length)
+    ),
+  };
+}
+
+function parseFragment(text: string, options: ParseOptions, depth: number): CSTNode {
+  const maxDepth = (options.maxDepth ?? PERFORMANCE_LIMITS.MAX_DEPTH) - depth;
+  const limits = new ParseLimits(text, { ...options, maxDepth });
+  limits.checkSize();
+  return new CSTParser(text, { syntax: resolveSyntax(options), limits }).parse();
+}
+
+/**
+ * The document followed by every value node that contains the changed range,
+ * outermost first
+ */
+function enclosingValues(document: CSTNode, start: number, end: number): Enclosing[] {
+  const chain: Enclosing[] = [{ node: document, parent: undefined, depth: 0 }];
+  let current = document;
+  let depth = 0;
+
+  for (;;) {
+    let next: Enclosing | undefined;
+
+    for (const child of current.children) {
+      if (child.kind !== 'node' || child.start.index > start || child.end.index < end) {
+        continue;
+      }
+      if (child.type !== 'property') {
+        next = { node: child, parent: current, depth };
+      } else {
+        // Only the value counts; a change to the key belongs to the object
+        const value = child.children[child.children.length - 1] as CSTNode;
+        if (value.start.index <= start && value.end.index >= end) {
+          next = { node: value, parent: child, depth };
+        }
+      }
+      break;
+    }
+
+    if (!next) {
+      return chain;
+    }
+    chain.push(next);
+    if (next.node.type === 'object' || next.node.type === 'array') {
+      depth++;
+    }
+    current = next.node;
+  }
+}
+
+/**
+ * Nodes around the i-th node of the chain: the enclosing values and the
+ * properties between them, innermost first
+ */
+function ancestorsOf(chain: Enclosing[], i: number): CSTNode[] {
+  const ancestors: CSTNode[] = [];
+  for (let j = i; j > 0; j--) {
+    const { parent } = chain[j]!;
+    if (parent?.type === 'property') {
+      ancestors.push(parent);
+    }
+    ancestors.push(chain[j - 1]!.node);
+  }
+  return ancestors;
+}
+
+/**
+ * Swap unchanged nodes of the new subtree for their counterparts in the old
+ * one. Nodes wholly before the change sit at the same index; nodes wholly
+ * after it sit `delta` characters later. A node spanning the change is new,
+ * but its own unchanged children are reconciled in turn.
+ */
+function reconcile(previous: CSTNode, next: CSTNode, offset: number, shift: PositionShift): void {
+  const before = new Map<number, CSTNode>();
+  const after = new Map<number, CSTNode>();
+  const spanning = new Map<number, CSTNode>();
+
+  for (const child of previous.children) {
+    if (child.kind !== 'node') {
+      continue;
+    }
+    if (child.end.index <= offset) {
+      before.set(child.start.index, child);
+    } else if (child.start.index >= shift.oldEnd) {
+      after.set(child.start.index + shift.delta, child);
+    } else {
+      spanning.set(child.start.index, child);
+    }
+  }
+
+  next.children.forEach((child, i) => {
+    if (child.kind !== 'node') {
+      return;
+    }
+    const isBefore = child.end.index <= offset;
+    const kept = (isBefore ? before : after).get(child.start.index);
+
+    if (kept && kept.type === child.type && length(kept) === length(child)) {
+      if (!isBefore) {
+        shift.move(kept);
+      }
+      next.children[i] = kept;
+      return;
+    }
+
+    const old = spanning.get(child.start.index);
+    if (old && old.type === child.type) {
+      reconcile(old, child, offset, shift);
+    }
+  });
+}
+
+function length(node: CSTNode): number {
+  return node.end.index - node.start.index;
+}
+
+/**
+ * Move a subtree parsed on its own to where it starts in the document
+ */
+function relocate(element: CSTElement, base: SourcePosition): void {
+  const move = (position: SourcePosition): SourcePosition => ({
+    line: position.line + base.line - 1,
+    column: position.line === 1 ? position.column + base.column - 1 : position.column,
+    index: position.index + base.index,
+  });
+  element.start = move(element.start);
+  element.end = move(element.end);
+  if (element.kind === 'node') {
+    for (const child of element.children) {
+      relocate(child, base);
+    }
+  }
+}
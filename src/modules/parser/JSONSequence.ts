@@ -0,0 +1,339 @@
+/**
+ * Concatenated JSON (`{}{}[]`) and RFC 7464 JSON text sequences
+ */
+
+import { ERROR_CODES, SequenceOptions, SequenceResult, StreamSource } from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { PERFORMANCE_LIMITS } from '../../utils/constants';
+import { checkUTF8 } from './Encoding';
+import { defaultPipeline } from './Pipeline';
+import { readChunks } from './StreamSource';
+
+// Values are split on raw bytes: every byte of a multi-byte UTF-8 character is
+// 0x80 or above, so none of them can be mistaken for these
+const RECORD_SEPARATOR = 0x1e;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const OPENING = [0x7b, 0x5b]; // { [
+const CLOSING = [0x7d, 0x5d]; // } ]
+const STRUCTURAL = [...OPENING, ...CLOSING, QUOTE, 0x2c, 0x3a]; // plus , :
+const WHITESPACE = [0x20, 0x09, 0x0a, 0x0d];
+const BOM = [0xef, 0xbb, 0xbf];
+
+const DECODER = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/**
+ * Bytes of the value being read. Once it grows past maxSize the bytes are
+ * dropped and the value is reported as too large when it ends.
+ */
+class PendingValue {
+  start = 0;
+  private pieces: Uint8Array[] = [];
+  private size = 0;
+  private overflow = false;
+
+  constructor(private readonly maxSize: number) {}
+
+  begin(start: number): void {
+    this.start = start;
+    this.pieces = [];
+    this.size = 0;
+    this.overflow = false;
+  }
+
+  add(bytes: Uint8Array): void {
+    if (this.overflow || bytes.length === 0) {
+      return;
+    }
+    this.size += bytes.length;
+    if (this.size > this.maxSize) {
+      this.overflow = true;
+      this.pieces = [];
+    } else {
+      // Chunks may be reused by the source, so keep a copy
+      this.pieces.push(bytes.slice());
+    }
+  }
+
+  /**
+   * The collected bytes, or undefined when the value was too large
+   */
+  take(): Uint8Array | undefined {
+    if (this.overflow) {
+      return undefined;
+    }
+    const bytes = new Uint8Array(this.size);
+    let offset = 0;
+    for (const piece of this.pieces) {
+      bytes.set(piece, offset);
+      offset += piece.length;
+    }
+    this.pieces = [];
+    return bytes;
+  }
+}
+
+/**
+ * Read concatenated JSON values, with or without whitespace between them,
+ * yielding each one with the byte offsets it occupies
+ */
+export async function* readConcatenated(
+  source: StreamSource,
+  options: SequenceOptions = {}
+): AsyncGenerator<SequenceResult, void, undefined> {
+  const { skipOnError = false, ...parseOptions } = options;
+  const pending = new PendingValue(parseOptions.maxSize ?? PERFORMANCE_LIMITS.MAX_SIZE);
+  let kind: 'none' | 'scalar' | 'string' | 'container' = 'none';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let base = 0;
+
+  const accept = (result: SequenceResult): boolean => !(skipOnError && result.error);
+
+  for await (const bytes of readBytes(source)) {
+    let pieceStart = 0;
+
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i]!;
+
+      if (kind === 'none') {
+        if (WHITESPACE.includes(byte)) {
+          continue;
+        }
+        if (base === 0 && i === 0 && BOM.every((value, k) => bytes[k] === value)) {
+          i += BOM.length - 1;
+          continue;
+        }
+        pending.begin(base + i);
+        pieceStart = i;
+        kind = OPENING.includes(byte) ? 'container' : byte === QUOTE ? 'string' : 'scalar';
+        depth = 1;
+        inString = kind === 'string';
+        escaped = false;
+        continue;
+      }
+
+      let end = -1;
+      if (kind === 'scalar') {
+        // Numbers and literals end at the first byte that cannot belong to them
+        if (WHITESPACE.includes(byte) || STRUCTURAL.includes(byte)) {
+          end = i;
+        }
+      } else if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (byte === BACKSLASH) {
+          escaped = true;
+        } else if (byte === QUOTE) {
+          inString = false;
+          end = kind === 'string' ? i + 1 : -1;
+        }
+      } else if (byte === QUOTE) {
+        inString = true;
+      } else if (OPENING.includes(byte)) {
+        depth++;
+      } else if (CLOSING.includes(byte)) {
+        depth--;
+        end = depth === 0 ? i + 1 : -1;
+      }
+
+      if (end !== -1) {
+        pending.add(bytes.subarray(pieceStart, end));
+        kind = 'none';
+        const result = parseValue(pending, base + end, parseOptions);
+        if (accept(result)) {
+          yield result;
+        }
+        // A delimiter that ended a number or literal may start the next value
+        if (end === i) {
+          i--;
+        }
+      }
+    }
+
+    if (kind !== 'none') {
+      pending.add(bytes.subarray(pieceStart));
+    }
+    base += bytes.length;
+  }
+
+  if (kind !== 'none') {
+    const result = parseValue(pending, base, parseOptions);
+    if (accept(result)) {
+      yield result;
+    }
+  }
+}
+
+/**
+ * Read an RFC 7464 JSON text sequence: records that start with the record
+ * separator (0x1E) and end with a line feed. Offsets cover the JSON text of
+ * each record without its separator and surrounding whitespace.
+ */
+export async function* readSequence(
+  source: StreamSource,
+  options: SequenceOptions = {}
+): AsyncGenerator<SequenceResult, void, undefined> {
+  const { skipOnError = false, ...parseOptions } = options;
+  const pending = new PendingValue(parseOptions.maxSize ?? PERFORMANCE_LIMITS.MAX_SIZE);
+  let inRecord = false;
+  let base = 0;
+
+  const finish = (end: number): SequenceResult | undefined => {
+    const bytes = pending.take();
+    if (bytes === undefined) {
+      return tooLarge(pending.start, end, parseOptions.maxSize);
+    }
+
+    let first = 0;
+    let last = bytes.length;
+    while (first < last && WHITESPACE.includes(bytes[first]!)) {
+      first++;
+    }
+    while (last > first && WHITESPACE.includes(bytes[last - 1]!)) {
+      last--;
+    }
+    const start = pending.start + first;
+    const valueEnd = pending.start + last;
+
+    if (first === last) {
+      return undefined; // empty record
+    }
+
+    if (!inRecord) {
+      return failure(
+        'Data before the first record separator (0x1E) in JSON text sequence',
+        start,
+        valueEnd
+      );
+    }
+
+    const result = parseBytes(bytes.subarray(first, last), start, valueEnd, parseOptions);
+
+    // A top-level number or literal not followed by whitespace may have been cut off
+    const scalar = !OPENING.includes(bytes[first]!) && bytes[first] !== QUOTE;
+    if (result.value !== undefined && scalar && last === bytes.length) {
+      return failure('Possibly truncated record in JSON text sequence', start, valueEnd);
+    }
+    return result;
+  };
+
+  const accept = (result: SequenceResult | undefined): result is SequenceResult =>
+    result !== undefined && !(skipOnError && result.error);
+
+  pending.begin(0);
+  for await (const bytes of readBytes(source)) {
+    let pieceStart = 0;
+
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] !== RECORD_SEPARATOR) {
+        continue;
+      }
+      pending.add(bytes.subarray(pieceStart, i));
+      const result = finish(base + i);
+      if (accept(result)) {
+        yield result;
+      }
+      inRecord = true;
+      pending.begin(base + i + 1);
+      pieceStart = i + 1;
+    }
+
+    pending.add(bytes.subarray(pieceStart));
+    base += bytes.length;
+  }
+
+  const result = finish(base);
+  if (accept(result)) {
+    yield result;
+  }
+}
+
+/**
+ * Read a source as UTF-8 bytes, encoding string chunks. Small chunks at the
+ * start are joined until the first one is long enough to hold a byte order
+ * mark.
+ */
+async function* readBytes(source: StreamSource): AsyncGenerator<Uint8Array, void, undefined> {
+  const encoder = new TextEncoder();
+  let head: Uint8Array | undefined = new Uint8Array(0);
+
+  for await (const chunk of readChunks(source)) {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    if (head === undefined) {
+      yield bytes;
+      continue;
+    }
+
+    const joined: Uint8Array = new Uint8Array(head.length + bytes.length);
+    joined.set(head);
+    joined.set(bytes, head.length);
+    head = joined;
+    if (head.length >= BOM.length) {
+      yield head;
+      head = undefined;
+    }
+  }
+
+  if (head !== undefined && head.length > 0) {
+    yield head;
+  }
+}
+
+function parseValue(pending: PendingValue, end: number, options: SequenceOptions): SequenceResult {
+  const bytes = pending.take();
+  return bytes === undefined
+    ? tooLarge(pending.start, end, options.maxSize)
+    : parseBytes(bytes, pending.start, end, options);
+}
+
+function parseBytes(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  options: SequenceOptions
+): SequenceResult {
+  try {
+    const { data } = defaultPipeline.run(decode(bytes, start), options);
+    return { value: data, start, end };
+  } catch (error) {
+    return {
+      error:
+        error instanceof JSONParseError
+          ? error
+          : new JSONParseError(error instanceof Error ? error.message : 'Unknown error', {
+              cause: error as Error,
+            }),
+      start,
+      end,
+    };
+  }
+}
+
+// UTF-8 bytes of a value that starts `start` bytes into the input. Invalid
+// bytes throw a JSONEncodingError with their offset in the input.
+function decode(bytes: Uint8Array, start: number): string {
+  try {
+    return DECODER.decode(bytes);
+  } catch (error) {
+    checkUTF8(bytes, start);
+    throw error;
+  }
+}
+
+function tooLarge(start: number, end: number, maxSize: number | undefined): SequenceResult {
+  const limit = maxSize ?? PERFORMANCE_LIMITS.MAX_SIZE;
+  return {
+    error: new JSONParseError(`Value at byte ${start} exceeds the size limit of ${limit}`, {
+      code: ERROR_CODES.SIZE_EXCEEDED,
+      suggestions: ['Raise maxSize if this input is trusted'],
+    }),
+    start,
+    end,
+  };
+}
+
+function failure(message: string, start: number, end: number): SequenceResult {
+  return { error: new JSONParseError(message), start, end };
+}
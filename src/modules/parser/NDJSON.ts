@@ -0,0 +1,178 @@
+/**
+ * Newline-delimited JSON (NDJSON / JSON Lines) reading and writing
+ */
+
+import {
+  ERROR_CODES,
+  JSONValue,
+  LineDestination,
+  LineResult,
+  LineSink,
+  LinesOptions,
+  LineWriterOptions,
+  StreamSource,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { minifyJSON } from '../../utils/helpers';
+import { UTF8StreamDecoder } from './Encoding';
+import { defaultPipeline } from './Pipeline';
+import { readChunks } from './StreamSource';
+
+/**
+ * Read one JSON value per line, yielding each with its 1-based line number.
+ * Blank lines are skipped. Only one line is held in memory at a time.
+ * Invalid UTF-8 in byte input throws a JSONEncodingError.
+ */
+export async function* readLines(
+  source: StreamSource,
+  options: LinesOptions = {}
+): AsyncGenerator<LineResult, void, undefined> {
+  const { skipOnError = false, maxLineLength = Infinity, crlf = true, ...parseOptions } = options;
+  const decoder = new UTF8StreamDecoder();
+  let pending = '';
+  let overflow = false;
+  let line = 0;
+
+  const finish = (text: string): LineResult | undefined => {
+    line++;
+    const content = crlf && text.endsWith('\r') ? text.slice(0, -1) : text;
+
+    if (overflow || content.length > maxLineLength) {
+      overflow = false;
+      return {
+        line,
+        error: new JSONParseError(
+          `Line ${line} exceeds the maximum length of ${maxLineLength} characters`,
+          {
+            code: ERROR_CODES.SIZE_EXCEEDED,
+            suggestions: ['Raise maxLineLength if this input is trusted'],
+          }
+        ),
+      };
+    }
+
+    if (content.trim() === '') {
+      return undefined;
+    }
+
+    try {
+      return { line, value: defaultPipeline.run(content, parseOptions).data };
+    } catch (error) {
+      return {
+        line,
+        error:
+          error instanceof JSONParseError
+            ? error
+            : new JSONParseError(error instanceof Error ? error.message : 'Unknown error', {
+                cause: error as Error,
+              }),
+      };
+    }
+  };
+
+  const accept = (result: LineResult | undefined): result is LineResult =>
+    result !== undefined && !(skipOnError && result.error);
+
+  for await (const chunk of readChunks(source)) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk);
+    let start = 0;
+    let newline = text.indexOf('\n');
+
+    while (newline !== -1) {
+      const result = finish(pending + text.slice(start, newline));
+      pending = '';
+      if (accept(result)) {
+        yield result;
+      }
+      start = newline + 1;
+      newline = text.indexOf('\n', start);
+    }
+
+    // Once a line is known to be too long, drop it instead of buffering the rest
+    if (!overflow) {
+      pending += text.slice(start);
+      if (pending.length > maxLineLength + 1) {
+        overflow = true;
+        pending = '';
+      }
+    }
+  }
+
+  const rest = pending + decoder.decode();
+  if (rest !== '' || overflow) {
+    const result = finish(rest);
+    if (accept(result)) {
+      yield result;
+    }
+  }
+}
+
+/**
+ * Write each value as one line of JSON, waiting whenever the destination
+ * signals backpressure. The destination is left open. Returns the number
+ * of lines written; rejects with the destination's error if a write fails
+ * or, for a Node stream, if it closes while a write is waiting.
+ */
+export async function writeLines(
+  values: Iterable<JSONValue> | AsyncIterable<JSONValue>,
+  destination: LineDestination,
+  options: LineWriterOptions = {}
+): Promise<number> {
+  const newline = options.newline ?? '\n';
+  let count = 0;
+
+  if (isWritableStream(destination)) {
+    const writer = destination.getWriter();
+    let last: Promise<void> | undefined;
+    try {
+      for await (const value of values) {
+        await writer.ready;
+        last = writer.write(minifyJSON(value) + newline);
+        // A failed write also rejects `ready`, which is where earlier ones
+        // surface; the last one is awaited below
+        last.catch(() => undefined);
+        count++;
+      }
+      await last;
+    } finally {
+      writer.releaseLock();
+    }
+    return count;
+  }
+
+  for await (const value of values) {
+    if (!destination.write(minifyJSON(value) + newline)) {
+      await drained(destination);
+    }
+    count++;
+  }
+  return count;
+}
+
+// Wait for 'drain', failing if the destination errors or closes first
+function drained(sink: LineSink): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error): void => {
+      sink.removeListener('drain', onDrain);
+      sink.removeListener('error', onError);
+      sink.removeListener('close', onClose);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onDrain = (): void => settle();
+    const onError = (error: Error): void => settle(error);
+    const onClose = (): void =>
+      settle(new Error('The destination closed before all lines were written'));
+
+    sink.once('drain', onDrain);
+    sink.once('error', onError);
+    sink.once('close', onClose);
+  });
+}
+
+function isWritableStream(destination: LineDestination): destination is WritableStream<string> {
+  return typeof (destination as WritableStream).getWriter === 'function';
+}
@@ -0,0 +1,271 @@
+/**
+ * Resource limits and warning thresholds enforced while parsing
+ */
+
+import { ERROR_CODES, ParseOptions, SourcePosition } from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { PERFORMANCE_LIMITS } from '../../utils/constants';
+
+/**
+ * Tracks nesting depth and value count during a parse and aborts with a
+ * typed JSONParseError as soon as a limit is crossed. Crossing one of the
+ * WARNING_* thresholds records a single warning instead.
+ */
+export class ParseLimits {
+  readonly warnings: string[] = [];
+
+  private readonly maxDepth: number;
+  private readonly maxSize: number;
+  private readonly maxNodes: number;
+  private depth = 0;
+  private nodes = 0;
+  private warnedDepth = false;
+  private warnedNodes = false;
+
+  constructor(
+    private readonly input: string,
+    options: ParseOptions = {}
+  ) {
+    this.maxDepth = options.maxDepth ?? PERFORMANCE_LIMITS.MAX_DEPTH;
+    this.maxSize = options.maxSize ?? PERFORMANCE_LIMITS.MAX_SIZE;
+    this.maxNodes = options.maxNodes ?? PERFORMANCE_LIMITS.MAX_NODES;
+  }
+
+  /**
+   * Check the input size before any parsing work is done
+   */
+  checkSize(): void {
+    const size = this.input.length;
+
+    if (size > this.maxSize) {
+      throw new JSONParseError(
+        `Input size of ${size} characters exceeds the limit of ${this.maxSize}`,
+        {
+          code: ERROR_CODES.SIZE_EXCEEDED,
+          suggestions: ['Raise maxSize if this input is trusted', 'Stream large inputs instead'],
+        }
+      );
+    }
+
+    if (size > PERFORMANCE_LIMITS.WARNING_SIZE) {
+      this.warnings.push(
+        `Input size of ${size} characters exceeds the recommended ${PERFORMANCE_LIMITS.WARNING_SIZE}`
+      );
+    }
+  }
+
+  /**
+   * Record the start of an object or array
+   */
+  enter(position: SourcePosition): void {
+    this.depth++;
+
+    if (this.depth > this.maxDepth) {
+      throw JSONParseError.atPosition(
+        `Nesting depth exceeds the limit of ${this.maxDepth}`,
+        this.input,
+        position,
+        {
+          code: ERROR_CODES.DEPTH_EXCEEDED,
+          suggestions: ['Raise maxDepth if this input is trusted'],
+        }
+      );
+    }
+
+    if (this.depth > PERFORMANCE_LIMITS.WARNING_DEPTH && !this.warnedDepth) {
+      this.warnedDepth = true;
+      this.warnings.push(
+        `Nesting depth exceeds the recommended ${PERFORMANCE_LIMITS.WARNING_DEPTH} at line ${position.line}, column ${position.column}`
+      );
+    }
+  }
+
+  /**
+   * Record the end of an object or array
+   */
+  leave(): void {
+    this.depth--;
+  }
+
+  /**
+   * Record a value (containers included)
+   */
+  node(position: SourcePosition): void {
+    this.nodes++;
+
+    if (this.nodes > this.maxNodes) {
+      throw JSONParseError.atPosition(
+        `Number of values exceeds the limit of ${this.maxNodes}`,
+        this.input,
+        position,
+        {
+          code: ERROR_CODES.NODES_EXCEEDED,
+          suggestions: ['Raise maxNodes if this input is trusted'],
+        }
+      );
+    }
+
+    if (this.nodes > PERFORMANCE_LIMITS.WARNING_NODES && !this.warnedNodes) {
+      this.warnedNodes = true;
+      this.warnings.push(
+        `Number of values exceeds the recommended ${PERFORMANCE_LIMITS.WARNING_NODES}`
+      );
+    }
+  }
+
+  /**
+   * Walk the structure of plain JSON without building values, applying every
+   * limit. Used ahead of the native JSON.parse fast path, which cannot be
+   * interrupted once it starts. Syntax errors are left for the parser to report.
+   */
+  scan(): void {
+    const input = this.input;
+    const length = input.length;
+    const nodeThreshold = Math.min(this.maxNodes, PERFORMANCE_LIMITS.WARNING_NODES);
+    const depthThreshold = Math.min(this.maxDepth, PERFORMANCE_LIMITS.WARNING_DEPTH);
+    // Every value and every level of nesting takes at least one character, so
+    // short input cannot reach a limit or a warning threshold
+    const countNodes = length > nodeThreshold;
+    if (!countNodes && length <= depthThreshold) {
+      return;
+    }
+
+    let line = 1;
+    let lineStart = 0;
+
+    const position = (index: number): SourcePosition => ({
+      line,
+      column: index - lineStart + 1,
+      index,
+    });
+    // Below the next threshold there is nothing to report, so values and
+    // levels are only counted; node() and enter() take over from there
+    const value = (index: number): void => {
+      if (this.nodes < (this.warnedNodes ? this.maxNodes : nodeThreshold)) {
+        this.nodes++;
+      } else {
+        this.node(position(index));
+      }
+    };
+
+    for (let index = 0; index < length; index++) {
+      switch (KINDS[input.charCodeAt(index)] ?? OTHER) {
+        case OTHER:
+          break;
+        case QUOTE: {
+          const start = index;
+          index = closingQuote(input, index);
+          if (countNodes) {
+            // A string followed by ':' is a key rather than a value
+            let next = index + 1;
+            while (isWhitespace(input.charCodeAt(next))) {
+              next++;
+            }
+            if (input.charCodeAt(next) !== COLON) {
+              value(start);
+            }
+          }
+          break;
+        }
+        case OPEN:
+          if (countNodes) {
+            value(index);
+          }
+          if (this.depth < (this.warnedDepth ? this.maxDepth : depthThreshold)) {
+            this.depth++;
+          } else {
+            this.enter(position(index));
+          }
+          break;
+        case CLOSE:
+          this.depth--;
+          break;
+        case NEWLINE:
+          line++;
+          lineStart = index + 1;
+          break;
+        case NUMBER:
+          if (countNodes) {
+            value(index);
+          }
+          while (isNumberPart(input.charCodeAt(index + 1))) {
+            index++;
+          }
+          break;
+        case LITERAL:
+          if (countNodes) {
+            value(index);
+          }
+          while (isLetter(input.charCodeAt(index + 1))) {
+            index++;
+          }
+          break;
+      }
+    }
+  }
+}
+
+// What an ASCII character means to scan(), by character code
+const OTHER = 0;
+const QUOTE = 1;
+const OPEN = 2;
+const CLOSE = 3;
+const NEWLINE = 4;
+const NUMBER = 5;
+const LITERAL = 6;
+
+const KINDS = new Uint8Array(128);
+for (const [chars, kind] of [
+  ['"', QUOTE],
+  ['{[', OPEN],
+  ['}]', CLOSE],
+  ['\n', NEWLINE],
+  ['-0123456789', NUMBER],
+  ['tfn', LITERAL],
+] as const) {
+  for (const char of chars) {
+    KINDS[char.charCodeAt(0)] = kind;
+  }
+}
+
+const BACKSLASH = 0x5c;
+const COLON = 0x3a;
+
+// The index of the quote closing the string opened at `open`, or the end of
+// the input for an unterminated string
+function closingQuote(input: string, open: number): number {
+  let close = input.indexOf('"', open + 1);
+  while (close !== -1) {
+    let backslashes = 0;
+    while (input.charCodeAt(close - 1 - backslashes) === BACKSLASH) {
+      backslashes++;
+    }
+    if (backslashes % 2 === 0) {
+      return close;
+    }
+    close = input.indexOf('"', close + 1);
+  }
+  return input.length;
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+// Digits, '.', 'e', 'E', '+' and '-'
+function isNumberPart(code: number): boolean {
+  return (
+    (code >= 0x30 && code <= 0x39) ||
+    code === 0x2e ||
+    code === 0x65 ||
+    code === 0x45 ||
+    code === 0x2b ||
+    code === 0x2d
+  );
+}
+
+function isLetter(code: number): boolean {
+  return code >= 0x61 && code <= 0x7a;
+}
+
+export default ParseLimits;
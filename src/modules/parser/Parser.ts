@@ -3,65 +3,109 @@
  */
 
 import {
+  CSTNode,
+  DecodedInput,
+  EditOptions,
+  EditPath,
+  FromSchema,
+  InputEncoding,
+  JSONInput,
+  JSONSchema,
   JSONValue,
+  LineDestination,
+  LocatedParseResult,
+  LineResult,
+  LinesOptions,
+  LineWriterOptions,
+  LosslessJSONValue,
+  LosslessParseOptions,
   ParseOptions,
-  ParseResult
+  ParseResult,
+  SequenceOptions,
+  SequenceResult,
+  SourceChange,
+  StreamingParserOptions,
+  StreamSource,
+  TextEdit,
+  TolerantParseResult,
+  TypedParseResult
 } from '../../core/types';
 
-import { JSONParseError } from '../../core/errors';
+import { JSONParseError, JSONValidationError } from '../../core/errors';
+import { decodeInput } from './Encoding';
+import { ParsePipeline, defaultPipeline, recoveryStages } from './Pipeline';
+import { StreamingParser } from './StreamingParser';
+import { readChunks } from './StreamSource';
+import { readLines, writeLines } from './NDJSON';
+import { readConcatenated, readSequence } from './JSONSequence';
+import { parseCST, printCST } from './CST';
+import { reparseCST } from './Incremental';
+import { applyEdits, editJSON, insertJSON, removeJSON } from './Edit';
+import { SyntaxIssue, parseTolerant } from './TolerantParser';
+import { validateSchema } from '../validator/Schema';
 
 export class Parser {
   /**
-   * Safe JSON parsing with detailed error information
+   * The stages every parse runs through, shared with JSONMan.parse. Add a
+   * stage with `Parser.pipeline.use(stage, placement)`.
    */
-  static safe(input: string, options: ParseOptions = {}): ParseResult<JSONValue> {
-    try {
-      let text = input;
-      
-      // Handle non-strict mode
-      if (options.strict === false) {
-        // Remove comments if allowed
-        if (options.allowComments) {
-          text = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
-        }
-        
-        // Handle trailing commas if allowed
-        if (options.allowTrailingCommas) {
-          text = text.replace(/,(\s*[}\]])/g, '$1');
-        }
-      }
-      
-      const data = JSON.parse(text, options.reviver);
-      return {
-        success: true,
-        data
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: new JSONParseError(
-          `JSON Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          { cause: error as Error }
-        )
-      };
-    }
+  static readonly pipeline: ParsePipeline = defaultPipeline;
+
+  /**
+   * Safe JSON parsing with detailed error information.
+   * Use `mode: 'jsonc' | 'json5'` or the individual allow* flags to accept
+   * comments, trailing commas and the rest of the JSON5 grammar.
+   * Set `duplicateKeys` to detect keys repeated within an object.
+   * With `numbers: 'bigint'` or `'decimal-wrapper'` the data may hold BigInt
+   * and JSONDecimal values, and is typed to say so.
+   * Bytes (Uint8Array or Buffer) are decoded first; see `encoding`.
+   */
+  static safe(input: JSONInput, options: LosslessParseOptions): ParseResult<LosslessJSONValue>;
+  static safe(input: JSONInput, options?: ParseOptions): ParseResult<JSONValue>;
+  static safe(input: JSONInput, options: ParseOptions = {}): ParseResult<LosslessJSONValue> {
+    return Parser.pipeline.parse(input, options);
   }
 
   /**
-   * Type-safe JSON parsing with validation
+   * Decode bytes into text, detecting UTF-8, UTF-16 or UTF-32 from a byte
+   * order mark or the null bytes around the first characters. Throws a
+   * JSONEncodingError with the offset of the first invalid byte.
    */
+  static decode(input: JSONInput, encoding?: InputEncoding): DecodedInput {
+    return decodeInput(input, encoding);
+  }
+
+  /**
+   * Type-safe JSON parsing with validation. Pass a JSON Schema to have the
+   * result typed from it (declare the schema `as const` when it is not
+   * written inline); on a mismatch the error is a JSONValidationError and
+   * `errors` lists every path that failed. A type guard function works too.
+   */
+  static typed<const S extends JSONSchema>(
+    input: JSONInput,
+    schema: S,
+    options?: ParseOptions
+  ): TypedParseResult<FromSchema<S>>;
   static typed<T extends JSONValue>(
-    input: string,
+    input: JSONInput,
     validator?: (data: JSONValue) => data is T,
     options?: ParseOptions
-  ): ParseResult<T> {
+  ): TypedParseResult<T>;
+  static typed(
+    input: JSONInput,
+    check?: JSONSchema | ((data: JSONValue) => boolean),
+    options?: ParseOptions
+  ): TypedParseResult<JSONValue> {
     const result = Parser.safe(input, options);
     
-    if (!result.success) {
-      return result as ParseResult<T>;
+    if (!result.success || check === undefined || result.data === undefined) {
+      return result;
     }
 
-    if (validator && result.data !== undefined && !validator(result.data)) {
+    if (typeof check === 'function') {
+      if (check(result.data)) {
+        return result;
+      }
       return {
         success: false,
         error: new JSONParseError(
@@ -71,7 +115,193 @@ export class Parser {
       };
     }
 
-    return result as ParseResult<T>;
+    const errors = validateSchema(result.data, check);
+    const [first] = errors;
+    if (!first) {
+      return result;
+    }
+    const details = errors.map(error => `${error.path || 'the root'}: ${error.message}`);
+    return {
+      success: false,
+      error: new JSONValidationError(
+        `Parsed data does not match the schema: ${details.join('; ')}`,
+        first.path,
+        { value: first.value, expected: first.expected, suggestions: ['Check the data against the schema'] }
+      ),
+      errors
+    };
+  }
+
+  /**
+   * Stream a large document and yield each value matching a JSONPath pattern
+   * such as `$.items[*]`. Everything outside the matches is skipped without
+   * being built, so memory stays flat however large the source is.
+   */
+  static async *streamSelect(
+    source: StreamSource,
+    pattern: string,
+    options: StreamingParserOptions = {}
+  ): AsyncGenerator<JSONValue, void, undefined> {
+    const matches: JSONValue[] = [];
+    const parser = new StreamingParser({ ...options, select: pattern }).collect(value => {
+      matches.push(value);
+    });
+
+    for await (const chunk of readChunks(source)) {
+      parser.write(chunk);
+      yield* matches.splice(0);
+    }
+
+    parser.end();
+    yield* matches.splice(0);
+  }
+
+  /**
+   * Read NDJSON / JSON Lines from a string, byte array, Node stream, async
+   * iterable or ReadableStream, yielding `{ line, value }` or `{ line, error }`
+   * for every non-blank line
+   */
+  static lines(source: StreamSource, options?: LinesOptions): AsyncGenerator<LineResult, void, undefined> {
+    return readLines(source, options);
+  }
+
+  /**
+   * Write values as NDJSON to a Node Writable or WritableStream, honouring backpressure
+   */
+  static writeLines(
+    values: Iterable<JSONValue> | AsyncIterable<JSONValue>,
+    destination: LineDestination,
+    options?: LineWriterOptions
+  ): Promise<number> {
+    return writeLines(values, destination, options);
+  }
+
+  /**
+   * Read concatenated JSON values (`{}{}[]`, `1 2 3`), yielding each value
+   * or error with the UTF-8 byte offsets it occupies in the source
+   */
+  static concatenated(source: StreamSource, options?: SequenceOptions): AsyncGenerator<SequenceResult, void, undefined> {
+    return readConcatenated(source, options);
+  }
+
+  /**
+   * Read an RFC 7464 JSON text sequence (each record starts with 0x1E and
+   * ends with a line feed), yielding each value or error with its byte offsets
+   */
+  static sequence(source: StreamSource, options?: SequenceOptions): AsyncGenerator<SequenceResult, void, undefined> {
+    return readSequence(source, options);
+  }
+
+  /**
+   * Parse with error recovery, the way an editor does: returns a best-effort
+   * value together with every syntax error, each with its exact position and
+   * a suggested fix. `success` is true only when there are no errors.
+   * Grammar extensions not enabled by the options are reported, not rejected.
+   */
+  static tolerant(input: string, options: ParseOptions = {}): TolerantParseResult {
+    try {
+      const { data, issues } = parseTolerant(input, options);
+      const errors = issues.map(issue => issue.error);
+      return errors.length === 0
+        ? { success: true, data, errors }
+        : { success: false, data, error: errors[0]!, errors };
+    } catch (error) {
+      if (error instanceof JSONParseError) {
+        return { success: false, error, errors: [error] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse into a lossless concrete syntax tree: object, array, property and
+   * value nodes with their tokens, whitespace and comments as children, each
+   * carrying its source range. Pass `mode: 'jsonc'` to keep comments.
+   */
+  static cst(input: string, options: ParseOptions = {}): ParseResult<CSTNode> {
+    try {
+      const { tree, warnings } = parseCST(input, options);
+      return {
+        success: true,
+        data: tree,
+        ...(warnings.length > 0 && { warnings })
+      };
+    } catch (error) {
+      if (error instanceof JSONParseError) {
+        return { success: false, error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a text change `{ offset, deleteCount, insertText }` to a tree from
+   * cst() and re-parse only the smallest value enclosing it. The tree is
+   * updated in place; nodes outside the change keep their identity and only
+   * have their positions moved. On failure the tree is left untouched.
+   */
+  static reparse(tree: CSTNode, change: SourceChange, options: ParseOptions = {}): ParseResult<CSTNode> {
+    try {
+      return { success: true, data: reparseCST(tree, change, options) };
+    } catch (error) {
+      if (error instanceof JSONParseError) {
+        return { success: false, error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse and also return where every value sits in the source, keyed by
+   * JSON Pointer: `{ start, end }` for the value plus `keyStart`/`keyEnd`
+   * for object members, each with line, column and index. Locations are
+   * recorded in the same pass as the data, so they describe the values it
+   * holds: keys dropped by `secure` have none, and with `duplicateKeys:
+   * 'collect'` each collected value is located by its index.
+   */
+  static withLocations(input: string, options: LosslessParseOptions): LocatedParseResult<LosslessJSONValue>;
+  static withLocations(input: string, options?: ParseOptions): LocatedParseResult;
+  static withLocations(input: string, options: ParseOptions = {}): LocatedParseResult<LosslessJSONValue> {
+    return Parser.pipeline.locate(input, options);
+  }
+
+  /**
+   * Print a syntax tree (or any node of it) back to text. An unmodified
+   * document prints back identical to the input it was parsed from.
+   */
+  static print(node: CSTNode): string {
+    return printCST(node);
+  }
+
+  /**
+   * Compute the text edits that set the value at a path, keeping comments,
+   * indentation and trailing commas intact. Missing members and parent
+   * objects are added. Sources are read as JSONC unless `mode` says otherwise.
+   * Throws a JSONParseError for invalid source.
+   */
+  static edit(source: string, path: EditPath, value: JSONValue, options?: EditOptions): TextEdit[] {
+    return editJSON(source, path, value, options);
+  }
+
+  /**
+   * Compute the text edits that remove the member or element at a path
+   */
+  static remove(source: string, path: EditPath, options?: EditOptions): TextEdit[] {
+    return removeJSON(source, path, options);
+  }
+
+  /**
+   * Compute the text edits that insert a value into the array at a path
+   */
+  static insert(source: string, path: EditPath, index: number, value: JSONValue, options?: EditOptions): TextEdit[] {
+    return insertJSON(source, path, index, value, options);
+  }
+
+  /**
+   * Apply the edits returned by edit, remove or insert
+   */
+  static applyEdits(source: string, edits: TextEdit[]): string {
+    return applyEdits(source, edits);
   }
 
   /**
@@ -147,7 +377,9 @@ export class Parser {
   }
 
   /**
-   * Parse with error recovery
+   * Parse with error recovery: when the input does not parse, retry with
+   * text repairs for single quotes, trailing commas, unquoted keys,
+   * undefined values and comments placed ahead of the usual stages
    */
   static withRecovery(jsonString: string, options?: ParseOptions): ParseResult<JSONValue> & { recovered: boolean; fixesApplied: string[] } {
     // First try normal parsing
@@ -161,38 +393,12 @@ export class Parser {
     }
 
     const fixesApplied: string[] = [];
-    let text = jsonString;
-
-    // Apply common fixes
-    if (text.includes("'")) {
-      text = text.replace(/'/g, '"');
-      fixesApplied.push('Fix single quotes');
-    }
-
-    if (text.includes(',}') || text.includes(',]')) {
-      text = text.replace(/,(\s*[}\]])/g, '$1');
-      fixesApplied.push('Remove trailing commas');
-    }
-
-    // Quote unquoted keys
-    if (/{\s*[a-zA-Z_$][a-zA-Z0-9_$]*\s*:/.test(text)) {
-      text = text.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":');
-      fixesApplied.push('Quote unquoted keys');
-    }
-
-    // Fix undefined values
-    if (text.includes('undefined')) {
-      text = text.replace(/:\s*undefined/g, ': null');
-      fixesApplied.push('Fix undefined values');
+    const pipeline = Parser.pipeline.clone();
+    for (const stage of recoveryStages(fixesApplied)) {
+      pipeline.use(stage, { before: 'leniency' });
     }
 
-    // Remove comments
-    if (text.includes('//') || text.includes('/*')) {
-      text = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
-      fixesApplied.push('Remove comments');
-    }
-
-    const recoveredResult = Parser.safe(text, options);
+    const recoveredResult = pipeline.parse(jsonString, options);
     return {
       ...recoveredResult,
       recovered: recoveredResult.success,
@@ -203,53 +409,39 @@ export class Parser {
   /**
    * Diagnose JSON syntax issues
    */
-  static diagnose(jsonString: string): { isValid: boolean; errors: Array<{ type: string; message: string; suggestion: string }> } {
-    const result = Parser.safe(jsonString);
+  static diagnose(jsonString: string): { isValid: boolean; errors: Array<{ type: string; message: string; suggestion: string; line?: number; column?: number }> } {
+    const result = Parser.safe(jsonString, { duplicateKeys: 'last' });
     if (result.success) {
-      return { isValid: true, errors: [] };
+      // Duplicate keys parse, but only the last value survives
+      const duplicates = (result.duplicates ?? []).map(({ key, path, first, duplicate }) => ({
+        type: 'key',
+        message: `Duplicate key "${key}" at ${path}, first defined at line ${first.line}, column ${first.column}`,
+        suggestion: 'Remove or rename one of the duplicate keys',
+        line: duplicate.line,
+        column: duplicate.column,
+      }));
+      return { isValid: duplicates.length === 0, errors: duplicates };
     }
 
-    const errors: Array<{ type: string; message: string; suggestion: string }> = [];
-
-    // Check for common issues
-    const issues = [
-      {
-        pattern: /'/g,
-        type: 'quote',
-        message: 'Single quotes found',
-        suggestion: 'Use double quotes instead',
-      },
-      {
-        pattern: /,(\s*[}\]])/g,
-        type: 'comma',
-        message: 'Trailing comma found',
-        suggestion: 'Remove trailing commas',
-      },
-      {
-        pattern: /([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g,
-        type: 'key',
-        message: 'Unquoted key found',
-        suggestion: 'Quote all object keys',
-      },
-      {
-        pattern: /:\s*undefined/g,
-        type: 'value',
-        message: 'undefined value found',
-        suggestion: 'Use null instead of undefined',
-      },
-    ];
-
-    for (const issue of issues) {
-      const matches = Array.from(jsonString.matchAll(issue.pattern));
-      for (const _match of matches) {
-        errors.push({
-          type: issue.type,
-          message: issue.message,
-          suggestion: issue.suggestion,
-        });
+    // Report every syntax error, not just the first
+    let issues: SyntaxIssue[];
+    try {
+      issues = parseTolerant(jsonString).issues;
+    } catch (error) {
+      // Size, depth and node limits stop the tolerant parser too
+      if (!(error instanceof JSONParseError)) {
+        throw error;
       }
+      issues = [{ type: 'syntax', error }];
     }
 
+    const errors = issues.map(({ type, error }) => ({
+      type,
+      message: error.message,
+      suggestion: error.suggestions?.[0] ?? 'Check the JSON syntax near this position',
+      ...(error.position && { line: error.position.line, column: error.position.column }),
+    }));
+
     return { isValid: false, errors };
   }
 }
@@ -0,0 +1,82 @@
+/**
+ * Compiled JSONPath patterns for matching paths during streaming
+ */
+
+import { JSONSearchError } from '../../core/errors';
+
+// null stands for a wildcard segment
+type PatternSegment = string | number | null;
+
+/**
+ * A JSONPath made of child and index steps, with `*` wildcards:
+ * `$`, `$.items[*]`, `$.users[0].name`, `$['odd key'].*`.
+ * Recursive descent and filters are not supported.
+ */
+export class PathPattern {
+  private constructor(
+    readonly source: string,
+    private readonly segments: PatternSegment[]
+  ) {}
+
+  /**
+   * Compile a pattern, throwing a JSONSearchError when it is not supported
+   */
+  static parse(pattern: string): PathPattern {
+    const segments: PatternSegment[] = [];
+    const invalid = (index: number): JSONSearchError =>
+      new JSONSearchError(`Invalid path pattern '${pattern}' at index ${index}`, pattern, 'path', {
+        suggestions: ["Use child and index steps such as $.items[*].id or $['key'][0]"],
+      });
+
+    if (pattern[0] !== '$') {
+      throw invalid(0);
+    }
+
+    let index = 1;
+    while (index < pattern.length) {
+      const rest = pattern.slice(index);
+      const match =
+        /^\.([A-Za-z_$][A-Za-z0-9_$]*|\*)/.exec(rest) ??
+        /^\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/.exec(rest);
+
+      if (!match) {
+        throw invalid(index);
+      }
+
+      const step = match[1]!;
+      if (step === '*') {
+        segments.push(null);
+      } else if (/^\d+$/.test(step) && rest[0] === '[') {
+        segments.push(Number(step));
+      } else if (step[0] === '"') {
+        segments.push(JSON.parse(step) as string);
+      } else if (step[0] === "'") {
+        segments.push(step.slice(1, -1).replace(/\\(.)/g, '$1'));
+      } else {
+        segments.push(step);
+      }
+      index += match[0].length;
+    }
+
+    return new PathPattern(pattern, segments);
+  }
+
+  /**
+   * Number of steps below the root
+   */
+  get length(): number {
+    return this.segments.length;
+  }
+
+  /**
+   * Whether a path (as segments below the root) matches the pattern exactly
+   */
+  matches(path: ReadonlyArray<string | number>): boolean {
+    return (
+      path.length === this.segments.length &&
+      this.segments.every((segment, i) => segment === null || segment === path[i])
+    );
+  }
+}
+
+export default PathPattern;
@@ -0,0 +1,360 @@
+/**
+ * The staged parse shared by Parser.safe, Parser.withRecovery, JSONMan.parse
+ * and the chainable parse()
+ */
+
+import {
+  DuplicateKey,
+  JSONInput,
+  JSONValue,
+  LocatedParseResult,
+  LosslessJSONValue,
+  LosslessParseOptions,
+  ParseContext,
+  ParseOptions,
+  ParseResult,
+  ParseStage,
+  SourceLocation,
+  StagePlacement,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { hasUnsafeKeys, losesPrecision } from '../../utils/helpers';
+import {
+  DescentParser,
+  applyReviver,
+  explainSyntaxError,
+  isLenient,
+  resolveSyntax,
+} from './DescentParser';
+import { decodeInput } from './Encoding';
+import { ParseLimits } from './ParseLimits';
+
+/**
+ * Result of ParsePipeline.run
+ */
+export interface PipelineResult<T = JSONValue> {
+  data: T;
+  warnings: string[];
+  duplicates: DuplicateKey[];
+}
+
+/**
+ * Resolve `mode`, `strict` and the allow* flags into the grammar the parse
+ * stage accepts, so comments, trailing commas and the rest of JSON5 are
+ * handled by the tokenizer rather than by rewriting the text
+ */
+const leniency: ParseStage = {
+  name: 'leniency',
+  run: context => {
+    context.syntax = resolveSyntax(context.options);
+  },
+};
+
+/**
+ * Reject oversized input before any value is built. Plain JSON is scanned
+ * for the depth and value limits here as well, because JSON.parse cannot be
+ * interrupted once it starts; the descent parser applies them as it goes.
+ */
+const limits: ParseStage = {
+  name: 'limits',
+  run: context => {
+    const limits = new ParseLimits(context.text, context.options);
+    limits.checkSize();
+    if (usesNativeParser(context)) {
+      limits.scan();
+    }
+    context.warnings.push(...limits.warnings);
+  },
+};
+
+/**
+ * Parse with the native parser, falling back to the descent parser to
+ * explain failures. Lenient grammars are read by the descent parser alone.
+ * Throws a positioned JSONParseError for invalid input.
+ */
+const parse: ParseStage = {
+  name: 'parse',
+  run: context => {
+    const { text, options } = context;
+    const unsafeKeys = options.secure === 'error' ? 'error' : options.secure ? 'strip' : undefined;
+    const descend = (reportLimits: boolean): LosslessJSONValue => {
+      const limits = new ParseLimits(text, options);
+      const parser = new DescentParser(text, {
+        syntax: context.syntax,
+        limits,
+        ...(unsafeKeys && { unsafeKeys }),
+        ...(options.duplicateKeys && { duplicateKeys: options.duplicateKeys }),
+        ...(options.numbers && { numbers: options.numbers }),
+        ...(context.locations && { locations: context.locations }),
+      });
+      const data = parser.parse();
+      context.warnings.push(...(reportLimits ? limits.warnings : []), ...parser.warnings);
+      context.duplicates.push(...parser.duplicates);
+      return data;
+    };
+
+    if (!usesNativeParser(context)) {
+      context.data = descend(true);
+      return;
+    }
+
+    let data: JSONValue;
+    try {
+      data = JSON.parse(text) as JSONValue;
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      throw explainSyntaxError(text, error);
+    }
+
+    // Unsafe keys and numbers that lose precision are rare, so only re-read
+    // the input to report them when one is present. The limits stage has
+    // already reported on this text.
+    context.data =
+      (unsafeKeys && hasUnsafeKeys(data)) || hasInexactNumbers(text) ? descend(false) : data;
+  },
+};
+
+const revival: ParseStage = {
+  name: 'revival',
+  run: context => {
+    if (context.options.reviver && context.data !== undefined) {
+      context.data = applyReviver(context.data, context.options.reviver);
+    }
+  },
+};
+
+const BUILTIN_STAGES: readonly ParseStage[] = [leniency, limits, parse, revival];
+
+/**
+ * An ordered list of stages that turn input into a value. The built-in
+ * stages are 'leniency', 'limits', 'parse' and 'revival'. Stages of your own
+ * can be placed anywhere around them; the built-ins cannot be removed.
+ */
+export class ParsePipeline {
+  private readonly stages: ParseStage[] = [...BUILTIN_STAGES];
+
+  /**
+   * Stage names in the order they run
+   */
+  names(): string[] {
+    return this.stages.map(stage => stage.name);
+  }
+
+  /**
+   * Add a stage. By default it runs first, before 'leniency', which suits
+   * stages that rewrite the text: 'limits' then sees the final text. Use
+   * `{ after: 'parse' }` to work on the parsed data.
+   */
+  use(stage: ParseStage, placement: StagePlacement = { before: 'leniency' }): this {
+    if (this.stages.some(existing => existing.name === stage.name)) {
+      throw new JSONParseError(`A parse stage named '${stage.name}' is already registered`, {
+        suggestions: ['Remove the existing stage first, or give this one another name'],
+      });
+    }
+
+    const anchor = 'before' in placement ? placement.before : placement.after;
+    const index = this.stages.findIndex(existing => existing.name === anchor);
+    if (index === -1) {
+      throw new JSONParseError(
+        `Cannot place '${stage.name}': there is no stage named '${anchor}'`,
+        {
+          suggestions: [`Place it relative to one of: ${this.names().join(', ')}`],
+        }
+      );
+    }
+
+    this.stages.splice('before' in placement ? index : index + 1, 0, stage);
+    return this;
+  }
+
+  /**
+   * Remove a stage added with use(). Returns false when there was none by
+   * that name.
+   */
+  remove(name: string): boolean {
+    if (BUILTIN_STAGES.some(stage => stage.name === name)) {
+      throw new JSONParseError(`The built-in '${name}' stage cannot be removed`);
+    }
+    const index = this.stages.findIndex(stage => stage.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.stages.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * A copy with the same stages, for adding stages to a single call
+   */
+  clone(): ParsePipeline {
+    const copy = new ParsePipeline();
+    copy.stages.splice(0, copy.stages.length, ...this.stages);
+    return copy;
+  }
+
+  /**
+   * Run every stage over the input. Bytes are decoded first. Throws a
+   * JSONParseError for invalid input; errors thrown by stages pass through.
+   */
+  run(input: JSONInput, options: LosslessParseOptions): PipelineResult<LosslessJSONValue>;
+  run(input: JSONInput, options?: ParseOptions): PipelineResult;
+  run(input: JSONInput, options: ParseOptions = {}): PipelineResult<LosslessJSONValue> {
+    return this.execute(input, options);
+  }
+
+  /**
+   * run, with errors returned rather than thrown
+   */
+  parse(input: JSONInput, options: LosslessParseOptions): ParseResult<LosslessJSONValue>;
+  parse(input: JSONInput, options?: ParseOptions): ParseResult<JSONValue>;
+  parse(input: JSONInput, options: ParseOptions = {}): ParseResult<LosslessJSONValue> {
+    return settle(() => this.execute(input, options));
+  }
+
+  /**
+   * parse, also returning where every value of the data sits in the text,
+   * keyed by JSON Pointer. The locations are recorded by the 'parse' stage
+   * as it builds the data, so they follow `duplicateKeys` and `secure`.
+   */
+  locate(input: JSONInput, options: LosslessParseOptions): LocatedParseResult<LosslessJSONValue>;
+  locate(input: JSONInput, options?: ParseOptions): LocatedParseResult;
+  locate(input: JSONInput, options: ParseOptions = {}): LocatedParseResult<LosslessJSONValue> {
+    const locations: Record<string, SourceLocation> = {};
+    const result = settle(() => this.execute(input, options, locations));
+    return result.success ? { ...result, locations } : result;
+  }
+
+  private execute(
+    input: JSONInput,
+    options: ParseOptions,
+    locations?: Record<string, SourceLocation>
+  ): PipelineResult<LosslessJSONValue> {
+    const context: ParseContext = {
+      text: decodeInput(input, options.encoding).text,
+      options: { ...options },
+      syntax: {},
+      warnings: [],
+      duplicates: [],
+      ...(locations && { locations }),
+    };
+
+    for (const stage of this.stages) {
+      stage.run(context);
+    }
+
+    return {
+      data: context.data as LosslessJSONValue,
+      warnings: context.warnings,
+      duplicates: context.duplicates,
+    };
+  }
+}
+
+/**
+ * The pipeline behind Parser.safe and JSONMan.parse; stages added to it
+ * apply to every parse
+ */
+export const defaultPipeline = new ParsePipeline();
+
+/**
+ * Text repairs tried by Parser.withRecovery, in order. Each records the fix
+ * it made in `fixes`.
+ */
+export function recoveryStages(fixes: string[]): ParseStage[] {
+  const repair = (
+    name: string,
+    fix: string,
+    applies: (text: string) => boolean,
+    apply: (text: string) => string
+  ): ParseStage => ({
+    name,
+    run: context => {
+      if (applies(context.text)) {
+        context.text = apply(context.text);
+        fixes.push(fix);
+      }
+    },
+  });
+
+  return [
+    repair(
+      'single-quotes',
+      'Fix single quotes',
+      text => text.includes("'"),
+      text => text.replace(/'/g, '"')
+    ),
+    repair(
+      'trailing-commas',
+      'Remove trailing commas',
+      text => text.includes(',}') || text.includes(',]'),
+      text => text.replace(/,(\s*[}\]])/g, '$1')
+    ),
+    repair(
+      'unquoted-keys',
+      'Quote unquoted keys',
+      text => /{\s*[a-zA-Z_$][a-zA-Z0-9_$]*\s*:/.test(text),
+      text => text.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":')
+    ),
+    repair(
+      'undefined-values',
+      'Fix undefined values',
+      text => text.includes('undefined'),
+      text => text.replace(/:\s*undefined/g, ': null')
+    ),
+    repair(
+      'comments',
+      'Remove comments',
+      text => text.includes('//') || text.includes('/*'),
+      text => text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '')
+    ),
+  ];
+}
+
+// Run a pipeline, with errors returned rather than thrown
+function settle(run: () => PipelineResult<LosslessJSONValue>): ParseResult<LosslessJSONValue> {
+  try {
+    const { data, warnings, duplicates } = run();
+    return {
+      success: true,
+      data,
+      ...(warnings.length > 0 && { warnings }),
+      ...(duplicates.length > 0 && { duplicates }),
+    };
+  } catch (error) {
+    if (error instanceof JSONParseError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new JSONParseError(
+        `JSON Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error as Error }
+      ),
+    };
+  }
+}
+
+// JSON.parse cannot see duplicate keys, number text or where values are, so
+// those options and source locations need the descent parser
+function usesNativeParser({ syntax, options, locations }: ParseContext): boolean {
+  return !isLenient(syntax) && !options.duplicateKeys && !options.numbers && !locations;
+}
+
+// Whether plain JSON text has a number literal that JSON.parse rounds. Only
+// literals with an exponent or more than 15 digits can, so most text is
+// ruled out by one search.
+function hasInexactNumbers(text: string): boolean {
+  if (!/[\d.]{16}|\d[eE]/.test(text)) {
+    return false;
+  }
+  for (const [token] of text.matchAll(/"[^"\\]*(?:\\.[^"\\]*)*"|-?\d[\d.eE+-]*/g)) {
+    if (token[0] !== '"' && losesPrecision(token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export default ParsePipeline;
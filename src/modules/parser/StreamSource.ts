@@ -0,0 +1,40 @@
+/**
+ * Uniform chunk reading for the stream-based parsers
+ */
+
+import { StreamChunk, StreamSource } from '../../core/types';
+
+/**
+ * Read a source chunk by chunk. Strings and byte arrays are a single chunk;
+ * iterables, async iterables (including Node Readable streams) and WHATWG
+ * ReadableStreams are read as they arrive.
+ */
+export async function* readChunks(
+  source: StreamSource
+): AsyncGenerator<StreamChunk, void, undefined> {
+  if (typeof source === 'string' || source instanceof Uint8Array) {
+    yield source;
+    return;
+  }
+
+  if (isReadableStream(source)) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  yield* source;
+}
+
+function isReadableStream(source: StreamSource): source is ReadableStream<StreamChunk> {
+  return typeof (source as ReadableStream).getReader === 'function';
+}
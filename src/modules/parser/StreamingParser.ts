@@ -0,0 +1,473 @@
+/**
+ * Event-based JSON parser that consumes input in chunks
+ */
+
+import {
+  ERROR_CODES,
+  JSONArray,
+  JSONObject,
+  JSONValue,
+  SourcePosition,
+  StreamEvent,
+  StreamEventType,
+  StreamListener,
+  StreamingParserOptions,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { PERFORMANCE_LIMITS } from '../../utils/constants';
+import { ESCAPES, JSON_NUMBER } from './Tokenizer';
+import { PathPattern } from './PathPattern';
+import { setProperty } from './DescentParser';
+import { UTF8StreamDecoder } from './Encoding';
+
+// What the parser accepts next, outside of a string, number or literal
+type Expect = 'value' | 'firstValue' | 'key' | 'firstKey' | 'colon' | 'comma' | 'end';
+
+const LITERALS: { [start: string]: [string, JSONValue] } = {
+  t: ['true', true],
+  f: ['false', false],
+  n: ['null', null],
+};
+
+const NUMBER_PART = /[0-9eE.+-]/;
+
+/**
+ * Parses JSON incrementally and reports its structure as events instead of
+ * building values. Chunks may split the input anywhere, including inside
+ * strings, escape sequences and multi-byte UTF-8 characters, so memory use
+ * depends on nesting depth and the longest string rather than input size.
+ *
+ * ```typescript
+ * const parser = new StreamingParser();
+ * parser.on('value', event => console.log(formatJSONPath(event.path), event.value));
+ * parser.write(chunk); // as many times as needed
+ * parser.end();
+ * ```
+ */
+export class StreamingParser {
+  private readonly listeners: { [type in StreamEventType]?: StreamListener[] } = {};
+  private readonly decoder = new UTF8StreamDecoder();
+  private readonly maxDepth: number;
+  private readonly path: Array<string | number> = [];
+  private readonly containers: Array<'object' | 'array'> = [];
+  private readonly pattern: PathPattern | undefined;
+
+  private expect: Expect = 'value';
+  private token: 'none' | 'string' | 'number' | 'literal' = 'none';
+  private tokenStart: SourcePosition = { line: 1, column: 1, index: 0 };
+  private buffer = '';
+  private isKey = false;
+  private escape: 'none' | 'start' | 'unicode' = 'none';
+  private unicode = '';
+  private literal: [string, JSONValue] = ['', null];
+  // Whether the current string is kept; skipped strings are only validated
+  private capture = true;
+  // Inside a subtree matching `select`, which started at this container depth
+  private selected = false;
+  private selectionDepth = 0;
+
+  // Position of the start of the current chunk
+  private offset = 0;
+  private line = 1;
+  private lineStart = 0;
+
+  constructor(options: StreamingParserOptions = {}) {
+    this.maxDepth = options.maxDepth ?? PERFORMANCE_LIMITS.MAX_DEPTH;
+    this.pattern = options.select !== undefined ? PathPattern.parse(options.select) : undefined;
+  }
+
+  /**
+   * Register a listener for one event type
+   */
+  on(type: StreamEventType, listener: StreamListener): this {
+    (this.listeners[type] ??= []).push(listener);
+    return this;
+  }
+
+  /**
+   * Build complete values from the events and pass each one to `listener`:
+   * the whole document, or every subtree matching `select`. Objects and
+   * arrays are passed on once they are closed, with all their members.
+   */
+  collect(listener: (value: JSONValue, path: Array<string | number>) => void): this {
+    // Open containers, each with the key it will be stored under in its parent
+    const stack: Array<{ container: JSONObject | JSONArray; key: string }> = [];
+    let key = '';
+
+    const add = (value: JSONValue, path: Array<string | number>, name: string): void => {
+      const parent = stack[stack.length - 1]?.container;
+      if (!parent) {
+        listener(value, path);
+      } else if (Array.isArray(parent)) {
+        parent.push(value);
+      } else {
+        setProperty(parent, name, value);
+      }
+    };
+    const close = (event: StreamEvent): void => {
+      const { container, key: name } = stack.pop()!;
+      add(container, event.path, name);
+    };
+
+    return this.on('startObject', () => stack.push({ container: {}, key }))
+      .on('startArray', () => stack.push({ container: [], key }))
+      .on('key', event => {
+        key = event.key!;
+      })
+      .on('value', event => add(event.value!, event.path, key))
+      .on('endObject', close)
+      .on('endArray', close);
+  }
+
+  /**
+   * Feed the next chunk of input. Byte chunks are decoded as UTF-8, and
+   * invalid UTF-8 throws a JSONEncodingError with the offset of the bytes.
+   * Throws a positioned JSONParseError as soon as the input is invalid.
+   */
+  write(chunk: string | Uint8Array): this {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.decode(chunk);
+    this.process(text);
+    return this;
+  }
+
+  /**
+   * Signal the end of input, checking that the document is complete
+   */
+  end(): void {
+    this.process(this.decoder.decode());
+
+    if (this.token === 'number') {
+      this.finishNumber();
+    }
+
+    if (this.token === 'string') {
+      throw this.error('Unexpected end of input in unterminated string', this.position(0), ['"']);
+    }
+    if (this.token === 'literal') {
+      throw this.error(`Unexpected end of input in '${this.buffer}'`, this.position(0), [
+        `'${this.literal[0]}'`,
+      ]);
+    }
+    if (this.expect !== 'end') {
+      const expected = this.expected();
+      throw this.error(
+        `Unexpected end of input, expected ${expected.join(' or ')}`,
+        this.position(0),
+        expected
+      );
+    }
+
+    this.emit('end');
+  }
+
+  private process(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (this.token === 'string') {
+        i = this.readString(text, i);
+        continue;
+      }
+
+      if (this.token === 'number') {
+        if (NUMBER_PART.test(char)) {
+          this.buffer += char;
+          continue;
+        }
+        this.finishNumber();
+      } else if (this.token === 'literal') {
+        this.readLiteral(char);
+        continue;
+      }
+
+      this.structural(char, i);
+    }
+
+    this.offset += text.length;
+  }
+
+  private structural(char: string, i: number): void {
+    if (char === ' ' || char === '\t' || char === '\r') {
+      return;
+    }
+    if (char === '\n') {
+      this.line++;
+      this.lineStart = this.offset + i + 1;
+      return;
+    }
+
+    switch (this.expect) {
+      case 'firstValue':
+        if (char === ']') {
+          return this.close();
+        }
+        return this.startValue(char, i);
+      case 'value':
+        return this.startValue(char, i);
+      case 'firstKey':
+      case 'key':
+        if (char === '"') {
+          return this.startToken('string', i, true);
+        }
+        if (char === '}' && this.expect === 'firstKey') {
+          return this.close();
+        }
+        throw this.unexpected(char, i);
+      case 'colon':
+        if (char !== ':') {
+          throw this.unexpected(char, i);
+        }
+        this.expect = 'value';
+        return;
+      case 'comma':
+        if (char === ',') {
+          if (this.containers[this.containers.length - 1] === 'array') {
+            (this.path[this.path.length - 1] as number)++;
+            this.expect = 'value';
+          } else {
+            this.expect = 'key';
+          }
+          return;
+        }
+        if (char === (this.containers[this.containers.length - 1] === 'array' ? ']' : '}')) {
+          return this.close();
+        }
+        throw this.unexpected(char, i);
+      case 'end':
+        throw this.unexpected(char, i);
+    }
+  }
+
+  private startValue(char: string, i: number): void {
+    if (this.pattern && !this.selected && this.pattern.matches(this.path)) {
+      this.selected = true;
+      this.selectionDepth = this.containers.length;
+    }
+
+    if (char === '{' || char === '[') {
+      const type = char === '{' ? 'object' : 'array';
+      if (this.containers.length >= this.maxDepth) {
+        throw new JSONParseError(`Nesting depth exceeds the limit of ${this.maxDepth}`, {
+          position: this.position(i),
+          code: ERROR_CODES.DEPTH_EXCEEDED,
+          suggestions: ['Raise maxDepth if this input is trusted'],
+        });
+      }
+      this.emit(type === 'object' ? 'startObject' : 'startArray');
+      this.containers.push(type);
+      this.path.push(type === 'object' ? '' : 0);
+      this.expect = type === 'object' ? 'firstKey' : 'firstValue';
+      return;
+    }
+
+    if (char === '"') {
+      return this.startToken('string', i, false);
+    }
+
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      this.startToken('number', i, false);
+      this.buffer = char;
+      return;
+    }
+
+    const literal = LITERALS[char];
+    if (literal) {
+      this.startToken('literal', i, false);
+      this.literal = literal;
+      this.buffer = char;
+      return;
+    }
+
+    throw this.unexpected(char, i);
+  }
+
+  private startToken(token: 'string' | 'number' | 'literal', i: number, isKey: boolean): void {
+    this.token = token;
+    this.tokenStart = this.position(i);
+    this.isKey = isKey;
+    this.buffer = '';
+    // Keys are needed for matching down to the depth of the pattern
+    this.capture =
+      !this.pattern || this.selected || (isKey && this.containers.length <= this.pattern.length);
+  }
+
+  /**
+   * Consume string content from `i`, returning the index of the last character used
+   */
+  private readString(text: string, i: number): number {
+    let index = i;
+
+    while (index < text.length) {
+      const char = text[index]!;
+
+      if (this.escape === 'unicode') {
+        this.unicode += char;
+        if (this.unicode.length === 4) {
+          if (!/^[0-9a-fA-F]{4}$/.test(this.unicode)) {
+            throw this.error(
+              `Invalid unicode escape sequence '\\u${this.unicode}'`,
+              this.position(index - 5),
+              ['4 hex digits']
+            );
+          }
+          if (this.capture) {
+            this.buffer += String.fromCharCode(parseInt(this.unicode, 16));
+          }
+          this.escape = 'none';
+        }
+        index++;
+      } else if (this.escape === 'start') {
+        if (char === 'u') {
+          this.escape = 'unicode';
+          this.unicode = '';
+        } else {
+          const escaped = ESCAPES[char];
+          if (escaped === undefined) {
+            throw this.error(`Invalid escape sequence '\\${char}'`, this.position(index - 1), [
+              'escape sequence',
+            ]);
+          }
+          if (this.capture) {
+            this.buffer += escaped;
+          }
+          this.escape = 'none';
+        }
+        index++;
+      } else if (char === '"') {
+        this.finishString();
+        return index;
+      } else if (char === '\\') {
+        this.escape = 'start';
+        index++;
+      } else if (char < ' ') {
+        throw this.error(
+          `Unexpected control character ${JSON.stringify(char)} in string`,
+          this.position(index),
+          ['escaped character']
+        );
+      } else {
+        // Copy a run of plain characters at once
+        let end = index + 1;
+        while (end < text.length && text[end] !== '"' && text[end] !== '\\' && text[end]! >= ' ') {
+          end++;
+        }
+        if (this.capture) {
+          this.buffer += text.slice(index, end);
+        }
+        index = end;
+      }
+    }
+
+    return text.length - 1;
+  }
+
+  private readLiteral(char: string): void {
+    const [word, value] = this.literal;
+
+    if (char !== word[this.buffer.length]) {
+      throw this.error(`Unexpected token '${this.buffer + char}'`, this.tokenStart, [`'${word}'`]);
+    }
+
+    this.buffer += char;
+    if (this.buffer.length === word.length) {
+      this.token = 'none';
+      this.emitValue(value);
+    }
+  }
+
+  private finishString(): void {
+    const text = this.buffer;
+    this.token = 'none';
+    this.buffer = '';
+
+    if (this.isKey) {
+      this.path[this.path.length - 1] = text;
+      this.emit('key', { key: text });
+      this.expect = 'colon';
+    } else {
+      this.emitValue(text);
+    }
+  }
+
+  private finishNumber(): void {
+    const raw = this.buffer;
+    this.token = 'none';
+    this.buffer = '';
+
+    if (!JSON_NUMBER.test(raw)) {
+      throw this.error(`Invalid number '${raw}'`, this.tokenStart, ['number']);
+    }
+    this.emitValue(Number(raw));
+  }
+
+  private emitValue(value: JSONValue): void {
+    this.emit('value', { value });
+    this.afterValue();
+  }
+
+  private close(): void {
+    const type = this.containers.pop();
+    this.path.pop();
+    this.emit(type === 'object' ? 'endObject' : 'endArray');
+    this.afterValue();
+  }
+
+  private afterValue(): void {
+    this.expect = this.containers.length === 0 ? 'end' : 'comma';
+    if (this.selected && this.containers.length === this.selectionDepth) {
+      this.selected = false;
+    }
+  }
+
+  private emit(type: StreamEventType, data?: { key?: string; value?: JSONValue }): void {
+    const listeners = this.listeners[type];
+    if (!listeners || (this.pattern && !this.selected && type !== 'end')) {
+      return;
+    }
+
+    const event: StreamEvent = { type, path: [...this.path], ...data };
+    for (const listener of listeners) {
+      listener(event);
+    }
+  }
+
+  private expected(): string[] {
+    const closing = this.containers[this.containers.length - 1] === 'array' ? "']'" : "'}'";
+    switch (this.expect) {
+      case 'firstValue':
+        return ['value', "']'"];
+      case 'value':
+        return ['value'];
+      case 'firstKey':
+        return ['string key', "'}'"];
+      case 'key':
+        return ['string key'];
+      case 'colon':
+        return ["':'"];
+      case 'comma':
+        return ["','", closing];
+      case 'end':
+        return ['end of input'];
+    }
+  }
+
+  private unexpected(char: string, i: number): JSONParseError {
+    const expected = this.expected();
+    return this.error(
+      `Unexpected token '${char}', expected ${expected.join(' or ')}`,
+      this.position(i),
+      expected
+    );
+  }
+
+  private error(message: string, position: SourcePosition, expected: string[]): JSONParseError {
+    return new JSONParseError(message, { position, expected });
+  }
+
+  private position(i: number): SourcePosition {
+    const index = this.offset + i;
+    return { line: this.line, column: index - this.lineStart + 1, index };
+  }
+}
+
+export default StreamingParser;
@@ -0,0 +1,612 @@
+/**
+ * JSON tokenizer with exact source positions
+ */
+
+import {
+  SourcePosition,
+  SyntaxOptions,
+  Token,
+  TokenType,
+  Trivia,
+  TriviaType,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+
+const PUNCTUATION: { [char: string]: TokenType } = {
+  '{': 'beginObject',
+  '}': 'endObject',
+  '[': 'beginArray',
+  ']': 'endArray',
+  ':': 'colon',
+  ',': 'comma',
+};
+
+const LITERALS: { [word: string]: TokenType } = {
+  true: 'true',
+  false: 'false',
+  null: 'null',
+};
+
+export const ESCAPES: { [char: string]: string } = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+// Number literal of the plain JSON grammar
+export const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+export const LINE_TERMINATORS = ['\n', '\r', '\u2028', '\u2029'];
+
+// Whitespace JSON5 allows beyond that of JSON: \v, \f, the byte order mark,
+// the Unicode space separators other than the space itself and the line
+// terminators U+2028 and U+2029
+export const EXTENDED_WHITESPACE = /(?! )[\v\f\ufeff\u2028\u2029\p{Zs}]/u;
+
+const IDENTIFIER_START = /[\p{ID_Start}$_]/u;
+const IDENTIFIER_PART = /[\p{ID_Continue}$\u200c\u200d]/u;
+
+/**
+ * Whether a string is a valid ECMAScript identifier name, as accepted for unquoted keys
+ */
+export function isIdentifierName(text: string): boolean {
+  return (
+    text.length > 0 &&
+    IDENTIFIER_START.test(text[0]!) &&
+    Array.from(text.slice(1)).every(char => IDENTIFIER_PART.test(char))
+  );
+}
+
+/**
+ * Position reached after reading `offset` characters of `text` from `start`
+ */
+export function advancePosition(
+  start: SourcePosition,
+  text: string,
+  offset: number
+): SourcePosition {
+  let { line, column } = start;
+  for (let i = 0; i < offset; i++) {
+    if (text[i] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column, index: start.index + offset };
+}
+
+/**
+ * Describe a token or character for use in error messages
+ */
+export function describeToken(token: Token): string {
+  return token.type === 'eof' ? 'end of input' : `'${token.raw}'`;
+}
+
+/**
+ * Splits JSON text into tokens, tracking line, column and index for each one.
+ * Whitespace (and comments, when allowed) is skipped; any other character
+ * outside the enabled grammar raises a JSONParseError pointing at it.
+ *
+ * With an `onError` callback, errors are reported to it instead of thrown and
+ * the tokenizer carries on: stray characters are skipped, bad escapes are
+ * taken literally, unterminated strings end at the line break and malformed
+ * numbers keep the digits that were read.
+ */
+export class Tokenizer {
+  private index = 0;
+  private line = 1;
+  private lineStart = 0;
+  // Set while nextWithTrivia() collects the trivia it skips
+  private trivia: Trivia[] | undefined;
+
+  constructor(
+    private readonly input: string,
+    private readonly syntax: SyntaxOptions = {},
+    private readonly onError?: (error: JSONParseError) => void
+  ) {}
+
+  /**
+   * Current position of the tokenizer
+   */
+  position(): SourcePosition {
+    return this.positionAt(this.index);
+  }
+
+  /**
+   * Read the next token, returning an `eof` token at the end of input
+   */
+  next(): Token {
+    // When recovering, unexpected characters and words are skipped one at a
+    // time until a token is found
+    for (;;) {
+      const token = this.read();
+      if (token) {
+        return token;
+      }
+    }
+  }
+
+  /**
+   * Read one token, or report and skip what cannot start one
+   */
+  private read(): Token | undefined {
+    this.skipTrivia();
+
+    const start = this.position();
+    const char = this.input[this.index];
+
+    if (char === undefined) {
+      return { type: 'eof', raw: '', start, end: start };
+    }
+
+    const punctuation = PUNCTUATION[char];
+    if (punctuation) {
+      this.index++;
+      return { type: punctuation, raw: char, start, end: this.position() };
+    }
+
+    if (char === '"' || (char === "'" && this.syntax.allowSingleQuotes)) {
+      return this.readString(start, char);
+    }
+
+    if (
+      char === '-' ||
+      (char >= '0' && char <= '9') ||
+      (char === '+' && this.syntax.allowLeadingPlus) ||
+      (char === '.' && this.syntax.allowLenientDecimals)
+    ) {
+      return this.readNumber(start);
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      return this.readWord(start);
+    }
+
+    const suggestions =
+      char === '/' && !this.syntax.allowComments
+        ? ["Comments are not allowed in JSON; enable allowComments or use mode 'jsonc'"]
+        : undefined;
+    this.fail(this.error(`Unexpected token '${char}'`, start, ['value'], suggestions));
+    this.index++;
+    return undefined;
+  }
+
+  /**
+   * Read the next token together with the whitespace and comments before it
+   */
+  nextWithTrivia(): { trivia: Trivia[]; token: Token } {
+    const trivia: Trivia[] = [];
+    this.trivia = trivia;
+    try {
+      return { trivia, token: this.next() };
+    } finally {
+      this.trivia = undefined;
+    }
+  }
+
+  /**
+   * Read all remaining tokens, including the final `eof` token
+   */
+  all(): Token[] {
+    const tokens: Token[] = [];
+    let token: Token;
+    do {
+      token = this.next();
+      tokens.push(token);
+    } while (token.type !== 'eof');
+    return tokens;
+  }
+
+  /**
+   * Build a JSONParseError for the given position
+   */
+  error(
+    message: string,
+    position: SourcePosition,
+    expected?: string[],
+    suggestions?: string[]
+  ): JSONParseError {
+    return JSONParseError.atPosition(message, this.input, position, {
+      ...(expected && { expected }),
+      ...(suggestions && { suggestions }),
+    });
+  }
+
+  private positionAt(index: number): SourcePosition {
+    return { line: this.line, column: index - this.lineStart + 1, index };
+  }
+
+  private newLine(): void {
+    // \r\n counts as a single line break
+    if (this.input[this.index] === '\r' && this.input[this.index + 1] === '\n') {
+      this.index++;
+    }
+    this.index++;
+    this.line++;
+    this.lineStart = this.index;
+  }
+
+  private skipTrivia(): void {
+    while (this.index < this.input.length) {
+      const start = this.position();
+      const char = this.input[this.index];
+      let type: TriviaType;
+
+      if (this.isWhitespace(char)) {
+        this.skipWhitespace();
+        type = 'whitespace';
+      } else if (this.atComment()) {
+        type = this.skipComment();
+      } else {
+        break;
+      }
+
+      this.trivia?.push({
+        type,
+        raw: this.input.slice(start.index, this.index),
+        start,
+        end: this.position(),
+      });
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.input.length) {
+      const char = this.input[this.index];
+      if (char === '\n') {
+        this.newLine();
+      } else if (this.isWhitespace(char)) {
+        this.index++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private isWhitespace(char: string | undefined): boolean {
+    return (
+      char === ' ' ||
+      char === '\n' ||
+      char === '\t' ||
+      char === '\r' ||
+      (char !== undefined &&
+        !!this.syntax.allowExtendedWhitespace &&
+        EXTENDED_WHITESPACE.test(char))
+    );
+  }
+
+  // A line comment ends at \n or \r, and with the JSON5 whitespace also at
+  // U+2028 and U+2029
+  private isLineEnd(char: string | undefined): boolean {
+    return (
+      char === '\n' ||
+      char === '\r' ||
+      ((char === '\u2028' || char === '\u2029') && !!this.syntax.allowExtendedWhitespace)
+    );
+  }
+
+  private atComment(): boolean {
+    const next = this.input[this.index + 1];
+    return (
+      this.input[this.index] === '/' &&
+      (next === '/' || next === '*') &&
+      !!this.syntax.allowComments
+    );
+  }
+
+  private skipComment(): TriviaType {
+    const start = this.position();
+    const next = this.input[this.index + 1];
+
+    if (next === '/') {
+      while (this.index < this.input.length && !this.isLineEnd(this.input[this.index])) {
+        this.index++;
+      }
+      return 'lineComment';
+    }
+
+    this.index += 2;
+    while (this.index < this.input.length) {
+      if (this.input[this.index] === '*' && this.input[this.index + 1] === '/') {
+        this.index += 2;
+        return 'blockComment';
+      }
+      if (this.input[this.index] === '\n') {
+        this.newLine();
+      } else {
+        this.index++;
+      }
+    }
+    this.fail(this.error('Unexpected end of input in unterminated block comment', start, ['*/']));
+    return 'blockComment';
+  }
+
+  private readString(start: SourcePosition, quote: string): Token {
+    let value = '';
+    this.index++; // opening quote
+
+    while (this.index < this.input.length) {
+      const char = this.input[this.index]!;
+
+      if (char === quote) {
+        this.index++;
+        return this.stringToken(start, value);
+      }
+
+      if (char === '\\') {
+        value += this.readEscape(quote);
+        continue;
+      }
+
+      if (char < ' ') {
+        this.fail(
+          this.error(
+            `Unexpected control character ${JSON.stringify(char)} in string`,
+            this.position(),
+            ['escaped character']
+          )
+        );
+        // A line break most likely means the closing quote is missing
+        if (char === '\n' || char === '\r') {
+          return this.stringToken(start, value);
+        }
+      }
+
+      value += char;
+      this.index++;
+    }
+
+    this.fail(
+      this.error('Unexpected end of input in unterminated string', this.position(), [quote])
+    );
+    return this.stringToken(start, value);
+  }
+
+  private stringToken(start: SourcePosition, value: string): Token {
+    const raw = this.input.slice(start.index, this.index);
+    return { type: 'string', raw, value, start, end: this.position() };
+  }
+
+  /**
+   * Throw an error, or hand it to onError so that tokenizing can continue
+   */
+  private fail(error: JSONParseError): void {
+    if (!this.onError) {
+      throw error;
+    }
+    this.onError(error);
+  }
+
+  private readEscape(quote: string): string {
+    const escapeStart = this.position();
+    const char = this.input[this.index + 1];
+
+    if (char === undefined) {
+      this.fail(
+        this.error('Unexpected end of input in escape sequence', escapeStart, ['escape sequence'])
+      );
+      this.index++;
+      return '';
+    }
+
+    const simple = ESCAPES[char];
+    if (simple !== undefined) {
+      this.index += 2;
+      return simple;
+    }
+
+    if (char === 'u') {
+      const hex = this.input.slice(this.index + 2, this.index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        return this.invalidEscape(`Invalid unicode escape sequence '\\u${hex}'`, escapeStart, [
+          '4 hex digits',
+        ]);
+      }
+      this.index += 6;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    if (char === quote) {
+      this.index += 2;
+      return char;
+    }
+
+    if (LINE_TERMINATORS.includes(char) && this.syntax.allowMultilineStrings) {
+      this.index++; // backslash
+      if (char === '\n' || (char === '\r' && this.input[this.index + 1] === '\n')) {
+        this.newLine();
+      } else {
+        this.index++;
+      }
+      return '';
+    }
+
+    if (this.syntax.allowExtendedEscapes) {
+      return this.readExtendedEscape(char, escapeStart);
+    }
+
+    return this.invalidEscape(`Invalid escape sequence '\\${char}'`, escapeStart, [
+      'escape sequence',
+    ]);
+  }
+
+  /**
+   * Report a bad escape; when recovering, its character is taken literally
+   */
+  private invalidEscape(message: string, escapeStart: SourcePosition, expected: string[]): string {
+    this.fail(this.error(message, escapeStart, expected));
+    const char = this.input[this.index + 1]!;
+    this.index += 2;
+    if (char === '\n') {
+      this.line++;
+      this.lineStart = this.index;
+    }
+    return char;
+  }
+
+  private readExtendedEscape(char: string, escapeStart: SourcePosition): string {
+    if (char === 'x') {
+      const hex = this.input.slice(this.index + 2, this.index + 4);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+        return this.invalidEscape(`Invalid hex escape sequence '\\x${hex}'`, escapeStart, [
+          '2 hex digits',
+        ]);
+      }
+      this.index += 4;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    if (char === '0' && !this.isDigit(this.input[this.index + 2])) {
+      this.index += 2;
+      return '\0';
+    }
+
+    if (this.isDigit(char) || LINE_TERMINATORS.includes(char)) {
+      return this.invalidEscape(`Invalid escape sequence '\\${char}'`, escapeStart, [
+        'escape sequence',
+      ]);
+    }
+
+    this.index += 2;
+    return char === 'v' ? '\v' : char;
+  }
+
+  private readNumber(start: SourcePosition): Token {
+    const input = this.input;
+    let sign = 1;
+
+    if (input[this.index] === '-' || input[this.index] === '+') {
+      sign = input[this.index] === '-' ? -1 : 1;
+      this.index++;
+    }
+
+    const char = input[this.index];
+
+    if (char !== undefined && IDENTIFIER_START.test(char) && this.syntax.allowSpecialNumbers) {
+      const word = this.readWord(this.position());
+      if (!word) {
+        return this.numberToken(start, NaN);
+      }
+      if (word.type !== 'number') {
+        this.fail(this.error(`Unexpected token '${word.raw}' in number`, word.start, ['digit']));
+        return this.numberToken(start, NaN);
+      }
+      return this.numberToken(start, sign * (word.value as number));
+    }
+
+    if (
+      char === '0' &&
+      (input[this.index + 1] === 'x' || input[this.index + 1] === 'X') &&
+      this.syntax.allowHexNumbers
+    ) {
+      this.index += 2;
+      const digitsStart = this.index;
+      while (this.index < input.length && /[0-9a-fA-F]/.test(input[this.index]!)) {
+        this.index++;
+      }
+      if (this.index === digitsStart) {
+        return this.invalidNumber(start, 'hex digit');
+      }
+      return this.numberToken(start, sign * parseInt(input.slice(digitsStart, this.index), 16));
+    }
+
+    let hasIntegerPart = true;
+    if (char === '0') {
+      this.index++;
+    } else if (this.isDigit(char)) {
+      this.skipDigits();
+    } else if (char === '.' && this.syntax.allowLenientDecimals) {
+      hasIntegerPart = false;
+    } else {
+      return this.invalidNumber(start, 'digit');
+    }
+
+    if (input[this.index] === '.') {
+      this.index++;
+      if (this.isDigit(input[this.index])) {
+        this.skipDigits();
+      } else if (!hasIntegerPart || !this.syntax.allowLenientDecimals) {
+        return this.invalidNumber(start, 'digit');
+      }
+    }
+
+    if (input[this.index] === 'e' || input[this.index] === 'E') {
+      this.index++;
+      if (input[this.index] === '+' || input[this.index] === '-') {
+        this.index++;
+      }
+      if (!this.isDigit(input[this.index])) {
+        return this.invalidNumber(start, 'digit');
+      }
+      this.skipDigits();
+    }
+
+    const raw = input.slice(start.index, this.index);
+    return this.numberToken(start, Number(raw));
+  }
+
+  private numberToken(start: SourcePosition, value: number): Token {
+    const raw = this.input.slice(start.index, this.index);
+    return { type: 'number', raw, value, start, end: this.position() };
+  }
+
+  private readWord(start: SourcePosition): Token | undefined {
+    this.index++;
+    while (this.index < this.input.length && IDENTIFIER_PART.test(this.input[this.index]!)) {
+      this.index++;
+    }
+
+    const raw = this.input.slice(start.index, this.index);
+    const type = LITERALS[raw];
+    if (type) {
+      const value = type === 'null' ? null : type === 'true';
+      return { type, raw, value, start, end: this.position() };
+    }
+
+    if ((raw === 'Infinity' || raw === 'NaN') && this.syntax.allowSpecialNumbers) {
+      return { type: 'number', raw, value: Number(raw), start, end: this.position() };
+    }
+
+    if (this.syntax.allowUnquotedKeys) {
+      return { type: 'identifier', raw, value: raw, start, end: this.position() };
+    }
+
+    this.fail(this.error(`Unexpected token '${raw}'`, start, ['value']));
+    return undefined;
+  }
+
+  /**
+   * Report a malformed number; when recovering, the text read so far becomes
+   * the token, with the value of its leading digits
+   */
+  private invalidNumber(start: SourcePosition, expected: string): Token {
+    const at = this.position();
+    const found = this.input[this.index];
+    const raw = this.input.slice(start.index, this.index + (found ? 1 : 0));
+    const message =
+      found === undefined
+        ? `Unexpected end of input in number '${raw}'`
+        : `Unexpected token '${found}' in number '${raw}'`;
+    this.fail(this.error(message, at, [expected]));
+    return this.numberToken(start, parseFloat(this.input.slice(start.index, this.index)));
+  }
+
+  private isDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '9';
+  }
+
+  private skipDigits(): void {
+    while (this.isDigit(this.input[this.index])) {
+      this.index++;
+    }
+  }
+}
+
+export default Tokenizer;
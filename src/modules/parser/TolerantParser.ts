@@ -0,0 +1,468 @@
+/**
+ * Error-recovering JSON parser for editors and diagnostics
+ */
+
+import {
+  DiagnosticInfo,
+  JSONArray,
+  JSONObject,
+  JSONValue,
+  ParseOptions,
+  SourcePosition,
+  SyntaxOptions,
+  Token,
+  TokenType,
+} from '../../core/types';
+import { JSONParseError } from '../../core/errors';
+import { PARSE_MODES } from '../../utils/constants';
+import {
+  ESCAPES,
+  EXTENDED_WHITESPACE,
+  LINE_TERMINATORS,
+  Tokenizer,
+  advancePosition,
+  describeToken,
+  isIdentifierName,
+} from './Tokenizer';
+import { ParseLimits } from './ParseLimits';
+import { resolveSyntax, setProperty } from './DescentParser';
+
+export type SyntaxIssueType = DiagnosticInfo['errors'][number]['type'];
+
+/**
+ * A syntax error found by the TolerantParser, with the kind of problem it is
+ */
+export interface SyntaxIssue {
+  type: SyntaxIssueType;
+  error: JSONParseError;
+}
+
+const VALUE_START: TokenType[] = [
+  'beginObject',
+  'beginArray',
+  'string',
+  'number',
+  'true',
+  'false',
+  'null',
+  'identifier',
+];
+
+/**
+ * Parses as much of a document as it can, recording every syntax error
+ * instead of stopping at the first. Input is tokenized with the whole JSON5
+ * grammar so that comments, single quotes, unquoted keys and the like are
+ * read and reported as errors when the requested grammar does not allow
+ * them. Missing commas, colons and closing brackets are reported and assumed;
+ * stray tokens are reported and skipped. Limits still abort the parse.
+ */
+export class TolerantParser {
+  readonly issues: SyntaxIssue[] = [];
+
+  private readonly tokenizer: Tokenizer;
+  private readonly syntax: SyntaxOptions;
+  // Closing token of each container being read, innermost last
+  private readonly closers: TokenType[] = [];
+  private current!: Token;
+
+  constructor(
+    private readonly input: string,
+    private readonly options: { syntax?: SyntaxOptions; limits?: ParseLimits } = {}
+  ) {
+    this.syntax = options.syntax ?? {};
+    this.tokenizer = new Tokenizer(input, PARSE_MODES.json5, error => this.tokenizerError(error));
+    this.advance();
+  }
+
+  /**
+   * Parse the whole input, returning a best-effort value. Errors are
+   * collected in `issues`, in source order.
+   */
+  parse(): JSONValue {
+    const value = this.parseValue();
+    if (!this.at('eof')) {
+      this.unexpected('syntax', ['end of input'], ['Wrap multiple values in an array']);
+    }
+    this.issues.sort((a, b) => a.error.position!.index - b.error.position!.index);
+    return value;
+  }
+
+  private parseValue(): JSONValue {
+    const token = this.current;
+    this.options.limits?.node(token.start);
+
+    switch (token.type) {
+      case 'beginObject':
+        return this.parseObject();
+      case 'beginArray':
+        return this.parseArray();
+      case 'string':
+        this.checkString(token);
+        this.advance();
+        return token.value!;
+      case 'number':
+        this.checkNumber(token);
+        this.advance();
+        return token.value!;
+      case 'true':
+      case 'false':
+      case 'null':
+        this.advance();
+        return token.value!;
+      case 'identifier':
+        this.advance();
+        if (token.raw === 'undefined') {
+          this.report('value', `Unexpected token 'undefined', expected value`, token.start, {
+            expected: ['value'],
+            suggestions: ['Use null instead of undefined'],
+          });
+          return null;
+        }
+        this.report('string', `Unexpected token '${token.raw}', expected value`, token.start, {
+          expected: ['value'],
+          suggestions: ['Wrap text in double quotes'],
+        });
+        return token.raw;
+      case 'colon':
+        this.unexpected('syntax', ['value'], ["Remove the extra ':'"]);
+        this.advance();
+        return this.parseValue();
+      default:
+        // Leave commas and closing brackets to the container being read
+        this.unexpected('value', ['value']);
+        return null;
+    }
+  }
+
+  private parseObject(): JSONObject {
+    const object: JSONObject = {};
+    this.open('endObject');
+
+    for (;;) {
+      if (this.closeOrSkip('endObject')) {
+        return object;
+      }
+      if (this.at('comma')) {
+        this.unexpected('comma', ['string key'], ['Remove the extra comma']);
+        this.advance();
+        continue;
+      }
+
+      const key = this.parseKey();
+      if (key === undefined) {
+        continue;
+      }
+
+      let value: JSONValue = null;
+      if (this.at('colon')) {
+        this.advance();
+        value = this.parseValue();
+      } else {
+        this.unexpected('syntax', ["':'"], ["Add ':' between the key and its value"]);
+        if (this.startsValue()) {
+          value = this.parseValue();
+        }
+      }
+      setProperty(object, key, value);
+
+      if (this.at('comma')) {
+        this.comma('endObject');
+      } else if (this.at('string') || this.at('identifier')) {
+        this.unexpected('comma', ["','", "'}'"], ['Add a comma between members']);
+      } else if (this.startsValue()) {
+        this.unexpected('syntax', ["','", "'}'"]);
+        this.parseValue();
+      } else if (this.at('colon')) {
+        this.unexpected('syntax', ["','", "'}'"]);
+        this.advance();
+      }
+    }
+  }
+
+  private parseArray(): JSONArray {
+    const array: JSONArray = [];
+    this.open('endArray');
+
+    for (;;) {
+      if (this.closeOrSkip('endArray')) {
+        return array;
+      }
+      if (this.at('comma')) {
+        this.unexpected('comma', ['value'], ['Remove the extra comma']);
+        this.advance();
+        continue;
+      }
+
+      array.push(this.parseValue());
+
+      if (this.at('comma')) {
+        this.comma('endArray');
+      } else if (this.startsValue()) {
+        this.unexpected('comma', ["','", "']'"], ['Add a comma between elements']);
+      } else if (this.at('colon')) {
+        this.unexpected('syntax', ["','", "']'"]);
+        this.advance();
+      }
+    }
+  }
+
+  /**
+   * Read an object key. Returns undefined, having reported and skipped what
+   * was there, when no key can be made out.
+   */
+  private parseKey(): string | undefined {
+    const token = this.current;
+
+    if (token.type === 'string') {
+      this.checkString(token);
+      this.advance();
+      return token.value as string;
+    }
+
+    if (isIdentifierName(token.raw) || token.type === 'number') {
+      if (!this.syntax.allowUnquotedKeys || token.type === 'number') {
+        this.report('key', `Unquoted key '${token.raw}' is not allowed`, token.start, {
+          expected: ['string key'],
+          suggestions: ['Quote all object keys'],
+        });
+      }
+      this.advance();
+      return token.raw;
+    }
+
+    this.unexpected('key', ['string key'], ['Quote all object keys']);
+    if (this.startsValue()) {
+      this.parseValue();
+    } else {
+      this.advance();
+    }
+    return undefined;
+  }
+
+  private open(closer: 'endObject' | 'endArray'): void {
+    this.options.limits?.enter(this.current.start);
+    this.closers.push(closer);
+    this.advance(); // { or [
+  }
+
+  /**
+   * At a member boundary: consume the closer and return true, or return true
+   * without consuming when the closer is missing. Stray closing brackets are
+   * reported and skipped.
+   */
+  private closeOrSkip(closer: 'endObject' | 'endArray'): boolean {
+    const type = this.current.type;
+
+    if (type === closer) {
+      this.advance();
+    } else if (
+      type === 'eof' ||
+      ((type === 'endObject' || type === 'endArray') && this.closers.includes(type))
+    ) {
+      const bracket = closer === 'endObject' ? "'}'" : "']'";
+      this.unexpected(
+        closer === 'endObject' ? 'brace' : 'bracket',
+        [bracket],
+        [`Add the missing ${bracket}`]
+      );
+    } else if (type === 'endObject' || type === 'endArray') {
+      this.unexpected('syntax', ['value'], [`Remove the unmatched '${this.current.raw}'`]);
+      this.advance();
+      return false;
+    } else {
+      return false;
+    }
+
+    this.closers.pop();
+    this.options.limits?.leave();
+    return true;
+  }
+
+  private comma(closer: 'endObject' | 'endArray'): void {
+    const comma = this.current;
+    this.advance();
+    if (this.at(closer) && !this.syntax.allowTrailingCommas) {
+      this.report('comma', 'Trailing comma is not allowed', comma.start, {
+        suggestions: ['Remove trailing commas'],
+      });
+    }
+  }
+
+  /**
+   * Report grammar extensions the requested syntax does not allow
+   */
+  private checkString(token: Token): void {
+    const { raw } = token;
+    const quote = raw[0]!;
+
+    if (quote === "'" && !this.syntax.allowSingleQuotes) {
+      this.report('quote', 'Single quotes are not allowed', token.start, {
+        expected: ['"'],
+        suggestions: ['Use double quotes instead'],
+      });
+    }
+
+    for (let i = 1; i < raw.length - 1; i++) {
+      if (raw[i] !== '\\') {
+        continue;
+      }
+      const char = raw[i + 1]!;
+      const at = advancePosition(token.start, raw, i);
+      i++;
+
+      if (LINE_TERMINATORS.includes(char)) {
+        if (!this.syntax.allowMultilineStrings) {
+          this.report('string', 'Line continuations are not allowed in strings', at, {
+            suggestions: ['Use \\n for line breaks inside strings'],
+          });
+        }
+      } else if (
+        !(char in ESCAPES) &&
+        char !== 'u' &&
+        char !== quote &&
+        isExtendedEscape(raw, i) &&
+        !this.syntax.allowExtendedEscapes
+      ) {
+        this.report('string', `Invalid escape sequence '\\${char}'`, at, {
+          expected: ['escape sequence'],
+          suggestions: ['Escape the backslash as \\\\'],
+        });
+      }
+    }
+  }
+
+  private checkNumber(token: Token): void {
+    const { raw, start } = token;
+    const report = (message: string, suggestion: string): void =>
+      this.report('value', message, start, { suggestions: [suggestion] });
+
+    if (/^[+-]?0[xX]/.test(raw) && !this.syntax.allowHexNumbers) {
+      report(`Hexadecimal number ${raw} is not allowed`, 'Write the number in decimal');
+    } else if (/(Infinity|NaN)$/.test(raw) && !this.syntax.allowSpecialNumbers) {
+      report(`${raw} is not allowed`, 'Use null or a string instead');
+    } else if (raw[0] === '+' && !this.syntax.allowLeadingPlus) {
+      report(`Leading '+' in number ${raw} is not allowed`, 'Remove the plus sign');
+    } else if (/^[+-]?\.|\.(?!\d)/.test(raw) && !this.syntax.allowLenientDecimals) {
+      report(
+        `Number ${raw} needs digits on both sides of the decimal point`,
+        'Write 0.5 instead of .5 and 5 instead of 5.'
+      );
+    }
+  }
+
+  private tokenizerError(error: JSONParseError): void {
+    const type: SyntaxIssueType = /string|escape/.test(error.message)
+      ? 'string'
+      : /number/.test(error.message)
+        ? 'value'
+        : 'syntax';
+
+    if (error.suggestions?.length) {
+      this.issues.push({ type, error });
+      return;
+    }
+    const suggestion =
+      type === 'string'
+        ? 'Check the quotes and escape sequences of the string'
+        : type === 'value'
+          ? 'Check the format of the number'
+          : 'Remove the unexpected character';
+    this.report(type, error.message, error.position!, {
+      ...(error.expected && { expected: error.expected }),
+      suggestions: [suggestion],
+    });
+  }
+
+  private at(type: TokenType): boolean {
+    return this.current.type === type;
+  }
+
+  private startsValue(): boolean {
+    return VALUE_START.includes(this.current.type);
+  }
+
+  private advance(): void {
+    const { trivia, token } = this.tokenizer.nextWithTrivia();
+    if (!this.syntax.allowComments) {
+      for (const comment of trivia.filter(item => item.type !== 'whitespace')) {
+        this.report('syntax', 'Comments are not allowed', comment.start, {
+          suggestions: ["Remove the comment or use mode 'jsonc'"],
+        });
+      }
+    }
+    if (!this.syntax.allowExtendedWhitespace) {
+      for (const { type, raw, start } of trivia) {
+        const i = type === 'whitespace' ? raw.search(EXTENDED_WHITESPACE) : -1;
+        if (i !== -1) {
+          const code = raw.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+          this.report(
+            'syntax',
+            `Whitespace U+${code} is not allowed`,
+            advancePosition(start, raw, i),
+            {
+              suggestions: ["Replace it with a space or use mode 'json5'"],
+            }
+          );
+        }
+      }
+    }
+    this.current = token;
+  }
+
+  private unexpected(type: SyntaxIssueType, expected: string[], suggestions?: string[]): void {
+    const token = this.current;
+    const message =
+      token.type === 'eof'
+        ? `Unexpected end of input, expected ${expected.join(' or ')}`
+        : `Unexpected token ${describeToken(token)}, expected ${expected.join(' or ')}`;
+
+    this.report(type, message, token.start, {
+      expected,
+      suggestions: suggestions ?? ['Check the JSON syntax near this position'],
+    });
+  }
+
+  private report(
+    type: SyntaxIssueType,
+    message: string,
+    position: SourcePosition,
+    details: { expected?: string[]; suggestions: string[] }
+  ): void {
+    this.issues.push({
+      type,
+      error: JSONParseError.atPosition(message, this.input, position, details),
+    });
+  }
+}
+
+/**
+ * Parse with error recovery. Returns the best-effort value together with
+ * every syntax error; size, depth and node limits still throw.
+ */
+export function parseTolerant(
+  input: string,
+  options: ParseOptions = {}
+): { data: JSONValue; issues: SyntaxIssue[] } {
+  const limits = new ParseLimits(input, options);
+  limits.checkSize();
+  const parser = new TolerantParser(input, { syntax: resolveSyntax(options), limits });
+  const data = parser.parse();
+  return { data, issues: parser.issues };
+}
+
+/**
+ * Whether the escape whose character is at `index` is one JSON5 accepts;
+ * escapes that even JSON5 rejects were already reported by the tokenizer
+ */
+function isExtendedEscape(raw: string, index: number): boolean {
+  const char = raw[index]!;
+  if (char === 'x') {
+    return /^[0-9a-fA-F]{2}$/.test(raw.slice(index + 1, index + 3));
+  }
+  if (char >= '0' && char <= '9') {
+    return char === '0' && !/[0-9]/.test(raw[index + 1] ?? '');
+  }
+  return true;
+}
+
+export default TolerantParser;
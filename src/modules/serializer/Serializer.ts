@@ -0,0 +1,330 @@
+/**
+ * Round-trips JavaScript values that JSON cannot represent
+ */
+
+import {
+  JSONArray,
+  JSONValue,
+  SerializedJSON,
+  SerializeOptions,
+  SerializerPlugin,
+} from '../../core/types';
+import { JSONConvertError } from '../../core/errors';
+import { formatJSONPointer, parseJSONPointer } from '../../utils/helpers';
+import { defaultPipeline } from '../parser/Pipeline';
+
+const BUILTIN_TYPES = ['undefined', 'number', 'bigint', 'Date', 'RegExp', 'Map', 'Set'];
+
+/**
+ * Walks a value, writing JSON and recording a type annotation for every
+ * value it had to encode. Children are annotated before their parents.
+ */
+class Encoder {
+  readonly values: Record<string, string> = {};
+  // Objects on the current path, to catch circular references
+  private readonly ancestors = new Set<object>();
+
+  constructor(private readonly plugins: SerializerPlugin[]) {}
+
+  /**
+   * Encode a value; undefined means it is skipped, as JSON.stringify skips
+   * functions and symbols
+   */
+  encode(value: unknown, path: Array<string | number>): JSONValue | undefined {
+    const annotate = (type: string, json: JSONValue): JSONValue => {
+      this.values[formatJSONPointer(path)] = type;
+      return json;
+    };
+
+    switch (typeof value) {
+      case 'undefined':
+        return annotate('undefined', null);
+      case 'bigint':
+        return annotate('bigint', value.toString());
+      case 'number':
+        if (Object.is(value, -0)) {
+          return annotate('number', '-0');
+        }
+        return Number.isFinite(value) ? value : annotate('number', String(value));
+      case 'string':
+      case 'boolean':
+        return value;
+      case 'function':
+      case 'symbol':
+        return undefined;
+    }
+    if (value === null) {
+      return null;
+    }
+
+    const object = value as object;
+    const plugin = this.plugins.find(candidate => candidate.isApplicable(object));
+    if (plugin) {
+      return annotate(plugin.name, plugin.serialize(object));
+    }
+    if (object instanceof Date) {
+      return annotate('Date', isNaN(object.getTime()) ? null : object.toISOString());
+    }
+    if (object instanceof RegExp) {
+      return annotate('RegExp', String(object));
+    }
+
+    if (this.ancestors.has(object)) {
+      throw new JSONConvertError(
+        `Circular reference at ${describePointer(formatJSONPointer(path))}`,
+        'javascript',
+        'json',
+        { suggestions: ['Break the cycle before serializing'] }
+      );
+    }
+    this.ancestors.add(object);
+    try {
+      return this.encodeObject(object, path, annotate);
+    } finally {
+      this.ancestors.delete(object);
+    }
+  }
+
+  private encodeObject(
+    object: object,
+    path: Array<string | number>,
+    annotate: (type: string, json: JSONValue) => JSONValue
+  ): JSONValue | undefined {
+    // Array slots that cannot be encoded become null, as with JSON.stringify
+    const items = (values: Iterable<unknown>): JSONArray =>
+      Array.from(values, (item, i) => this.encode(item, [...path, i]) ?? null);
+
+    if (object instanceof Map) {
+      const pairs = Array.from(object, ([key, value], i): JSONArray => [
+        this.encode(key, [...path, i, 0]) ?? null,
+        this.encode(value, [...path, i, 1]) ?? null,
+      ]);
+      return annotate('Map', pairs);
+    }
+    if (object instanceof Set) {
+      return annotate('Set', items(object));
+    }
+    if (Array.isArray(object)) {
+      return items(object);
+    }
+    if (typeof (object as { toJSON?: unknown }).toJSON === 'function') {
+      return this.encode((object as { toJSON: () => unknown }).toJSON(), path);
+    }
+
+    // Object.fromEntries defines keys, so an own __proto__ key stays a key
+    const entries: Array<[string, JSONValue]> = [];
+    for (const [key, item] of Object.entries(object)) {
+      const encoded = this.encode(item, [...path, key]);
+      if (encoded !== undefined) {
+        entries.push([key, encoded]);
+      }
+    }
+    return Object.fromEntries(entries);
+  }
+}
+
+/**
+ * Encodes values JSON cannot hold (undefined, NaN and ±Infinity, -0, BigInt,
+ * Date, RegExp, Map, Set and registered classes) as JSON plus side metadata,
+ * and restores them exactly
+ */
+export class Serializer {
+  private static readonly plugins = new Map<string, SerializerPlugin>();
+
+  /**
+   * Register a plugin for every later call. A plugin with the same name is
+   * replaced.
+   */
+  static register<T>(plugin: SerializerPlugin<T>): void {
+    if (BUILTIN_TYPES.includes(plugin.name)) {
+      throw new JSONConvertError(
+        `Cannot register plugin '${plugin.name}': the name is used by a built-in type`,
+        'javascript',
+        'json',
+        { suggestions: ['Give the plugin a name of its own, e.g. the class name'] }
+      );
+    }
+    Serializer.plugins.set(plugin.name, plugin as SerializerPlugin);
+  }
+
+  /**
+   * Remove a registered plugin. Returns false when there was none by that name.
+   */
+  static unregister(name: string): boolean {
+    return Serializer.plugins.delete(name);
+  }
+
+  /**
+   * Encode a value as `{ json, meta }`. Functions and symbols are dropped
+   * (or become null in arrays) as with JSON.stringify; circular references
+   * throw a JSONConvertError.
+   */
+  static serialize(value: unknown, options: SerializeOptions = {}): SerializedJSON {
+    const encoder = new Encoder(Serializer.pluginsFor(options));
+    const json = encoder.encode(value, []) ?? null;
+    return Object.keys(encoder.values).length > 0
+      ? { json, meta: { values: encoder.values } }
+      : { json };
+  }
+
+  /**
+   * Restore a value from serialize's output. The input is not modified.
+   * Unknown annotations, and annotations that do not match the JSON, throw a
+   * JSONConvertError.
+   */
+  static deserialize<T = unknown>(serialized: SerializedJSON, options: SerializeOptions = {}): T {
+    if (serialized === null || typeof serialized !== 'object' || !('json' in serialized)) {
+      throw new JSONConvertError(
+        'Expected the { json, meta } output of serialize',
+        'json',
+        'javascript'
+      );
+    }
+    const plugins = Serializer.pluginsFor(options);
+    const holder: { root: unknown } = { root: copy(serialized.json) };
+
+    // Deepest first, so Map and Set entries are restored before the Map or Set
+    const annotations = Object.entries(serialized.meta?.values ?? {})
+      .map(([pointer, type]) => ({ pointer, type, segments: segmentsOf(pointer) }))
+      .sort((a, b) => b.segments.length - a.segments.length);
+
+    for (const { pointer, type, segments } of annotations) {
+      let parent = holder as Record<string, unknown>;
+      let key = 'root';
+      for (const segment of segments) {
+        const next = parent[key];
+        if (
+          next === null ||
+          typeof next !== 'object' ||
+          !Object.prototype.hasOwnProperty.call(next, segment)
+        ) {
+          throw new JSONConvertError(
+            `No value at ${describePointer(pointer)} for its '${type}' annotation`,
+            'json',
+            'javascript'
+          );
+        }
+        parent = next as Record<string, unknown>;
+        key = segment;
+      }
+      parent[key] = restore(parent[key], type, pointer, plugins);
+    }
+
+    return holder.root as T;
+  }
+
+  /**
+   * serialize, written as a JSON string
+   */
+  static stringify(value: unknown, options: SerializeOptions = {}): string {
+    return JSON.stringify(Serializer.serialize(value, options));
+  }
+
+  /**
+   * Parse stringify's output and deserialize it. Throws a JSONParseError for
+   * invalid JSON.
+   */
+  static parse<T = unknown>(text: string, options: SerializeOptions = {}): T {
+    const { data } = defaultPipeline.run(text);
+    return Serializer.deserialize<T>(data as unknown as SerializedJSON, options);
+  }
+
+  private static pluginsFor(options: SerializeOptions): SerializerPlugin[] {
+    return [...(options.plugins ?? []), ...Serializer.plugins.values()];
+  }
+}
+
+function restore(
+  json: unknown,
+  type: string,
+  pointer: string,
+  plugins: SerializerPlugin[]
+): unknown {
+  const invalid = (): JSONConvertError =>
+    new JSONConvertError(
+      `Invalid ${type} at ${describePointer(pointer)}: ${JSON.stringify(json)}`,
+      'json',
+      'javascript'
+    );
+
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      if (!['NaN', 'Infinity', '-Infinity', '-0'].includes(json as string)) {
+        throw invalid();
+      }
+      return Number(json);
+    case 'bigint':
+      if (typeof json !== 'string' || !/^-?\d+$/.test(json)) {
+        throw invalid();
+      }
+      return BigInt(json);
+    case 'Date':
+      if (json !== null && typeof json !== 'string') {
+        throw invalid();
+      }
+      return new Date(json ?? NaN);
+    case 'RegExp': {
+      const end = typeof json === 'string' ? json.lastIndexOf('/') : -1;
+      if (typeof json !== 'string' || !json.startsWith('/') || end < 1) {
+        throw invalid();
+      }
+      try {
+        return new RegExp(json.slice(1, end), json.slice(end + 1));
+      } catch {
+        throw invalid();
+      }
+    }
+    case 'Map':
+      if (!Array.isArray(json) || !json.every(pair => Array.isArray(pair) && pair.length === 2)) {
+        throw invalid();
+      }
+      return new Map(json as Array<[unknown, unknown]>);
+    case 'Set':
+      if (!Array.isArray(json)) {
+        throw invalid();
+      }
+      return new Set(json);
+  }
+
+  const plugin = plugins.find(candidate => candidate.name === type);
+  if (!plugin) {
+    throw new JSONConvertError(
+      `Unknown type '${type}' at ${describePointer(pointer)}`,
+      'json',
+      'javascript',
+      { suggestions: [`Register the plugin named '${type}' before deserializing`] }
+    );
+  }
+  return plugin.deserialize(json as JSONValue);
+}
+
+/**
+ * Copy JSON so restoring values does not touch the caller's data
+ */
+function copy(value: JSONValue): JSONValue {
+  if (Array.isArray(value)) {
+    return value.map(copy);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copy(item)]));
+  }
+  return value;
+}
+
+function segmentsOf(pointer: string): string[] {
+  try {
+    return parseJSONPointer(pointer);
+  } catch (error) {
+    throw new JSONConvertError((error as Error).message, 'json', 'javascript', {
+      cause: error as Error,
+    });
+  }
+}
+
+function describePointer(pointer: string): string {
+  return pointer === '' ? 'the root' : pointer;
+}
+
+export default Serializer;
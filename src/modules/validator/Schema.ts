@@ -0,0 +1,344 @@
+/**
+ * JSON Schema validation of parsed data
+ */
+
+import { JSONSchema, JSONValue, ValidationError } from '../../core/types';
+import { JSONDecimal } from '../../core/JSONDecimal';
+import { JSON_SCHEMA_FORMATS, REGEX_PATTERNS } from '../../utils/constants';
+import { formatJSONPointer } from '../../utils/helpers';
+
+type Path = Array<string | number>;
+type Fail = (code: string, message: string, expected: string) => void;
+
+// Compiled schema patterns; undefined for ones that do not compile
+const PATTERNS = new Map<string, RegExp | undefined>();
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  [JSON_SCHEMA_FORMATS.DATE_TIME]: value => {
+    const [date, time, ...rest] = value.split(/[Tt ]/);
+    return rest.length === 0 && isDate(date ?? '') && isTime(time ?? '');
+  },
+  [JSON_SCHEMA_FORMATS.DATE]: isDate,
+  [JSON_SCHEMA_FORMATS.TIME]: isTime,
+  [JSON_SCHEMA_FORMATS.EMAIL]: value => REGEX_PATTERNS.EMAIL.test(value),
+  [JSON_SCHEMA_FORMATS.HOSTNAME]: value =>
+    /^(?=.{1,253}\.?$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i.test(
+      value
+    ),
+  [JSON_SCHEMA_FORMATS.IPV4]: value => REGEX_PATTERNS.IPV4.test(value),
+  [JSON_SCHEMA_FORMATS.IPV6]: isIPv6,
+  [JSON_SCHEMA_FORMATS.URI]: value => /^[a-z][a-z0-9+.-]*:\S*$/i.test(value),
+  [JSON_SCHEMA_FORMATS.UUID]: value => /^[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(value),
+};
+
+/**
+ * Check a value against a JSON Schema, returning every violation with the
+ * JSON Pointer of the value at fault. Missing required properties and
+ * unexpected ones are reported at the property's own path. Unknown keywords
+ * and formats are ignored.
+ */
+export function validateSchema(data: JSONValue, schema: JSONSchema): ValidationError[] {
+  const errors: ValidationError[] = [];
+  check(data, schema, [], errors);
+  return errors;
+}
+
+function check(value: JSONValue, schema: JSONSchema, path: Path, errors: ValidationError[]): void {
+  const fail: Fail = (code, message, expected) => {
+    errors.push({ path: formatJSONPointer(path), message, code, value, expected });
+  };
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types: readonly string[] = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(type => type === actual || (type === 'number' && actual === 'integer'))) {
+      const expected = types.join(' or ');
+      fail(
+        'type',
+        `Expected ${expected}, got ${actual === 'integer' ? 'number' : actual}`,
+        expected
+      );
+      return;
+    }
+  }
+  if (schema.const !== undefined && !equals(value, schema.const)) {
+    const expected = JSON.stringify(schema.const);
+    fail('const', `Expected ${expected}, got ${describeValue(value)}`, expected);
+  }
+  if (schema.enum && !schema.enum.some(option => equals(value, option))) {
+    const expected = `one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+    fail('enum', `Expected ${expected}, got ${describeValue(value)}`, expected);
+  }
+
+  if (actual === 'number' || actual === 'integer') {
+    checkNumber(Number(value), schema, fail);
+  } else if (typeof value === 'string') {
+    checkString(value, schema, fail);
+  } else if (Array.isArray(value)) {
+    checkArray(value, schema, path, errors, fail);
+  } else if (value !== null && typeof value === 'object') {
+    checkObject(value, schema, path, errors);
+  }
+
+  for (const member of schema.allOf ?? []) {
+    check(value, member, path, errors);
+  }
+  if (schema.anyOf && !schema.anyOf.some(member => matches(value, member, path))) {
+    fail('anyOf', 'Expected a value matching at least one anyOf schema', 'anyOf');
+  }
+  if (schema.oneOf) {
+    const matched = schema.oneOf.filter(member => matches(value, member, path)).length;
+    if (matched !== 1) {
+      fail('oneOf', `Expected exactly one oneOf schema to match, ${matched} matched`, 'oneOf');
+    }
+  }
+}
+
+function checkNumber(value: number, schema: JSONSchema, fail: Fail): void {
+  const bounds: Array<[string, number | undefined, string, (limit: number) => boolean]> = [
+    ['minimum', schema.minimum, '>=', limit => value >= limit],
+    ['maximum', schema.maximum, '<=', limit => value <= limit],
+    ['exclusiveMinimum', schema.exclusiveMinimum, '>', limit => value > limit],
+    ['exclusiveMaximum', schema.exclusiveMaximum, '<', limit => value < limit],
+  ];
+  for (const [code, limit, op, within] of bounds) {
+    if (limit !== undefined && !within(limit)) {
+      fail(code, `Expected a number ${op} ${limit}, got ${value}`, `${op} ${limit}`);
+    }
+  }
+
+  // Rounded so 0.3 counts as a multiple of 0.1 despite binary floating point
+  if (
+    schema.multipleOf !== undefined &&
+    !Number.isInteger(Number((value / schema.multipleOf).toPrecision(15)))
+  ) {
+    const expected = `a multiple of ${schema.multipleOf}`;
+    fail('multipleOf', `Expected ${expected}, got ${value}`, expected);
+  }
+}
+
+function checkString(value: string, schema: JSONSchema, fail: Fail): void {
+  // Lengths count code points, so an emoji is one character
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    const expected = `at least ${count(schema.minLength, 'character')}`;
+    fail('minLength', `Expected ${expected}, got ${length}`, expected);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    const expected = `at most ${count(schema.maxLength, 'character')}`;
+    fail('maxLength', `Expected ${expected}, got ${length}`, expected);
+  }
+  if (schema.pattern !== undefined) {
+    const pattern = compilePattern(schema.pattern);
+    const expected = `a string matching /${schema.pattern}/`;
+    if (!pattern) {
+      fail('pattern', `Invalid pattern /${schema.pattern}/ in schema`, expected);
+    } else if (!pattern.test(value)) {
+      fail('pattern', `Expected ${expected}, got ${JSON.stringify(value)}`, expected);
+    }
+  }
+  const format = schema.format !== undefined ? FORMATS[schema.format] : undefined;
+  if (format && !format(value)) {
+    const expected = `a valid ${schema.format}`;
+    fail('format', `Expected ${expected}, got ${JSON.stringify(value)}`, expected);
+  }
+}
+
+function checkArray(
+  value: JSONValue[],
+  schema: JSONSchema,
+  path: Path,
+  errors: ValidationError[],
+  fail: Fail
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    const expected = `at least ${count(schema.minItems, 'item')}`;
+    fail('minItems', `Expected ${expected}, got ${value.length}`, expected);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    const expected = `at most ${count(schema.maxItems, 'item')}`;
+    fail('maxItems', `Expected ${expected}, got ${value.length}`, expected);
+  }
+
+  value.forEach((item, i) => {
+    if (schema.uniqueItems) {
+      const first = value.findIndex(other => equals(other, item));
+      if (first < i) {
+        errors.push({
+          path: formatJSONPointer([...path, i]),
+          message: `Duplicate of item ${first}`,
+          code: 'uniqueItems',
+          value: item,
+          expected: 'unique items',
+        });
+      }
+    }
+    if (schema.items) {
+      check(item, schema.items, [...path, i], errors);
+    }
+  });
+}
+
+function checkObject(
+  value: { [key: string]: JSONValue },
+  schema: JSONSchema,
+  path: Path,
+  errors: ValidationError[]
+): void {
+  const properties = schema.properties ?? {};
+  const has = (object: object, key: string): boolean =>
+    Object.prototype.hasOwnProperty.call(object, key);
+
+  for (const key of schema.required ?? []) {
+    if (!has(value, key)) {
+      errors.push({
+        path: formatJSONPointer([...path, key]),
+        message: `Missing required property ${JSON.stringify(key)}`,
+        code: 'required',
+        expected: 'present',
+      });
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const property = has(properties, key) ? properties[key] : undefined;
+    if (property) {
+      check(item, property, [...path, key], errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({
+        path: formatJSONPointer([...path, key]),
+        message: `Unexpected property ${JSON.stringify(key)}`,
+        code: 'additionalProperties',
+        value: item,
+        expected: 'absent',
+      });
+    } else if (typeof schema.additionalProperties === 'object') {
+      check(item, schema.additionalProperties, [...path, key], errors);
+    }
+  }
+}
+
+/**
+ * A schema pattern as a regular expression, or undefined when it is invalid.
+ * Unicode mode is tried first, so `\p{...}` classes work; patterns it rejects,
+ * such as ones with identity escapes like `\-`, are compiled without it.
+ */
+function compilePattern(source: string): RegExp | undefined {
+  if (!PATTERNS.has(source)) {
+    PATTERNS.set(source, tryRegExp(source, 'u') ?? tryRegExp(source, ''));
+  }
+  return PATTERNS.get(source);
+}
+
+function tryRegExp(source: string, flags: string): RegExp | undefined {
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    return undefined;
+  }
+}
+
+function matches(value: JSONValue, schema: JSONSchema, path: Path): boolean {
+  const errors: ValidationError[] = [];
+  check(value, schema, path, errors);
+  return errors.length === 0;
+}
+
+/**
+ * The JSON Schema type of a value; BigInt and JSONDecimal values from the
+ * lossless number modes count as numbers
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'bigint') return 'integer';
+  if (value instanceof JSONDecimal) {
+    return /^-?\d+$/.test(value.value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  const typeA = typeOf(a);
+  const typeB = typeOf(b);
+  if ((typeA === 'number' || typeA === 'integer') && (typeB === 'number' || typeB === 'integer')) {
+    return Number(a) === Number(b);
+  }
+  if (typeA !== typeB) {
+    return false;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  if (typeA === 'object') {
+    const keysA = Object.keys(a as object);
+    const keysB = Object.keys(b as object);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every(
+        key =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+      )
+    );
+  }
+  return a === b;
+}
+
+function isDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+  const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return month >= 1 && month <= 12 && day >= 1 && day <= days;
+}
+
+function isTime(value: string): boolean {
+  const match = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [hour, minute, second, offsetHour, offsetMinute] = match
+    .slice(1)
+    .map(part => Number(part ?? 0)) as [number, number, number, number, number];
+  // A leap second is 60
+  return hour < 24 && minute < 60 && second <= 60 && offsetHour < 24 && offsetMinute < 60;
+}
+
+function isIPv6(value: string): boolean {
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = halves.flatMap(half => (half === '' ? [] : half.split(':')));
+  let size = groups.length;
+  // The last 32 bits may be written as an IPv4 address
+  const last = groups[groups.length - 1];
+  if (last !== undefined && last.includes('.')) {
+    if (!REGEX_PATTERNS.IPV4.test(groups.pop()!)) {
+      return false;
+    }
+    size += 1;
+  }
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return false;
+  }
+  return halves.length === 2 ? size < 8 : size === 8;
+}
+
+function describeValue(value: JSONValue): string {
+  const type = typeOf(value);
+  if (type === 'number' || type === 'integer') {
+    return String(value);
+  }
+  return type === 'object' || type === 'array' ? type : JSON.stringify(value);
+}
+
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
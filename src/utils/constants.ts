@@ -30,6 +30,12 @@ export const ERROR_CODES = {
   ANALYZE_ERROR: 'ANALYZE_ERROR',
   FIX_ERROR: 'FIX_ERROR',
   COMPARE_ERROR: 'COMPARE_ERROR',
+  DEPTH_EXCEEDED: 'DEPTH_EXCEEDED',
+  SIZE_EXCEEDED: 'SIZE_EXCEEDED',
+  NODES_EXCEEDED: 'NODES_EXCEEDED',
+  UNSAFE_KEY: 'UNSAFE_KEY',
+  DUPLICATE_KEY: 'DUPLICATE_KEY',
+  INVALID_ENCODING: 'INVALID_ENCODING',
 } as const;
 
 // Default options
@@ -46,6 +52,7 @@ export const DEFAULT_OPTIONS = {
     brackets: 'balance' as const,
     whitespace: 'normalize' as const,
     comments: 'remove' as const,
+    dryRun: false,
   },
   MERGE: {
     strategy: 'deep' as const,
@@ -85,6 +92,52 @@ export const DEFAULT_OPTIONS = {
   },
 } as const;
 
+// Parse mode presets for the lenient grammar flags
+export const PARSE_MODES = {
+  json: {
+    allowComments: false,
+    allowTrailingCommas: false,
+    allowSingleQuotes: false,
+    allowUnquotedKeys: false,
+    allowHexNumbers: false,
+    allowSpecialNumbers: false,
+    allowLeadingPlus: false,
+    allowLenientDecimals: false,
+    allowMultilineStrings: false,
+    allowExtendedEscapes: false,
+    allowExtendedWhitespace: false,
+  },
+  jsonc: {
+    allowComments: true,
+    allowTrailingCommas: true,
+    allowSingleQuotes: false,
+    allowUnquotedKeys: false,
+    allowHexNumbers: false,
+    allowSpecialNumbers: false,
+    allowLeadingPlus: false,
+    allowLenientDecimals: false,
+    allowMultilineStrings: false,
+    allowExtendedEscapes: false,
+    allowExtendedWhitespace: false,
+  },
+  json5: {
+    allowComments: true,
+    allowTrailingCommas: true,
+    allowSingleQuotes: true,
+    allowUnquotedKeys: true,
+    allowHexNumbers: true,
+    allowSpecialNumbers: true,
+    allowLeadingPlus: true,
+    allowLenientDecimals: true,
+    allowMultilineStrings: true,
+    allowExtendedEscapes: true,
+    allowExtendedWhitespace: true,
+  },
+} as const;
+
+// Keys that can reach an object's prototype when written
+export const UNSAFE_KEYS: readonly string[] = ['__proto__', 'constructor', 'prototype'];
+
 // Performance limits
 export const PERFORMANCE_LIMITS = {
   MAX_DEPTH: 100,
@@ -201,6 +254,11 @@ export const MIME_TYPES = {
 export const ENCODINGS = {
   UTF8: 'utf8',
   UTF16: 'utf16',
+  UTF16LE: 'utf16le',
+  UTF16BE: 'utf16be',
+  UTF32: 'utf32',
+  UTF32LE: 'utf32le',
+  UTF32BE: 'utf32be',
   ASCII: 'ascii',
   BASE64: 'base64',
 } as const;
@@ -2,7 +2,16 @@
  * Utility functions for JSONMan library
  */
 
-import { JSONValue, JSONObject, JSONArray } from '../core/types';
+import {
+  JSONValue,
+  JSONObject,
+  JSONArray,
+  LosslessJSONValue,
+  SafeStringifyOptions,
+  SecurityOptions,
+} from '../core/types';
+import { JSONDecimal } from '../core/JSONDecimal';
+import { UNSAFE_KEYS } from './constants';
 
 /**
  * Type guards for JSON values
@@ -30,26 +39,37 @@ export function safeParseJSON(json: string): { success: true; data: JSONValue }
 }
 
 /**
- * Deep clone a JSON value
+ * Deep clone a JSON value. Shared references and cycles are kept: an object
+ * reached twice in the original is one object in the clone.
  */
 export function deepClone<T extends JSONValue>(value: T): T {
-  if (isPrimitive(value)) {
-    return value;
-  }
-  
-  if (isArray(value)) {
-    return value.map(item => deepClone(item)) as T;
-  }
-  
-  if (isObject(value)) {
+  const clones = new Map<JSONObject | JSONArray, JSONValue>();
+
+  const clone = (item: JSONValue): JSONValue => {
+    if (isPrimitive(item)) {
+      return item;
+    }
+    const existing = clones.get(item);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    if (isArray(item)) {
+      const cloned: JSONArray = [];
+      clones.set(item, cloned);
+      item.forEach(child => cloned.push(clone(child)));
+      return cloned;
+    }
+
     const cloned: JSONObject = {};
-    for (const [key, val] of Object.entries(value)) {
-      cloned[key] = deepClone(val);
+    clones.set(item, cloned);
+    for (const [key, val] of Object.entries(item)) {
+      cloned[key] = clone(val);
     }
-    return cloned as T;
-  }
-  
-  return value;
+    return cloned;
+  };
+
+  return clone(value) as T;
 }
 
 /**
@@ -98,13 +118,27 @@ export function getByPath(obj: JSONValue, path: string): JSONValue | undefined {
 }
 
 /**
- * Set a value in an object using a path (dot notation)
+ * Set a value in an object using a path (dot notation).
+ * With `secure`, paths through __proto__, constructor or prototype are skipped.
  */
-export function setByPath(obj: JSONObject, path: string, value: JSONValue): void {
+export function setByPath(
+  obj: JSONObject,
+  path: string,
+  value: JSONValue,
+  options?: SecurityOptions
+): void {
   if (!path) return;
   
   const keys = path.split('.');
   let current: any = obj;
+
+  if (options?.secure) {
+    const unsafe = keys.find(isUnsafeKey);
+    if (unsafe !== undefined) {
+      options.warnings?.push(`Skipped unsafe key "${unsafe}" in path "${path}"`);
+      return;
+    }
+  }
   
   for (let i = 0; i < keys.length - 1; i++) {
     const key = keys[i]!;
@@ -155,6 +189,65 @@ export function deleteByPath(obj: JSONObject, path: string): boolean {
   return false;
 }
 
+/**
+ * Whether writing this key could reach an object's prototype
+ */
+export function isUnsafeKey(key: string): boolean {
+  return UNSAFE_KEYS.includes(key);
+}
+
+/**
+ * Whether a parsed value contains __proto__, constructor or prototype keys at any depth
+ */
+export function hasUnsafeKeys(value: JSONValue): boolean {
+  if (isArray(value)) {
+    return value.some(hasUnsafeKeys);
+  }
+  if (isObject(value)) {
+    return Object.keys(value).some(key => isUnsafeKey(key) || hasUnsafeKeys(value[key]!));
+  }
+  return false;
+}
+
+/**
+ * Format path segments as a JSONPath expression, e.g. `$.users[0]["first name"]`
+ */
+export function formatJSONPath(segments: Array<string | number>, root: string = '$'): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') {
+      return `${path}[${segment}]`;
+    }
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)
+      ? `${path}.${segment}`
+      : `${path}[${JSON.stringify(segment)}]`;
+  }, root);
+}
+
+/**
+ * Format path segments as an RFC 6901 JSON Pointer, e.g. `/users/0/first name`
+ */
+export function formatJSONPointer(segments: Array<string | number>): string {
+  return segments
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+/**
+ * Split an RFC 6901 JSON Pointer into its unescaped segments
+ */
+export function parseJSONPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with /`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
 /**
  * Check if a path exists in an object
  */
@@ -222,11 +315,15 @@ export function flatten(obj: JSONValue, separator: string = '.', prefix: string
 /**
  * Unflatten a dot notation object
  */
-export function unflatten(obj: Record<string, JSONValue>, separator: string = '.'): JSONValue {
+export function unflatten(
+  obj: Record<string, JSONValue>,
+  separator: string = '.',
+  options?: SecurityOptions
+): JSONValue {
   const result: JSONObject = {};
   
   for (const [key, value] of Object.entries(obj)) {
-    setByPath(result, key.replace(new RegExp(`\\${separator}`, 'g'), '.'), value);
+    setByPath(result, key.replace(new RegExp(`\\${separator}`, 'g'), '.'), value, options);
   }
   
   // If result has only numeric keys, convert to array
@@ -408,15 +505,308 @@ export function isValidJSON(str: string): boolean {
 }
 
 /**
- * Format JSON with custom indentation
+ * Format JSON with custom indentation.
+ * BigInt and JSONDecimal values are written as plain numbers.
+ * Circular structures throw a TypeError; see safeStringify.
+ */
+export function formatJSON(obj: LosslessJSONValue, indent: number | string = 2): string {
+  return hasLosslessNumbers(obj) ? stringifyLossless(obj, indent) : JSON.stringify(obj, null, indent);
+}
+
+/**
+ * Minify JSON (remove all whitespace).
+ * BigInt and JSONDecimal values are written as plain numbers.
+ */
+export function minifyJSON(obj: LosslessJSONValue): string {
+  return hasLosslessNumbers(obj) ? stringifyLossless(obj, '') : JSON.stringify(obj);
+}
+
+/**
+ * Stringify without throwing on circular structures. By default a circular
+ * reference is written as "[Circular ~.path.to.target]"; with `cycles: 'ref'`
+ * the output is that of decycle, which retrocycle can turn back into the
+ * original graph.
+ */
+export function safeStringify(value: JSONValue, options: SafeStringifyOptions = {}): string {
+  const acyclic = options.cycles === 'ref' ? decycle(value) : copyGraph(value, 'marker');
+  return formatJSON(acyclic, options.indent ?? '');
+}
+
+/**
+ * Copy a value, replacing every object or array reached a second time with
+ * `{"$ref": "#/path"}`, a JSON Pointer URI fragment for its first occurrence.
+ * Both cycles and shared references are recorded. Values with a toJSON
+ * method, such as Dates and JSONDecimals, are kept as they are.
  */
-export function formatJSON(obj: JSONValue, indent: number | string = 2): string {
-  return JSON.stringify(obj, null, indent);
+export function decycle(value: JSONValue): JSONValue {
+  return copyGraph(value, 'ref');
 }
 
 /**
- * Minify JSON (remove all whitespace)
+ * Undo decycle in place, replacing each `{"$ref": "#/path"}` with the value
+ * it points to, and return the value. References that do not resolve are
+ * left alone, as they may be ordinary data; a document that uses `$ref` for
+ * its own purposes (JSON Schema, say) has its resolvable ones replaced too.
  */
-export function minifyJSON(obj: JSONValue): string {
-  return JSON.stringify(obj);
+export function retrocycle(value: JSONValue): JSONValue {
+  const refs: Array<{ holder: JSONObject | JSONArray; key: string; ref: string }> = [];
+  const visited = new Set<JSONValue>();
+
+  const visit = (holder: JSONObject | JSONArray, key: string): void => {
+    const item = (holder as JSONObject)[key]!;
+    if (isPrimitive(item) || visited.has(item)) {
+      return;
+    }
+    if (isRef(item)) {
+      refs.push({ holder, key, ref: item.$ref });
+      return;
+    }
+    visited.add(item);
+    Object.keys(item).forEach(childKey => visit(item, childKey));
+  };
+
+  const root: JSONObject = { '': value };
+  visit(root, '');
+  for (const { holder, key, ref } of refs) {
+    const target = resolveRef(value, ref);
+    if (target !== undefined) {
+      (holder as JSONObject)[key] = target;
+    }
+  }
+  return root['']!;
+}
+
+/**
+ * Find a reference that closes a cycle, as JSON Pointers to where it sits
+ * (`path`) and to the object it points back to (`target`)
+ */
+export function findCircularReference(
+  value: JSONValue
+): { path: string; target: string } | undefined {
+  const ancestors = new Map<JSONValue, Array<string | number>>();
+
+  const search = (
+    item: JSONValue,
+    path: Array<string | number>
+  ): { path: string; target: string } | undefined => {
+    if (isPrimitive(item)) {
+      return undefined;
+    }
+    const target = ancestors.get(item);
+    if (target) {
+      return { path: formatJSONPointer(path), target: formatJSONPointer(target) };
+    }
+
+    ancestors.set(item, path);
+    const entries: Array<[string | number, JSONValue]> = isArray(item)
+      ? item.map((child, i) => [i, child])
+      : Object.entries(item);
+    for (const [key, child] of entries) {
+      const found = search(child, [...path, key]);
+      if (found) {
+        return found;
+      }
+    }
+    ancestors.delete(item);
+    return undefined;
+  };
+
+  return search(value, []);
+}
+
+/**
+ * Check whether a JSON number literal changes value when read as a JavaScript number
+ */
+export function losesPrecision(raw: string): boolean {
+  // Up to 15 significant digits always survive a round trip through a double
+  if (raw.length <= 15 && !/[eE]/.test(raw)) {
+    return false;
+  }
+  return normalizeDecimal(String(Number(raw))) !== normalizeDecimal(raw);
+}
+
+/**
+ * Reduce a decimal literal to sign, significant digits and exponent so that
+ * equal values compare equal (1.50, 15e-1 and 1.5 all become 15e-1)
+ */
+function normalizeDecimal(text: string): string {
+  const match = /^(-?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+  if (!match) {
+    return text;
+  }
+
+  const [, sign = '', integer = '', fraction = '', exponent = '0'] = match;
+  const digits = (integer + fraction).replace(/^0+/, '');
+  if (digits === '') {
+    return '0';
+  }
+
+  const significant = digits.replace(/0+$/, '');
+  const scale = Number(exponent) - fraction.length + (digits.length - significant.length);
+  return `${sign}${significant}e${scale}`;
+}
+
+function hasLosslessNumbers(value: unknown, seen: Set<object> = new Set()): boolean {
+  if (typeof value === 'bigint' || value instanceof JSONDecimal) {
+    return true;
+  }
+  if (typeof value === 'object' && value !== null && !seen.has(value)) {
+    seen.add(value);
+    return Object.values(value).some(item => hasLosslessNumbers(item, seen));
+  }
+  return false;
+}
+
+/**
+ * The walk behind decycle ('ref': every repeated object becomes a $ref) and
+ * safeStringify's default ('marker': only references back to an ancestor
+ * become a "[Circular ~path]" string)
+ */
+function copyGraph(value: JSONValue, mode: 'ref' | 'marker'): JSONValue {
+  // Where each object was first seen; in 'marker' mode only while it is being copied
+  const seen = new Map<JSONValue, Array<string | number>>();
+
+  const copy = (item: JSONValue, path: Array<string | number>): JSONValue => {
+    if (isPrimitive(item) || typeof (item as { toJSON?: unknown }).toJSON === 'function') {
+      return item;
+    }
+    const first = seen.get(item);
+    if (first) {
+      return mode === 'ref'
+        ? { $ref: '#' + formatJSONPointer(first).split('/').map(encodeURIComponent).join('/') }
+        : `[Circular ~${first.map(segment => `.${segment}`).join('')}]`;
+    }
+
+    seen.set(item, path);
+    try {
+      if (isArray(item)) {
+        return item.map((child, i) => copy(child, [...path, i]));
+      }
+      // fromEntries defines keys, so an own __proto__ key is copied as a key
+      return Object.fromEntries(
+        Object.entries(item).map(([key, child]) => [key, copy(child, [...path, key])])
+      );
+    } finally {
+      if (mode === 'marker') {
+        seen.delete(item);
+      }
+    }
+  };
+
+  return copy(value, []);
+}
+
+function isRef(value: JSONValue): value is { $ref: string } {
+  return (
+    isObject(value) &&
+    Object.keys(value).length === 1 &&
+    typeof value.$ref === 'string' &&
+    value.$ref.startsWith('#')
+  );
+}
+
+/**
+ * Follow a `#/path` reference from decycle, or return undefined
+ */
+function resolveRef(root: JSONValue, ref: string): JSONValue | undefined {
+  let segments: string[];
+  try {
+    segments = parseJSONPointer(ref.slice(1).split('/').map(decodeURIComponent).join('/'));
+  } catch {
+    return undefined;
+  }
+
+  let current: JSONValue = root;
+  for (const segment of segments) {
+    if (isPrimitive(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as JSONObject)[segment]!;
+  }
+  return current;
+}
+
+/**
+ * JSON.stringify with BigInt and JSONDecimal support
+ */
+function stringifyLossless(value: LosslessJSONValue, indent: number | string): string {
+  const gap = typeof indent === 'number' ? ' '.repeat(Math.min(10, indent)) : indent.slice(0, 10);
+  return writeValue({ '': value }, '', gap, '', new Set())!;
+}
+
+function writeValue(
+  holder: Record<string, unknown>,
+  key: string,
+  gap: string,
+  indentation: string,
+  ancestors: Set<object>
+): string | undefined {
+  let value = holder[key];
+
+  if (value instanceof JSONDecimal) {
+    return value.value;
+  }
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    'toJSON' in value &&
+    typeof value.toJSON === 'function'
+  ) {
+    value = value.toJSON(key);
+  }
+
+  switch (typeof value) {
+    case 'bigint':
+      return value.toString();
+    case 'number':
+      return Number.isFinite(value) ? String(value) : 'null';
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value);
+    case 'object':
+      break;
+    default:
+      return undefined;
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+  if (ancestors.has(value)) {
+    throw new TypeError('Converting circular structure to JSON');
+  }
+
+  const inner = indentation + gap;
+  const separator = gap ? `,\n${inner}` : ',';
+  const wrap = (open: string, members: string[], close: string): string => {
+    if (members.length === 0) {
+      return open + close;
+    }
+    return gap
+      ? `${open}\n${inner}${members.join(separator)}\n${indentation}${close}`
+      : `${open}${members.join(separator)}${close}`;
+  };
+
+  // Array items are read by their index as a string key, as JSON.stringify does
+  const container = value as Record<string, unknown>;
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      const items = value.map(
+        (_, index) => writeValue(container, String(index), gap, inner, ancestors) ?? 'null'
+      );
+      return wrap('[', items, ']');
+    }
+
+    const members: string[] = [];
+    for (const memberKey of Object.keys(value)) {
+      const member = writeValue(container, memberKey, gap, inner, ancestors);
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(memberKey)}:${gap ? ' ' : ''}${member}`);
+      }
+    }
+    return wrap('{', members, '}');
+  } finally {
+    ancestors.delete(value);
+  }
 }
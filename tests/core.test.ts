@@ -2,8 +2,11 @@
  * Core JSONMan Tests
  */
 
-import JSONMan from '../src/index';
-import { JSONParseError } from '../src/core/errors';
+import JSONMan, { fix } from '../src/index';
+import { JSONEncodingError, JSONFixError, JSONParseError } from '../src/core/errors';
+import { FixRule } from '../src/core/types';
+import { Parser } from '../src/modules/parser/Parser';
+import { DEFAULT_OPTIONS } from '../src/utils/constants';
 
 describe('JSONMan Core Functionality', () => {
   describe('Static Methods', () => {
@@ -36,6 +39,22 @@ describe('JSONMan Core Functionality', () => {
       expect(result.data).toEqual({ count: 5 });
     });
 
+      it('should report the exact position of syntax errors', () => {
+        const result = JSONMan.parse('{\n  "name": \'John\'\n}');
+
+        expect(result.success).toBe(false);
+        expect(result.error?.position).toEqual({ line: 2, column: 11, index: 12 });
+        expect(result.error?.context?.at).toBe("'");
+      });
+
+      it('should enforce parse limits with typed error codes', () => {
+        const result = JSONMan.parse('[[[1]]]', { maxDepth: 2 });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBeInstanceOf(JSONParseError);
+        expect(result.error?.code).toBe('DEPTH_EXCEEDED');
+      });
+
       it('should handle empty string', () => {
         const result = JSONMan.parse('');
         
@@ -147,9 +166,9 @@ describe('JSONMan Core Functionality', () => {
           expected: { x: '\n' }
         },
         {
-          name: 'invalidEscapeRemoved',
+          name: 'hexEscapeConverted',
           input: '{x:"\\x01"}',
-          expected: { x: '' }
+          expected: { x: '\u0001' }
         },
         {
           name: 'multipleRootObjects',
@@ -249,8 +268,8 @@ describe('JSONMan Core Functionality', () => {
         expect(result.success).toBe(true);
         const parsedResult = JSONMan.parse(result.data!);
         expect(parsedResult.data).toEqual({ name: 'John', age: 30 });
-        expect(result.fixes).toHaveLength(1);
-        expect(result.fixes[0]?.type).toBe('quote');
+        expect(result.fixes).toHaveLength(3);
+        expect(result.fixes.every(fix => fix.type === 'quote' && fix.rule === 'quotes')).toBe(true);
       });
 
       it('should remove trailing commas', () => {
@@ -292,6 +311,332 @@ describe('JSONMan Core Functionality', () => {
         expect(result.success).toBe(false);
         expect(result.error).toBeInstanceOf(JSONParseError);
       });
+
+      it('should leave string contents byte-identical', () => {
+        const result = JSONMan.fix(
+          `{note: 'a b c', url: "http://x.y/z // not a comment", text: "one two: three", accent: "caf\\u00e9", tags: ['x',]}`
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(
+          '{"note": "a b c", "url": "http://x.y/z // not a comment", "text": "one two: three", "accent": "caf\\u00e9", "tags": ["x"]}'
+        );
+      });
+
+      it('should keep the meaning of JavaScript escapes', () => {
+        const result = JSONMan.fix(`{x: "\\x41\\'\\v", y: 'it\\'s "ok"'}`);
+
+        expect(result.data).toBe(`{"x": "\\u0041'\\u000b", "y": "it's \\"ok\\""}`);
+        expect(JSON.parse(result.data!)).toEqual({ x: "A'\v", y: 'it\'s "ok"' });
+      });
+
+      it('should only touch the tokens a repair is about', () => {
+        expect(JSONMan.fix('[[1, 2], [3],]').data).toBe('[[1, 2], [3]]');
+        expect(JSONMan.fix('{a: +1, b: .5, c: Infinity, d: None}').data).toBe(
+          '{"a": 1, "b": 0.5, "c": null, "d": null}'
+        );
+        expect(JSONMan.fix('{"a": {"b": 1} "c": "x y" "d": 2}').data).toBe(
+          '{"a": {"b": 1}, "c": "x y", "d": 2}'
+        );
+        expect(JSONMan.fix('{"a": "hel').data).toBe('{"a": "hel"}');
+      });
+
+      it('should report each fix where it was made in the input', () => {
+        const result = JSONMan.fix("// c\n{a: 'x', b: [1, 2,],\n  c: None}");
+
+        expect(result.fixes.map(fix => fix.rule)).toEqual([
+          'comments',
+          'literals',
+          'quotes',
+          'unquoted-keys',
+          'unquoted-keys',
+          'unquoted-keys',
+          'trailing-commas',
+          'whitespace',
+        ]);
+        expect(result.fixes.find(fix => fix.rule === 'literals')).toEqual({
+          type: 'other',
+          rule: 'literals',
+          description: expect.any(String),
+          confidence: 'medium',
+          position: { start: 31, end: 35, line: 3, column: 6 },
+          original: 'None',
+          fixed: 'null',
+        });
+        expect(result.fixes.find(fix => fix.rule === 'trailing-commas')).toMatchObject({
+          position: { start: 22, end: 23, line: 2, column: 18 },
+          original: ',',
+          fixed: '',
+        });
+      });
+
+      describe('options', () => {
+        const messy = "// settings\n{name: 'Zoë', tags: ['a', 'b',],}\n";
+
+        it('should default to DEFAULT_OPTIONS.FIX', () => {
+          expect(JSONMan.fix(messy).data).toBe('{"name": "Zoë", "tags": ["a", "b"]}');
+          expect(JSONMan.fix(messy, DEFAULT_OPTIONS.FIX).data).toBe(JSONMan.fix(messy).data);
+        });
+
+        it('should keep comments as JSONC with comments: preserve', () => {
+          const result = JSONMan.fix(messy, { comments: 'preserve' });
+
+          expect(result.data).toBe('// settings\n{"name": "Zoë", "tags": ["a", "b"]}');
+          expect(Parser.safe(result.data!, { mode: 'jsonc' }).data).toEqual({
+            name: 'Zoë',
+            tags: ['a', 'b'],
+          });
+          expect(JSONMan.fix('// nothing here', { comments: 'preserve' }).data).toBe(
+            '// nothing here\nnull'
+          );
+        });
+
+        it('should write strings with the quotes asked for', () => {
+          const input = `{a: "it's", b: 'say "hi"'}`;
+
+          expect(JSONMan.fix(input, { quotes: 'single' }).data).toBe(
+            `{'a': 'it\\'s', 'b': 'say "hi"'}`
+          );
+          expect(JSONMan.fix(input, { quotes: 'preserve' }).data).toBe(
+            `{"a": "it's", "b": 'say "hi"'}`
+          );
+          expect(JSONMan.fix(input, { quotes: 'double' }).data).toBe(
+            `{"a": "it's", "b": "say \\"hi\\""}`
+          );
+        });
+
+        it('should remove, keep or add trailing commas', () => {
+          const input = '{"a": [1, 2,], "b": {},}';
+
+          expect(JSONMan.fix(input, { trailingCommas: 'remove' }).data).toBe('{"a": [1, 2], "b": {}}');
+          expect(JSONMan.fix(input, { trailingCommas: 'preserve' }).data).toBe(input);
+
+          const added = JSONMan.fix('{"a": [1, 2], "b": {}}', { trailingCommas: 'add' });
+          expect(added.data).toBe('{"a": [1, 2,], "b": {},}');
+          expect(added.fixes.map(fix => fix.description)).toEqual([
+            'Added trailing commas',
+            'Added trailing commas',
+          ]);
+        });
+
+        it('should leave missing commas and brackets alone when asked', () => {
+          const missing = JSONMan.fix('{"a": 1 "b": 2}', { missingCommas: 'ignore' });
+          expect(missing.success).toBe(false);
+          expect(missing.error).toBeInstanceOf(JSONParseError);
+
+          expect(JSONMan.fix('[1, 2', { brackets: 'preserve' }).success).toBe(false);
+          expect(JSONMan.fix('[1, 2', { brackets: 'balance' }).data).toBe('[1, 2]');
+        });
+
+        it('should normalize, minify or keep whitespace', () => {
+          const input = '  {\r\n  "a": 1,   \r\n  "b": [1, 2]\r\n}  \n';
+
+          expect(JSONMan.fix(input).data).toBe('{\n  "a": 1,\n  "b": [1, 2]\n}');
+          expect(JSONMan.fix(input, { whitespace: 'minify' }).data).toBe('{"a":1,"b":[1,2]}');
+          expect(JSONMan.fix(input, { whitespace: 'preserve' }).data).toBe(input);
+          expect(JSONMan.fix('{"s": "a  b"}', { whitespace: 'minify' }).data).toBe('{"s":"a  b"}');
+          expect(
+            JSONMan.fix('{"a": 1 // one\n}', { whitespace: 'minify', comments: 'preserve' }).data
+          ).toBe('{"a":1// one\n}');
+        });
+      });
+
+      describe('dryRun', () => {
+        const input = '{\n  "a": [1, 2,],\n  "b": None,\n  "c": [3\n';
+
+        it('should propose the repairs without applying them', () => {
+          const result = JSONMan.fix(input, { dryRun: true });
+
+          expect(result.success).toBe(true);
+          expect(result.data).toBeUndefined();
+          expect(result.fixes).toEqual(JSONMan.fix(input).fixes);
+          expect(Parser.applyEdits(input, result.edits!)).toBe(JSONMan.fix(input).data);
+          expect(JSONMan.fix(input).edits).toBeUndefined();
+        });
+
+        it('should rate each edit by its least certain repair', () => {
+          const { edits } = JSONMan.fix(input, { dryRun: true });
+
+          expect(edits).toMatchObject([
+            { offset: 14, length: 1, content: '', confidence: 'high' },
+            { offset: 25, length: 4, content: 'null', confidence: 'medium' },
+            { offset: 40, length: 1, content: ']}', confidence: 'low' },
+          ]);
+          expect(edits![2]!.fixes.map(fix => fix.rule)).toEqual(['brackets', 'whitespace']);
+
+          const high = edits!.filter(edit => edit.confidence === 'high');
+          expect(Parser.applyEdits(input, high)).toBe(
+            '{\n  "a": [1, 2],\n  "b": None,\n  "c": [3\n'
+          );
+        });
+
+        it('should give the changes as a unified diff', () => {
+          expect(JSONMan.fix(input, { dryRun: true }).diff).toBe(
+            [
+              '--- input',
+              '+++ fixed',
+              '@@ -1,4 +1,4 @@',
+              ' {',
+              '-  "a": [1, 2,],',
+              '-  "b": None,',
+              '-  "c": [3',
+              '+  "a": [1, 2],',
+              '+  "b": null,',
+              '+  "c": [3]}',
+              '\\ No newline at end of file',
+              '',
+            ].join('\n')
+          );
+          expect(JSONMan.fix('{"a": 1}', { dryRun: true })).toMatchObject({ edits: [], diff: '' });
+        });
+
+        it('should still propose edits that do not give valid JSON', () => {
+          const result = JSONMan.fix('{"a": 1 "b": 2}', { dryRun: true, missingCommas: 'ignore' });
+
+          expect(result.success).toBe(false);
+          expect(result.edits).toEqual([]);
+        });
+      });
+
+      it('should decode byte input', () => {
+        const utf16 = Buffer.from("\uFEFF{name: 'Zoë',}", 'utf16le');
+        const result = JSONMan.fix(utf16);
+
+        expect(result.success).toBe(true);
+        expect(JSON.parse(result.data!)).toEqual({ name: 'Zoë' });
+        expect(result.fixes[0]).toMatchObject({ description: 'Removed Unicode BOM' });
+
+        const base64 = JSONMan.fix(Buffer.from('[1,2,]').toString('base64'), { encoding: 'base64' });
+        expect(JSON.parse(base64.data!)).toEqual([1, 2]);
+
+        const invalid = JSONMan.fix(new Uint8Array([0x7b, 0xff, 0x7d]));
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toBeInstanceOf(JSONEncodingError);
+        expect(invalid.fixes).toEqual([]);
+      });
+
+      describe('rules', () => {
+        // Turns `host=localhost` lines into members the built-in rules can finish off
+        const keyValue: FixRule = {
+          name: 'key-value',
+          description: 'Converted key=value lines to an object',
+          type: 'other',
+          confidence: 'medium',
+          apply: (_tokens, text) => {
+            const lines = text.trim().split('\n');
+            if (!lines.every(line => /^\w+=/.test(line))) {
+              return [];
+            }
+            const members = lines.map(line => {
+              const [key, value] = line.split(/=(.*)/) as [string, string];
+              return `${key}: ${/^-?\d+$/.test(value) ? value : JSON.stringify(value)}`;
+            });
+            return [{ offset: 0, length: text.length, content: `{${members.join(', ')}}` }];
+          },
+        };
+
+        afterEach(() => {
+          JSONMan.fixer.remove('key-value');
+          JSONMan.fixer.names().forEach(name => JSONMan.fixer.enable(name));
+        });
+
+        it('should run the built-in rules in order', () => {
+          expect(new JSONMan.Fixer().names()).toEqual([
+            'bom',
+            'comments',
+            'missing-braces',
+            'literals',
+            'numbers',
+            'duplicate-delimiters',
+            'quotes',
+            'unescaped-quotes',
+            'escapes',
+            'unquoted-keys',
+            'missing-commas',
+            'double-commas',
+            'dangling-artifacts',
+            'unterminated-strings',
+            'brackets',
+            'trailing-commas',
+            'multiple-roots',
+            'stringified-json',
+            'bare-word',
+            'empty-input',
+            'whitespace',
+          ]);
+        });
+
+        it('should apply registered rules to every fix', () => {
+          JSONMan.fixer.use(keyValue);
+          const result = JSONMan.fix('host=localhost\nport=8080\n');
+
+          expect(result.data).toBe('{"host": "localhost", "port": 8080}');
+          expect(result.fixes[0]).toMatchObject({
+            type: 'other',
+            rule: 'key-value',
+            description: 'Converted key=value lines to an object',
+            confidence: 'medium',
+          });
+          expect(result.fixes.slice(1).map(fix => fix.rule)).toEqual([
+            'unquoted-keys',
+            'unquoted-keys',
+          ]);
+          expect(fix('a=1').data).toBe('{"a": 1}');
+        });
+
+        it('should turn rules off and on', () => {
+          const fixer = new JSONMan.Fixer().disable('multiple-roots');
+
+          expect(fixer.isEnabled('multiple-roots')).toBe(false);
+          expect(fixer.fix('{"a": 1}\n{"b": 2}').success).toBe(false);
+          expect(fixer.names()).toContain('multiple-roots');
+
+          fixer.enable('multiple-roots');
+          expect(fixer.fix('{"a": 1}\n{"b": 2}').data).toBe('[{"a": 1},\n{"b": 2}]');
+        });
+
+        it('should place and move rules', () => {
+          const fixer = new JSONMan.Fixer()
+            .use(keyValue, { after: 'comments' })
+            .move('whitespace', { before: 'bom' });
+
+          expect(fixer.names().slice(0, 4)).toEqual(['whitespace', 'bom', 'comments', 'key-value']);
+          expect(fixer.fix('# hosts\nhost=a').success).toBe(false);
+          expect(fixer.fix('// hosts\nhost=a').data).toBe('{"host": "a"}');
+        });
+
+        it('should keep changes to a clone to that clone', () => {
+          const fixer = JSONMan.fixer.clone().use(keyValue).disable('comments');
+
+          expect(fixer.fix('a=1').data).toBe('{"a": 1}');
+          expect(JSONMan.fix('a=1').success).toBe(false);
+          expect(JSONMan.fixer.isEnabled('comments')).toBe(true);
+        });
+
+        it('should return errors thrown by rules', () => {
+          const fail = (): never => {
+            throw new Error('boom');
+          };
+          const result = new JSONMan.Fixer().use({ ...keyValue, apply: fail }).fix('{}');
+
+          expect(result.success).toBe(false);
+          expect(result.error).toBeInstanceOf(JSONParseError);
+        });
+
+        it('should reject duplicate names, unknown rules and removing built-ins', () => {
+          const fixer = new JSONMan.Fixer().use(keyValue);
+
+          expect(() => fixer.use(keyValue)).toThrow('already registered');
+          expect(() => fixer.use({ ...keyValue, name: 'other' }, { before: 'missing' })).toThrow(
+            "there is no rule named 'missing'"
+          );
+          expect(() => fixer.disable('missing')).toThrow(JSONFixError);
+          expect(() => fixer.move('quotes', { after: 'quotes' })).toThrow('relative to itself');
+          expect(() => fixer.remove('quotes')).toThrow(JSONFixError);
+          expect(fixer.remove('key-value')).toBe(true);
+          expect(fixer.remove('key-value')).toBe(false);
+        });
+      });
     });
 
     describe('validate()', () => {
@@ -319,6 +664,14 @@ describe('JSONMan Core Functionality', () => {
         expect(result.errors).toContain('Data is not serializable to JSON');
       });
 
+      it('should say where a circular reference is', () => {
+        const data: any = { list: [{ name: 'a' }] };
+        data.list[0].parent = data.list;
+
+        expect(JSONMan.validate(data).errors).toContain('Circular reference at /list/0/parent back to /list');
+        expect(JSONMan.validate({ self: null } as any).valid).toBe(true);
+      });
+
       it('should validate null as valid JSON', () => {
         const result = JSONMan.validate(null);
         
@@ -405,6 +758,15 @@ describe('JSONMan Core Functionality', () => {
         expect(result.depth).toBe(3);
       });
 
+      it('should analyze circular structures', () => {
+        const data: any = { user: { name: 'John' } };
+        data.user.self = data;
+
+        const result = JSONMan.analyze(data);
+        expect(result.depth).toBe(2);
+        expect(result.size).toBe('{"user":{"name":"John","self":"[Circular ~]"}}'.length);
+      });
+
       it('should analyze arrays', () => {
         const data = [1, 2, 3, [4, 5]];
         const result = JSONMan.analyze(data);
@@ -517,6 +879,35 @@ describe('JSONMan Core Functionality', () => {
         expect(JSONMan.merge([1, 2], { a: 1 })).toEqual([1, 2]);
       });
 
+      it('should skip unsafe keys in secure mode', () => {
+        const attack = JSON.parse('{"__proto__": {"isAdmin": true}, "nested": {"constructor": 1}}');
+        const warnings: string[] = [];
+        const result = JSONMan.merge({ nested: { a: 1 } }, attack, undefined, { secure: true, warnings }) as any;
+
+        expect(result).toEqual({ nested: { a: 1 } });
+        expect(result.isAdmin).toBeUndefined();
+        expect(warnings).toEqual([
+          'Skipped unsafe key "__proto__" at $.__proto__',
+          'Skipped unsafe key "constructor" at $.nested.constructor',
+        ]);
+      });
+
+      it('should skip unsafe keys inside arrays and copied values in secure mode', () => {
+        const attack = JSON.parse('{"list": [{"__proto__": {"isAdmin": true}}], "added": {"deep": {"prototype": 1}}}');
+        const own = JSON.parse('{"items": [[{"constructor": 1, "id": 1}]]}');
+        const warnings: string[] = [];
+        const result = JSONMan.merge(own, attack, undefined, { secure: true, warnings }) as any;
+
+        expect(result).toEqual({ items: [[{ id: 1 }]], list: [{}], added: { deep: {} } });
+        expect(Object.keys(result.list[0])).toEqual([]);
+        expect(warnings).toEqual([
+          'Skipped unsafe key "constructor" at $.items[0][0].constructor',
+          'Skipped unsafe key "__proto__" at $.list[0].__proto__',
+          'Skipped unsafe key "prototype" at $.added.deep.prototype',
+        ]);
+        expect(JSONMan.merge(attack.list, {}, undefined, { secure: true })).toEqual([{}]);
+      });
+
       it('should overwrite conflicting values', () => {
         const obj1 = { name: 'John', age: 30 };
         const obj2 = { name: 'Jane', city: 'NYC' };
@@ -5,9 +5,22 @@
 import {
   isValidJSON,
   deepClone,
+  decycle,
+  retrocycle,
+  safeStringify,
+  findCircularReference,
   debounce,
-  throttle
+  throttle,
+  setByPath,
+  unflatten,
+  formatJSONPath,
+  formatJSONPointer,
+  parseJSONPointer,
+  formatJSON,
+  minifyJSON,
+  losesPrecision
 } from '../src/utils/helpers';
+import { JSONDecimal } from '../src/core/JSONDecimal';
 
 describe('Utility Functions', () => {
   describe('isValidJSON()', () => {
@@ -53,6 +66,112 @@ describe('Utility Functions', () => {
       expect(cloned[1]).not.toBe(arr[1]);
       expect(cloned[2]).not.toBe(arr[2]);
     });
+
+    it('should keep shared references and cycles', () => {
+      const shared = { id: 1 };
+      const obj: any = { a: shared, b: [shared] };
+      obj.b.push(obj);
+      const cloned = deepClone(obj);
+
+      expect(cloned.a).not.toBe(shared);
+      expect(cloned.b[0]).toBe(cloned.a);
+      expect(cloned.b[1]).toBe(cloned);
+    });
+  });
+
+  describe('safeStringify()', () => {
+    const circular = (): any => {
+      const root: any = { name: 'root', child: { tags: ['x'] } };
+      root.child.parent = root;
+      root.child.tags.push(root.child);
+      return root;
+    };
+
+    it('should match JSON.stringify for acyclic values', () => {
+      const shared = { a: 1 };
+      const value = { list: [shared, shared], n: null };
+
+      expect(safeStringify(value)).toBe(JSON.stringify(value));
+      expect(safeStringify(value, { indent: 2 })).toBe(JSON.stringify(value, null, 2));
+      expect(safeStringify({ big: 12345678901234567890n } as any)).toBe('{"big":12345678901234567890}');
+    });
+
+    it('should write circular references as markers', () => {
+      expect(safeStringify(circular())).toBe(
+        '{"name":"root","child":{"tags":["x","[Circular ~.child]"],"parent":"[Circular ~]"}}'
+      );
+    });
+
+    it('should write repeated references as $ref', () => {
+      const value = circular();
+      value.again = value.child.tags;
+
+      expect(JSON.parse(safeStringify(value, { cycles: 'ref' }))).toEqual({
+        name: 'root',
+        child: { tags: ['x', { $ref: '#/child' }], parent: { $ref: '#' } },
+        again: { $ref: '#/child/tags' },
+      });
+    });
+
+    it('should leave formatJSON throwing on cycles rather than overflowing', () => {
+      const value = circular();
+      value.big = 1n;
+
+      expect(() => formatJSON(value)).toThrow('Converting circular structure to JSON');
+      expect(() => minifyJSON(circular())).toThrow(TypeError);
+    });
+  });
+
+  describe('decycle() / retrocycle()', () => {
+    it('should restore cycles and shared references', () => {
+      const shared = { 'a b/c': [1] };
+      const root: any = { left: shared, right: { same: shared }, at: new Date(0) };
+      root.right.up = root;
+      shared['a b/c'].push(root.right);
+
+      const decycled = decycle(root) as any;
+      // right is first reached inside left
+      expect(decycled.left['a b/c'][1]).toEqual({ same: { $ref: '#/left' }, up: { $ref: '#' } });
+      expect(decycled.right).toEqual({ $ref: '#/left/a%20b~1c/1' });
+      expect(decycled.at).toBe(root.at);
+      expect(root.right.same).toBe(shared);
+
+      const restored = retrocycle(JSON.parse(JSON.stringify(decycled))) as any;
+      expect(restored.right.same).toBe(restored.left);
+      expect(restored.right.up).toBe(restored);
+      expect(restored.left['a b/c'][1]).toBe(restored.right);
+      expect(restored.at).toBe('1970-01-01T00:00:00.000Z');
+    });
+
+    it('should encode pointers as URI fragments', () => {
+      const shared = { x: 1 };
+      const decycled = decycle({ 'a b': shared, 'c/d~': shared, e: shared } as any) as any;
+
+      expect(decycled['c/d~']).toEqual({ $ref: '#/a%20b' });
+      expect(retrocycle(decycled)).toEqual({ 'a b': { x: 1 }, 'c/d~': { x: 1 }, e: { x: 1 } });
+
+      const nested = decycle({ 'c/d~': shared, e: shared } as any) as any;
+      expect(nested.e).toEqual({ $ref: '#/c~1d~0' });
+    });
+
+    it('should leave references that do not resolve alone', () => {
+      const value = { schema: { $ref: '#/definitions/missing' }, other: { $ref: 'http://x' } };
+
+      expect(retrocycle(deepClone(value))).toEqual(value);
+    });
+  });
+
+  describe('findCircularReference()', () => {
+    it('should locate the reference that closes a cycle', () => {
+      const value: any = { a: [{ b: null }] };
+      expect(findCircularReference(value)).toBeUndefined();
+
+      value.a[0].b = value.a;
+      expect(findCircularReference(value)).toEqual({ path: '/a/0/b', target: '/a' });
+
+      const shared = { s: 1 };
+      expect(findCircularReference([shared, shared])).toBeUndefined();
+    });
   });
 
   describe('Performance Utilities', () => {
@@ -119,4 +238,86 @@ describe('Utility Functions', () => {
       });
     });
   });
+
+  describe('secure path helpers', () => {
+    afterEach(() => {
+      delete (Object.prototype as any).polluted;
+    });
+
+    it('should skip unsafe paths in setByPath and report them', () => {
+      const target: any = {};
+      const warnings: string[] = [];
+
+      setByPath(target, '__proto__.polluted', true, { secure: true, warnings });
+
+      expect(({} as any).polluted).toBeUndefined();
+      expect(target).toEqual({});
+      expect(warnings).toEqual(['Skipped unsafe key "__proto__" in path "__proto__.polluted"']);
+    });
+
+    it('should skip unsafe keys in unflatten', () => {
+      const warnings: string[] = [];
+      const result = unflatten(
+        { 'a.b': 1, 'constructor.prototype.polluted': true },
+        '.',
+        { secure: true, warnings }
+      );
+
+      expect(result).toEqual({ a: { b: 1 } });
+      expect(({} as any).polluted).toBeUndefined();
+      expect(warnings).toHaveLength(1);
+    });
+  });
+
+  describe('formatJSONPath()', () => {
+    it('should format segments as JSONPath', () => {
+      expect(formatJSONPath([])).toBe('$');
+      expect(formatJSONPath(['users', 0, 'first name'])).toBe('$.users[0]["first name"]');
+    });
+  });
+
+  describe('formatJSONPointer()', () => {
+    it('should format segments as an escaped JSON Pointer', () => {
+      expect(formatJSONPointer([])).toBe('');
+      expect(formatJSONPointer(['users', 0, 'first name'])).toBe('/users/0/first name');
+      expect(formatJSONPointer(['a/b', 'm~n'])).toBe('/a~1b/m~0n');
+    });
+  });
+
+  describe('parseJSONPointer()', () => {
+    it('should split and unescape a JSON Pointer', () => {
+      expect(parseJSONPointer('')).toEqual([]);
+      expect(parseJSONPointer('/users/0/first name')).toEqual(['users', '0', 'first name']);
+      expect(parseJSONPointer('/a~1b/m~0n/~01')).toEqual(['a/b', 'm~n', '~1']);
+      expect(parseJSONPointer('/')).toEqual(['']);
+      expect(() => parseJSONPointer('users')).toThrow('must be empty or start with /');
+    });
+  });
+
+  describe('losesPrecision()', () => {
+    it('should compare number values rather than spelling', () => {
+      expect(losesPrecision('9007199254740993')).toBe(true);
+      expect(losesPrecision('9007199254740992')).toBe(false);
+      expect(losesPrecision('1.5000000000000000000')).toBe(false);
+      expect(losesPrecision('0.1000000000000000055511151231257827')).toBe(true);
+      expect(losesPrecision('1e400')).toBe(true);
+      expect(losesPrecision('15E-1')).toBe(false);
+    });
+  });
+
+  describe('formatJSON() / minifyJSON() with lossless numbers', () => {
+    const data: any = { id: 2n ** 64n, price: new JSONDecimal('19.90'), tags: [], skip: undefined };
+
+    it('should write BigInt and JSONDecimal values as numbers', () => {
+      expect(minifyJSON(data)).toBe('{"id":18446744073709551616,"price":19.90,"tags":[]}');
+    });
+
+    it('should indent like JSON.stringify', () => {
+      const plain = { id: 1, price: 19.9, tags: [], nested: { list: [1, null] } };
+      const lossless = { ...plain, id: 1n, price: new JSONDecimal('19.9') } as any;
+
+      expect(formatJSON(lossless)).toBe(JSON.stringify(plain, null, 2));
+      expect(formatJSON(lossless, '\t')).toBe(JSON.stringify(plain, null, '\t'));
+    });
+  });
 });
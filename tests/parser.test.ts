@@ -2,8 +2,32 @@
  * Parser Module Tests
  */
 
+import { Writable } from 'stream';
 import { Parser } from '../src/modules/parser/Parser';
-import { JSONParseError } from '../src/core/errors';
+import {
+  JSONEncodingError,
+  JSONParseError,
+  JSONTransformError,
+  JSONValidationError
+} from '../src/core/errors';
+import { Tokenizer } from '../src/modules/parser/Tokenizer';
+import { DescentParser } from '../src/modules/parser/DescentParser';
+import { StreamingParser } from '../src/modules/parser/StreamingParser';
+import { PathPattern } from '../src/modules/parser/PathPattern';
+import { JSONDecimal } from '../src/core/JSONDecimal';
+import { JSONMan } from '../src/core/JSONMan';
+import {
+  CSTElement,
+  CSTNode,
+  InputEncoding,
+  JSONSchema,
+  JSONValue,
+  LosslessJSONValue,
+  ParseOptions,
+  ParseStage,
+  StreamEvent
+} from '../src/core/types';
+import { formatJSON, minifyJSON } from '../src/utils/helpers';
 
 describe('Parser Module', () => {
   describe('safe()', () => {
@@ -87,6 +111,615 @@ describe('Parser Module', () => {
       expect(Parser.safe('42').data).toBe(42);
       expect(Parser.safe('"string"').data).toBe('string');
     });
+
+    it('should decode bytes', () => {
+      const result = Parser.safe(new TextEncoder().encode('{"name": "Zoë"}'));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ name: 'Zoë' });
+      expect(Parser.safe(Buffer.from('\uFEFF[1]', 'utf16le')).data).toEqual([1]);
+      expect(Parser.safe(Buffer.from('"é"', 'latin1')).error).toBeInstanceOf(JSONEncodingError);
+    });
+  });
+
+  describe('decode()', () => {
+    const json = '{"emoji": "😀"}';
+    const utf16be = (text: string): Uint8Array => Buffer.from(text, 'utf16le').swap16();
+    const utf32 = (text: string, littleEndian: boolean): Uint8Array => {
+      const bytes = new DataView(new ArrayBuffer([...text].length * 4));
+      [...text].forEach((char, i) => bytes.setUint32(i * 4, char.codePointAt(0)!, littleEndian));
+      return new Uint8Array(bytes.buffer);
+    };
+
+    it('should detect encodings from byte order marks', () => {
+      const cases: Array<[Uint8Array, string]> = [
+        [Buffer.from('\uFEFF' + json), 'utf8'],
+        [Buffer.from('\uFEFF' + json, 'utf16le'), 'utf16le'],
+        [utf16be('\uFEFF' + json), 'utf16be'],
+        [utf32('\uFEFF' + json, true), 'utf32le'],
+        [utf32('\uFEFF' + json, false), 'utf32be'],
+      ];
+
+      for (const [bytes, encoding] of cases) {
+        expect(Parser.decode(bytes)).toEqual({ text: json, encoding, bom: true });
+      }
+    });
+
+    it('should detect encodings from null bytes', () => {
+      expect(Parser.decode(Buffer.from(json)).encoding).toBe('utf8');
+      expect(Parser.decode(Buffer.from(json, 'utf16le'))).toEqual({ text: json, encoding: 'utf16le', bom: false });
+      expect(Parser.decode(utf16be(json)).encoding).toBe('utf16be');
+      expect(Parser.decode(utf32(json, true)).encoding).toBe('utf32le');
+      expect(Parser.decode(utf32(json, false)).text).toBe(json);
+      expect(Parser.decode(Buffer.from('1', 'utf16le')).text).toBe('1');
+      expect(Parser.decode(utf32('1', false)).encoding).toBe('utf32be');
+    });
+
+    it('should honour an explicit encoding', () => {
+      expect(Parser.decode(Buffer.from('"a"', 'utf16le'), 'utf16').encoding).toBe('utf16le');
+      expect(Parser.decode(utf16be('"a"'), 'utf16be').text).toBe('"a"');
+      expect(Parser.decode(Buffer.from('[1]'), 'ascii')).toEqual({ text: '[1]', encoding: 'ascii', bom: false });
+      expect(Parser.decode('{"a": 1}')).toEqual({ text: '{"a": 1}', bom: false });
+    });
+
+    it('should decode base64 text and bytes', () => {
+      const base64 = Buffer.from(json, 'utf16le').toString('base64');
+
+      expect(Parser.decode(base64, 'base64')).toEqual({ text: json, encoding: 'utf16le', bom: false });
+      expect(Parser.decode(Buffer.from(base64), 'base64').text).toBe(json);
+      expect(Parser.decode('WzEs\nMl0=', 'base64').text).toBe('[1,2]');
+      expect(Parser.decode('eyJhIjoxfQ', 'base64').text).toBe('{"a":1}');
+      expect(Parser.safe(Buffer.from('[true]').toString('base64url'), { encoding: 'base64' }).data).toEqual([true]);
+    });
+
+    it('should report invalid bytes with their offsets', () => {
+      const errors: Array<[Uint8Array | string, InputEncoding, string, number]> = [
+        [new Uint8Array([0x5b, 0x22, 0xc3, 0x28, 0x22, 0x5d]), 'auto', 'Incomplete UTF-8 sequence at offset 2', 2],
+        [new Uint8Array([0x22, 0xe2, 0x82]), 'auto', 'Incomplete UTF-8 sequence at offset 1', 1],
+        [new Uint8Array([0x22, 0xf0, 0x9f, 0x98, 0x22]), 'auto', 'Incomplete UTF-8 sequence at offset 1', 1],
+        [new Uint8Array([0x22, 0xc0, 0xaf, 0x22]), 'auto', 'Invalid UTF-8 byte 0xC0 at offset 1', 1],
+        [new Uint8Array([0x22, 0xed, 0xa0, 0x80, 0x22]), 'auto', 'Invalid UTF-8 sequence at offset 1', 1],
+        [new Uint8Array([0xff, 0xfe, 0x22, 0x00, 0x3d, 0xd8, 0x22, 0x00]), 'auto', 'Unpaired UTF-16LE surrogate 0xD83D at offset 4', 4],
+        [new Uint8Array([0x00, 0x31, 0x00]), 'auto', 'Incomplete UTF-16BE sequence at offset 2', 2],
+        [new Uint8Array([0x31, 0x00, 0x00, 0x00, 0x00, 0x00, 0x11, 0x00]), 'auto', 'Invalid UTF-32LE code point 0x110000 at offset 4', 4],
+        [new Uint8Array([0x31, 0x80]), 'ascii', 'Invalid ASCII byte 0x80 at offset 1', 1],
+        ['eyJh!IjoxfQ==', 'base64', 'Invalid base64 character "!" at offset 4', 4],
+        ['eyJhI', 'base64', 'Incomplete base64 data at offset 5', 5],
+        ['Iugi', 'base64', 'Incomplete UTF-8 sequence at offset 1 of the decoded base64 data', 1],
+      ];
+
+      for (const [input, encoding, message, offset] of errors) {
+        expect(() => Parser.decode(input, encoding)).toThrow(message);
+
+        const result = Parser.safe(input, { encoding });
+        expect(result.success).toBe(false);
+        expect(result.error).toBeInstanceOf(JSONEncodingError);
+        expect(result.error).toMatchObject({ code: 'INVALID_ENCODING', offset });
+      }
+    });
+  });
+
+  describe('lenient modes', () => {
+    it('should keep // inside string values when removing comments', () => {
+      const input = `{
+        // homepage
+        "url": "https://example.com/a//b", /* trailing */
+        "glob": "src/**/*.ts"
+      }`;
+      const result = Parser.safe(input, { mode: 'jsonc' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ url: 'https://example.com/a//b', glob: 'src/**/*.ts' });
+    });
+
+    it('should accept comments and trailing commas in jsonc mode', () => {
+      const result = Parser.safe('{"a": [1, 2,], /* c */ "b": 3,}', { mode: 'jsonc' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ a: [1, 2], b: 3 });
+    });
+
+    it('should not accept JSON5 syntax in jsonc mode', () => {
+      const result = Parser.safe("{'a': 1}", { mode: 'jsonc' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.position?.index).toBe(1);
+    });
+
+    it('should parse the JSON5 grammar in json5 mode', () => {
+      const input = `// JSON5 document
+{
+  unquoted: 'and you can quote me on that',
+  singleQuotes: 'I can use "double quotes" here',
+  lineBreaks: "Look, Mom! \\
+No \\\\n's!",
+  hexadecimal: 0xdecaf,
+  leadingDecimalPoint: .8675309, andTrailing: 8675309.,
+  positiveSign: +1,
+  trailingComma: 'in objects', andIn: ['arrays',],
+  "backwardsCompatible": "with JSON",
+  escapes: '\\x41\\v\\0\\'',
+  special: [Infinity, -Infinity, NaN],
+}`;
+      const result = Parser.safe(input, { mode: 'json5' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        unquoted: 'and you can quote me on that',
+        singleQuotes: 'I can use "double quotes" here',
+        lineBreaks: "Look, Mom! No \\n's!",
+        hexadecimal: 0xdecaf,
+        leadingDecimalPoint: 0.8675309,
+        andTrailing: 8675309,
+        positiveSign: 1,
+        trailingComma: 'in objects',
+        andIn: ['arrays'],
+        backwardsCompatible: 'with JSON',
+        escapes: "A\v\0'",
+        special: [Infinity, -Infinity, NaN],
+      });
+    });
+
+    it('should honor individual flags without a mode', () => {
+      expect(Parser.safe("{a: 'b'}", { allowUnquotedKeys: true, allowSingleQuotes: true }).data)
+        .toEqual({ a: 'b' });
+      expect(Parser.safe('[0x10]', { allowHexNumbers: true }).data).toEqual([16]);
+      expect(Parser.safe('[0x10]').success).toBe(false);
+    });
+
+    it('should let explicit flags override the mode preset', () => {
+      const result = Parser.safe('{a: 1}', { mode: 'json5', allowUnquotedKeys: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.position?.index).toBe(1);
+    });
+
+    it('should ignore every extension in strict mode', () => {
+      expect(Parser.safe('[1,]', { mode: 'json5', strict: true }).success).toBe(false);
+    });
+
+    it('should report exact positions in lenient input', () => {
+      const result = Parser.safe('{\n  // note\n  a: 1\n  b: 2\n}', { mode: 'json5' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.position).toEqual({ line: 4, column: 3, index: 21 });
+    });
+
+    it('should accept the JSON5 whitespace in json5 mode only', () => {
+      for (const space of ['\v', '\f', '\u00a0', '\ufeff', '\u2028', '\u2029', '\u3000']) {
+        const input = `{${space}a: [1,${space}2]${space}}`;
+
+        expect(Parser.safe(input, { mode: 'json5' }).data).toEqual({ a: [1, 2] });
+        expect(Parser.safe(input, { mode: 'jsonc', allowUnquotedKeys: true }).success).toBe(false);
+        expect(Parser.safe(`[1,${space}2]`, { allowExtendedWhitespace: true }).data).toEqual([1, 2]);
+      }
+
+      expect(Parser.tolerant('[1,\u00a02]').errors.map(error => error.message)).toEqual([
+        'Whitespace U+00A0 is not allowed',
+      ]);
+    });
+
+    it('should end line comments at every line terminator', () => {
+      expect(Parser.safe('[1, // one\r2]', { mode: 'jsonc' }).data).toEqual([1, 2]);
+      for (const end of ['\n', '\r', '\u2028', '\u2029']) {
+        expect(Parser.safe(`[1, // one${end}2]`, { mode: 'json5' }).data).toEqual([1, 2]);
+      }
+    });
+
+    it('should report unterminated block comments', () => {
+      const result = Parser.safe('{"a": 1 /* open', { mode: 'jsonc' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('unterminated block comment');
+    });
+
+    it('should apply the reviver to lenient input', () => {
+      const result = Parser.safe("{count: '5'}", {
+        mode: 'json5',
+        reviver: (key, value) => (key === 'count' ? parseInt(value as string, 10) : value),
+      });
+
+      expect(result.data).toEqual({ count: 5 });
+    });
+  });
+
+  describe('limits', () => {
+    const nested = (depth: number) => '['.repeat(depth) + ']'.repeat(depth);
+
+    it('should abort when maxDepth is exceeded', () => {
+      const result = Parser.safe('{"a": {"b": {"c": 1}}}', { maxDepth: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(JSONParseError);
+      expect(result.error?.code).toBe('DEPTH_EXCEEDED');
+      expect(result.error?.position?.index).toBe(12);
+    });
+
+    it('should apply PERFORMANCE_LIMITS.MAX_DEPTH by default', () => {
+      expect(Parser.safe(nested(100)).success).toBe(true);
+      expect(Parser.safe(nested(101)).error?.code).toBe('DEPTH_EXCEEDED');
+    });
+
+    it('should abort when maxSize is exceeded', () => {
+      const result = Parser.safe('[1, 2, 3]', { maxSize: 5 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SIZE_EXCEEDED');
+    });
+
+    it('should abort when maxNodes is exceeded', () => {
+      const result = Parser.safe('{"a": [1, 2], "b": "x"}', { maxNodes: 4 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NODES_EXCEEDED');
+      expect(result.error?.position?.index).toBe(19);
+      expect(Parser.safe('{"a": [1, 2], "b": "x"}', { maxNodes: 5 }).success).toBe(true);
+    });
+
+    it('should enforce limits in lenient modes', () => {
+      const result = Parser.safe('{a: {b: [/* deep */]}}', { mode: 'json5', maxDepth: 2 });
+
+      expect(result.error?.code).toBe('DEPTH_EXCEEDED');
+      expect(result.error?.position?.index).toBe(8);
+    });
+
+    it('should not count empty containers towards depth', () => {
+      const siblings = '[' + Array(10).fill('[]').join(',') + ']';
+
+      expect(Parser.safe(siblings, { maxDepth: 2, mode: 'json5' }).success).toBe(true);
+    });
+
+    it('should skip brackets and escaped quotes inside strings', () => {
+      const text = String.raw`["\\", "[[[[", "\"]"]`;
+
+      expect(Parser.safe(text, { maxDepth: 1 }).success).toBe(true);
+      expect(Parser.safe(text, { maxNodes: 4 }).success).toBe(true);
+      expect(Parser.safe(text, { maxNodes: 3 }).error?.position?.index).toBe(15);
+    });
+
+    it('should report limits before syntax errors', () => {
+      expect(Parser.safe(nested(5) + ',', { maxDepth: 3 }).error?.code).toBe('DEPTH_EXCEEDED');
+    });
+
+    it('should return warnings for the WARNING_* thresholds', () => {
+      const result = Parser.safe(nested(25));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings?.[0]).toContain('Nesting depth exceeds the recommended 20');
+      expect(Parser.safe(nested(5)).warnings).toBeUndefined();
+    });
+  });
+
+  describe('secure mode', () => {
+    const payload = '{"user": {"__proto__": {"isAdmin": true}, "name": "x"}, "constructor": 1}';
+
+    it('should strip unsafe keys and report each one', () => {
+      const result = Parser.safe(payload, { secure: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ user: { name: 'x' } });
+      expect(Object.keys((result.data as any).user)).toEqual(['name']);
+      expect(result.warnings).toEqual([
+        'Removed unsafe key "__proto__" at $.user.__proto__ (line 1, column 11)',
+        'Removed unsafe key "constructor" at $.constructor (line 1, column 57)',
+      ]);
+    });
+
+    it('should reject unsafe keys with secure: error', () => {
+      const result = Parser.safe(payload, { secure: 'error' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('UNSAFE_KEY');
+      expect(result.error?.position?.index).toBe(10);
+    });
+
+    it('should catch escaped and unquoted spellings', () => {
+      expect(Parser.safe('{"\\u005f_proto__": {}}', { secure: true }).data).toEqual({});
+      expect(Parser.safe('{prototype: 1}', { mode: 'json5', secure: true }).data).toEqual({});
+    });
+
+    it('should leave unsafe keys alone without secure', () => {
+      const result = Parser.safe('{"__proto__": {"isAdmin": true}}');
+
+      expect(Object.keys(result.data as any)).toEqual(['__proto__']);
+      expect(result.warnings).toBeUndefined();
+    });
+  });
+
+  describe('duplicate keys', () => {
+    const config = '{\n  "port": 80,\n  "db": {"host": "a", "host": "b"},\n  "port": 8080\n}';
+
+    it('should keep the last value silently by default', () => {
+      const result = Parser.safe(config);
+
+      expect(result.data).toEqual({ port: 8080, db: { host: 'b' } });
+      expect(result.duplicates).toBeUndefined();
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should report both positions and the path of every duplicate', () => {
+      const result = Parser.safe(config, { duplicateKeys: 'last' });
+
+      expect(result.duplicates).toEqual([
+        {
+          key: 'host',
+          path: '$.db.host',
+          first: { line: 3, column: 10, index: 25 },
+          duplicate: { line: 3, column: 23, index: 38 },
+        },
+        {
+          key: 'port',
+          path: '$.port',
+          first: { line: 2, column: 3, index: 4 },
+          duplicate: { line: 4, column: 3, index: 54 },
+        },
+      ]);
+    });
+
+    it('should reject duplicates with duplicateKeys: error', () => {
+      const result = Parser.safe(config, { duplicateKeys: 'error' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('DUPLICATE_KEY');
+      expect(result.error?.message).toBe(
+        'Duplicate key "host" at $.db.host, first defined at line 3, column 10'
+      );
+      expect(result.error?.position).toEqual({ line: 3, column: 23, index: 38 });
+    });
+
+    it('should warn and keep the last value with duplicateKeys: warn', () => {
+      const result = Parser.safe(config, { duplicateKeys: 'warn' });
+
+      expect(result.data).toEqual({ port: 8080, db: { host: 'b' } });
+      expect(result.warnings).toContain(
+        'Duplicate key "port" at $.port (line 4, column 3), first defined at line 2, column 3'
+      );
+    });
+
+    it('should keep the first value with duplicateKeys: first', () => {
+      expect(Parser.safe(config, { duplicateKeys: 'first' }).data).toEqual({
+        port: 80,
+        db: { host: 'a' },
+      });
+    });
+
+    it('should collect every value with duplicateKeys: collect', () => {
+      const result = Parser.safe('{"a": [1], "a": 2, "b": 3, "a": {"c": 4}}', {
+        duplicateKeys: 'collect',
+      });
+
+      expect(result.data).toEqual({ a: [[1], 2, { c: 4 }], b: 3 });
+      expect(result.duplicates).toHaveLength(2);
+    });
+
+    it('should combine with lenient modes and ignore repeated keys in separate objects', () => {
+      const result = Parser.safe('[{a: 1}, {a: 2, \'a\': 3,}]', {
+        mode: 'json5',
+        duplicateKeys: 'first',
+      });
+
+      expect(result.data).toEqual([{ a: 1 }, { a: 2 }]);
+      expect(result.duplicates?.map(d => d.path)).toEqual(['$[1].a']);
+    });
+
+    it('should be reported by diagnose', () => {
+      const diagnosis = Parser.diagnose('{"a": 1, "a": 2}');
+
+      expect(diagnosis.isValid).toBe(false);
+      expect(diagnosis.errors).toEqual([
+        {
+          type: 'key',
+          message: 'Duplicate key "a" at $.a, first defined at line 1, column 2',
+          suggestion: 'Remove or rename one of the duplicate keys',
+          line: 1,
+          column: 10,
+        },
+      ]);
+    });
+  });
+
+  describe('lossless numbers', () => {
+    const payload = '{"id": 12345678901234567890, "price": 0.123456789012345678, "qty": 2}';
+
+    it('should warn when numbers lose precision', () => {
+      const result = Parser.safe(payload, { numbers: 'number' });
+
+      expect((result.data as any).qty).toBe(2);
+      expect(result.warnings).toEqual([
+        'Number 12345678901234567890 at $.id (line 1, column 8) cannot be represented exactly and was read as 12345678901234567000',
+        'Number 0.123456789012345678 at $.price (line 1, column 39) cannot be represented exactly and was read as 0.12345678901234568',
+      ]);
+    });
+
+    it('should warn about numbers that lose precision when no mode is given', () => {
+      const expected = Parser.safe(payload, { numbers: 'number' });
+
+      expect(Parser.safe(payload)).toEqual(expected);
+      expect(Parser.safe(payload, { secure: true })).toEqual(expected);
+      expect(Parser.safe(payload, { mode: 'json5' })).toEqual(expected);
+    });
+
+    it('should not warn about exact numbers or number-like strings', () => {
+      const input = '{"id": "12345678901234567890", "e": "1e400", "n": [1e3, 0.1, 123456789012345678]}';
+      const result = Parser.safe(input);
+
+      expect(result.data).toEqual(JSON.parse(input));
+      expect(result.warnings).toEqual([
+        'Number 123456789012345678 at $.n[2] (line 1, column 62) cannot be represented exactly and was read as 123456789012345680',
+      ]);
+      expect(Parser.safe('{"id": "12345678901234567890", "big": 1e300}').warnings).toBeUndefined();
+    });
+
+    it('should read large integers as BigInt', () => {
+      const result = Parser.safe(payload, { numbers: 'bigint' });
+      const data = result.data as any;
+
+      expect(data.id).toBe(12345678901234567890n);
+      expect(data.qty).toBe(2);
+      expect(result.warnings).toHaveLength(1);
+      expect(formatJSON(result.data!, 0)).toBe(
+        '{"id":12345678901234567890,"price":0.12345678901234568,"qty":2}'
+      );
+    });
+
+    it('should keep lossy numbers as strings', () => {
+      const result = Parser.safe(payload, { numbers: 'string' });
+
+      expect(result.data).toEqual({
+        id: '12345678901234567890',
+        price: '0.123456789012345678',
+        qty: 2,
+      });
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should round-trip numbers byte-for-byte with decimal-wrapper', () => {
+      const input = '{"id":12345678901234567890,"price":1.50,"big":1e400,"list":[-0,3,0.1]}';
+      const result = Parser.safe(input, { numbers: 'decimal-wrapper' });
+      const data = result.data as any;
+
+      expect(data.id).toBeInstanceOf(JSONDecimal);
+      expect(data.price.toString()).toBe('1.50');
+      expect(data.price.toNumber()).toBe(1.5);
+      expect(data.list[1]).toBe(3);
+      expect(minifyJSON(result.data!)).toBe(input);
+    });
+
+    it('should type the data of the lossless modes to include BigInt and JSONDecimal', () => {
+      const result = Parser.safe(payload, { numbers: 'bigint' });
+      // @ts-expect-error the data may hold BigInt values
+      const plain: JSONValue | undefined = result.data;
+      const lossless: LosslessJSONValue | undefined = JSONMan.parse(payload, {
+        numbers: 'decimal-wrapper',
+      }).data;
+
+      expect(plain).toEqual(result.data);
+      expect((lossless as any).id).toBeInstanceOf(JSONDecimal);
+    });
+
+    it('should hand JSONDecimal values to the reviver whole', () => {
+      const seen: string[] = [];
+      const result = Parser.safe('{"price": 1.50}', {
+        numbers: 'decimal-wrapper',
+        reviver: (key, value) => {
+          seen.push(key);
+          return value;
+        },
+      });
+
+      expect(seen).toEqual(['price', '']);
+      expect(minifyJSON(result.data!)).toBe('{"price":1.50}');
+    });
+
+    it('should leave JSON5 number forms alone', () => {
+      const result = Parser.safe('[0xFFFFFFFFFFFFFFFFFF, Infinity]', {
+        mode: 'json5',
+        numbers: 'bigint',
+      });
+
+      expect(result.data).toEqual([0xffffffffffffffffff, Infinity]);
+    });
+  });
+
+  describe('syntax error positions', () => {
+    const errorOf = (input: string): JSONParseError => {
+      const result = Parser.safe(input);
+      expect(result.success).toBe(false);
+      return result.error as JSONParseError;
+    };
+
+    it('should report line, column and index of a missing value', () => {
+      const error = errorOf('{"name": "John", "age":}');
+
+      expect(error.position).toEqual({ line: 1, column: 24, index: 23 });
+      expect(error.expected).toEqual(['value']);
+      expect(error.context?.at).toBe('}');
+    });
+
+    it('should track positions across lines', () => {
+      const error = errorOf('{\n  "a": 1,\n  "b" 2\n}');
+
+      expect(error.position).toEqual({ line: 3, column: 7, index: 18 });
+      expect(error.expected).toEqual(["':'"]);
+    });
+
+    it('should report a missing comma between members', () => {
+      const error = errorOf('{"name": "John" "age": 30}');
+
+      expect(error.position?.index).toBe(16);
+      expect(error.expected).toEqual(["','", "'}'"]);
+    });
+
+    it('should report trailing commas with a suggestion', () => {
+      const error = errorOf('[1, 2,]');
+
+      expect(error.position?.index).toBe(6);
+      expect(error.suggestions).toContain('Remove trailing commas before closing brackets');
+    });
+
+    it('should report unexpected end of input', () => {
+      const error = errorOf('{"a": [1, 2');
+
+      expect(error.message).toContain('Unexpected end of input');
+      expect(error.position?.index).toBe(11);
+      expect(error.context?.at).toBe('EOF');
+    });
+
+    it('should report invalid tokens inside strings and numbers', () => {
+      expect(errorOf('"a\\x"').position?.index).toBe(2);
+      expect(errorOf('[01]').expected).toEqual(["','", "']'"]);
+      expect(errorOf('-').message).toContain('Unexpected end of input in number');
+      expect(errorOf('1.e5').position?.index).toBe(2);
+      expect(errorOf('"tab\there"').position?.index).toBe(4);
+    });
+
+    it('should report unknown words and trailing content', () => {
+      expect(errorOf('{"invalid": json}').position?.index).toBe(12);
+      expect(errorOf('{} {}').expected).toEqual(['end of input']);
+      expect(errorOf('').expected).toEqual(['value']);
+    });
+  });
+
+  describe('DescentParser', () => {
+    it('should produce the same values as JSON.parse', () => {
+      const inputs = [
+        '{"a": [1, -2.5e3, true, false, null], "b": {"c": "\\u00e9\\n"}}',
+        '[]',
+        '"\\ud83c\\udf89"',
+        '0',
+      ];
+
+      for (const input of inputs) {
+        expect(DescentParser.parse(input)).toEqual(JSON.parse(input));
+      }
+    });
+
+    it('should keep __proto__ keys as own properties', () => {
+      const data = DescentParser.parse('{"__proto__": {"polluted": true}}') as any;
+
+      expect(Object.getPrototypeOf(data)).toBe(Object.prototype);
+      expect(Object.keys(data)).toEqual(['__proto__']);
+    });
+  });
+
+  describe('Tokenizer', () => {
+    it('should tokenize with source positions', () => {
+      const tokens = new Tokenizer('{\n "a": 1\n}').all();
+
+      expect(tokens.map(t => t.type)).toEqual([
+        'beginObject',
+        'string',
+        'colon',
+        'number',
+        'endObject',
+        'eof',
+      ]);
+      expect(tokens[1]?.start).toEqual({ line: 2, column: 2, index: 3 });
+      expect(tokens[1]?.value).toBe('a');
+      expect(tokens[3]?.raw).toBe('1');
+      expect(tokens[4]?.start).toEqual({ line: 3, column: 1, index: 10 });
+    });
   });
 
   describe('typed()', () => {
@@ -131,6 +764,119 @@ describe('Parser Module', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBeInstanceOf(JSONParseError);
     });
+
+    const userSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 },
+        email: { type: 'string', format: 'email' },
+        role: { enum: ['admin', 'user'] },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+      },
+      required: ['name', 'email'],
+      additionalProperties: false,
+    } as const;
+
+    it('should type data from a const schema', () => {
+      const result = Parser.typed(
+        '{"name": "Ann", "email": "ann@example.com", "role": "admin", "tags": ["a"]}',
+        userSchema
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toBeUndefined();
+      const user = result.data!;
+      const name: string = user.name;
+      const role: 'admin' | 'user' | undefined = user.role;
+      const tags: string[] | undefined = user.tags;
+      // @ts-expect-error age is optional
+      const age: number = user.age;
+      expect([name, role, tags, age]).toEqual(['Ann', 'admin', ['a'], undefined]);
+    });
+
+    it('should list every path that does not match the schema', () => {
+      const result = Parser.typed(
+        '{"name": "", "age": 1.5, "tags": ["a", 2, "a"], "extra": true}',
+        userSchema
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(JSONValidationError);
+      expect(result.errors!.map(error => [error.path, error.code])).toEqual([
+        ['/email', 'required'],
+        ['/name', 'minLength'],
+        ['/age', 'type'],
+        ['/tags/1', 'type'],
+        ['/tags/2', 'uniqueItems'],
+        ['/extra', 'additionalProperties'],
+      ]);
+      expect(result.errors![2]).toMatchObject({
+        message: 'Expected integer, got number',
+        value: 1.5,
+        expected: 'integer',
+      });
+
+      const error = result.error as JSONValidationError;
+      expect(error.path).toBe('/email');
+      expect(error.message).toContain('/email: Missing required property "email"');
+      expect(error.message).toContain('/tags/2: Duplicate of item 0');
+    });
+
+    it('should check numbers, strings and combinators', () => {
+      const paths = (input: string, schema: JSONSchema): string[] =>
+        (Parser.typed(input, schema).errors ?? []).map(error => `${error.path} ${error.code}`);
+
+      expect(paths('[0.3, 7, -1]', { items: { multipleOf: 0.1, exclusiveMaximum: 5 } })).toEqual([
+        '/1 exclusiveMaximum',
+      ]);
+      expect(paths('["2024-02-30", "2024-02-29"]', { items: { format: 'date' } })).toEqual([
+        '/0 format',
+      ]);
+      expect(paths('["😀", "ab"]', { items: { maxLength: 1, pattern: '^\\p{Emoji}$' } })).toEqual([
+        '/1 maxLength',
+        '/1 pattern',
+      ]);
+      expect(paths('[null, 1, "x"]', { items: { anyOf: [{ type: 'null' }, { type: 'number' }] } }))
+        .toEqual(['/2 anyOf']);
+      expect(paths('1', { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([' oneOf']);
+      expect(paths('"x"', { const: 'y' })).toEqual([' const']);
+    });
+
+    it('should compile patterns that unicode mode rejects and report invalid ones', () => {
+      const schema = (pattern: string): JSONSchema => ({ type: 'string', pattern });
+
+      expect(Parser.typed('"ab-12"', schema('^\\w+\\-\\d+$')).success).toBe(true);
+      expect(Parser.typed('"ab_12"', schema('^\\w+\\-\\d+$')).errors?.[0]?.code).toBe('pattern');
+
+      const invalid = Parser.typed('"x"', schema('(x'));
+      expect(invalid.success).toBe(false);
+      expect(invalid.errors?.[0]).toMatchObject({ code: 'pattern', message: 'Invalid pattern /(x/ in schema' });
+    });
+
+    it('should validate formats', () => {
+      const valid = (format: string, value: string): boolean =>
+        Parser.typed(JSON.stringify(value), { type: 'string', format }).success;
+
+      expect(valid('date-time', '2024-01-02T03:04:05.5+01:00')).toBe(true);
+      expect(valid('date-time', '2024-01-02T25:04:05Z')).toBe(false);
+      expect(valid('ipv6', '::1')).toBe(true);
+      expect(valid('ipv6', '::ffff:192.168.0.1')).toBe(true);
+      expect(valid('ipv6', '1::2::3')).toBe(false);
+      expect(valid('uuid', '00000000-0000-0000-0000-000000000000')).toBe(true);
+      expect(valid('hostname', 'api.example.com')).toBe(true);
+      expect(valid('hostname', '-bad.example')).toBe(false);
+      expect(valid('unknown-format', 'anything')).toBe(true);
+    });
+
+    it('should treat lossless numbers as numbers', () => {
+      const schema = { type: 'integer', maximum: 2 ** 64 } as const;
+
+      expect(Parser.typed('18446744073709551616', schema, { numbers: 'bigint' }).success).toBe(true);
+      expect(Parser.typed('1.50', schema, { numbers: 'decimal-wrapper' }).errors![0]!.message).toBe(
+        'Expected integer, got number'
+      );
+    });
   });
 
   describe('multiple()', () => {
@@ -291,23 +1037,122 @@ describe('Parser Module', () => {
     });
   });
 
-  describe('diagnose()', () => {
-    it('should return valid for correct JSON', () => {
-      const result = Parser.diagnose('{"name": "John"}');
-      
-      expect(result.isValid).toBe(true);
-      expect(result.errors).toHaveLength(0);
+  describe('pipeline', () => {
+    // Some APIs prefix JSON with )]}' to stop it being run as a script
+    const xssiPrefix: ParseStage = {
+      name: 'xssi-prefix',
+      run: context => {
+        context.text = context.text.replace(/^\)\]\}'\n/, '');
+      },
+    };
+
+    afterEach(() => {
+      for (const name of ['xssi-prefix', 'count-keys', 'duplicate', 'fail']) {
+        Parser.pipeline.remove(name);
+      }
     });
 
-    it('should detect single quote issues', () => {
-      const result = Parser.diagnose("{'name': 'John'}");
-      
-      expect(result.isValid).toBe(false);
-      expect(result.errors.some(e => e.type === 'quote')).toBe(true);
-      expect(result.errors.some(e => e.suggestion.includes('double quotes'))).toBe(true);
+    it('should run the built-in stages in order', () => {
+      expect(Parser.pipeline.names()).toEqual(['leniency', 'limits', 'parse', 'revival']);
     });
 
-    it('should detect trailing comma issues', () => {
+    it('should apply registered stages to every parse entry point', () => {
+      Parser.pipeline.use(xssiPrefix);
+      const text = ")]}'\n{\"ok\": true}";
+
+      expect(Parser.safe(text).data).toEqual({ ok: true });
+      expect(JSONMan.parse(text).data).toEqual({ ok: true });
+      expect(new JSONMan().parse(text).getData()).toEqual({ ok: true });
+      expect(Parser.withRecovery(")]}'\n{'ok': true}").data).toEqual({ ok: true });
+    });
+
+    it('should place stages around the built-ins', () => {
+      const seen: string[] = [];
+      Parser.pipeline.use(
+        {
+          name: 'count-keys',
+          run: context => {
+            seen.push(`${Object.keys(context.data as object).length} keys`);
+          },
+        },
+        { after: 'parse' }
+      );
+      Parser.pipeline.use(xssiPrefix, { before: 'limits' });
+
+      expect(Parser.pipeline.names()).toEqual([
+        'leniency',
+        'xssi-prefix',
+        'limits',
+        'parse',
+        'count-keys',
+        'revival',
+      ]);
+      Parser.safe('{"a": 1, "b": 2}');
+      expect(seen).toEqual(['2 keys']);
+    });
+
+    it('should apply limits to the text earlier stages produce', () => {
+      Parser.pipeline.use({
+        name: 'duplicate',
+        run: context => {
+          context.text = `[${context.text}, ${context.text}]`;
+        },
+      });
+
+      expect(Parser.safe('[1]', { maxDepth: 2 }).success).toBe(true);
+      expect(Parser.safe('[[1]]', { maxDepth: 2 }).error?.code).toBe('DEPTH_EXCEEDED');
+      expect(Parser.safe('1', { maxSize: 5 }).error?.code).toBe('SIZE_EXCEEDED');
+    });
+
+    it('should keep stages added to a clone to that clone', () => {
+      const pipeline = Parser.pipeline.clone().use(xssiPrefix);
+
+      expect(pipeline.parse(")]}'\n[]").success).toBe(true);
+      expect(Parser.safe(")]}'\n[]").success).toBe(false);
+    });
+
+    it('should wrap errors thrown by stages', () => {
+      Parser.pipeline.use({
+        name: 'fail',
+        run: () => {
+          throw new Error('boom');
+        },
+      });
+
+      const result = Parser.safe('{}');
+      expect(result.error).toBeInstanceOf(JSONParseError);
+      expect(result.error?.message).toBe('JSON Parse Error: boom');
+    });
+
+    it('should reject duplicate names, unknown anchors and removing built-ins', () => {
+      Parser.pipeline.use(xssiPrefix);
+
+      expect(() => Parser.pipeline.use(xssiPrefix)).toThrow('already registered');
+      expect(() => Parser.pipeline.use({ ...xssiPrefix, name: 'other' }, { after: 'missing' }))
+        .toThrow("there is no stage named 'missing'");
+      expect(() => Parser.pipeline.remove('limits')).toThrow(JSONParseError);
+      expect(Parser.pipeline.remove('xssi-prefix')).toBe(true);
+      expect(Parser.pipeline.remove('xssi-prefix')).toBe(false);
+    });
+  });
+
+  describe('diagnose()', () => {
+    it('should return valid for correct JSON', () => {
+      const result = Parser.diagnose('{"name": "John"}');
+      
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should detect single quote issues', () => {
+      const result = Parser.diagnose("{'name': 'John'}");
+      
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(e => e.type === 'quote')).toBe(true);
+      expect(result.errors.some(e => e.suggestion.includes('double quotes'))).toBe(true);
+    });
+
+    it('should detect trailing comma issues', () => {
       const result = Parser.diagnose('{"name": "John",}');
       
       expect(result.isValid).toBe(false);
@@ -349,6 +1194,16 @@ describe('Parser Module', () => {
       
       expect(result.isValid).toBe(false);
     });
+
+    it('should report every error with its position and ignore apostrophes in strings', () => {
+      const result = Parser.diagnose('{"note": "it\'s fine", "a": 1,, "b": [1 2]');
+
+      expect(result.errors.map(e => [e.type, e.line, e.column])).toEqual([
+        ['comma', 1, 30],
+        ['comma', 1, 40],
+        ['brace', 1, 42],
+      ]);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -415,4 +1270,930 @@ describe('Parser Module', () => {
       });
     });
   });
+
+  describe('StreamingParser', () => {
+    const document = '{"name": "caf\u00e9 \\"\\u00e9\\" 😀", "items": [1, -2.5e3, true, null, {"id": 7}], "empty": {}}';
+
+    const collect = (chunks: Array<string | Uint8Array>): StreamEvent[] => {
+      const events: StreamEvent[] = [];
+      const parser = new StreamingParser();
+      const types = ['startObject', 'endObject', 'startArray', 'endArray', 'key', 'value', 'end'] as const;
+      types.forEach(type => parser.on(type, event => events.push(event)));
+      chunks.forEach(chunk => parser.write(chunk));
+      parser.end();
+      return events;
+    };
+
+    it('should emit events with their paths', () => {
+      const events = collect([document]);
+
+      expect(events.slice(0, 5)).toEqual([
+        { type: 'startObject', path: [] },
+        { type: 'key', path: ['name'], key: 'name' },
+        { type: 'value', path: ['name'], value: 'café "é" 😀' },
+        { type: 'key', path: ['items'], key: 'items' },
+        { type: 'startArray', path: ['items'] },
+      ]);
+      expect(events.filter(e => e.type === 'value').map(e => [e.path, e.value])).toEqual([
+        [['name'], 'café "é" 😀'],
+        [['items', 0], 1],
+        [['items', 1], -2500],
+        [['items', 2], true],
+        [['items', 3], null],
+        [['items', 4, 'id'], 7],
+      ]);
+      expect(events.slice(-4)).toEqual([
+        { type: 'startObject', path: ['empty'] },
+        { type: 'endObject', path: ['empty'] },
+        { type: 'endObject', path: [] },
+        { type: 'end', path: [] },
+      ]);
+    });
+
+    it('should produce the same events for any chunking', () => {
+      const expected = collect([document]);
+      const bytes = new TextEncoder().encode(document);
+
+      expect(collect(Array.from(document))).toEqual(expected);
+      expect(collect(Array.from(bytes, byte => Uint8Array.of(byte)))).toEqual(expected);
+      expect(collect([bytes.slice(0, 13), bytes.slice(13, 40), bytes.slice(40)])).toEqual(expected);
+    });
+
+    it('should report errors with positions across chunks', () => {
+      const parser = new StreamingParser();
+      parser.write('{"a": [1,\n');
+
+      expect(() => parser.write('  2,]}')).toThrow(
+        expect.objectContaining({
+          message: "Unexpected token ']', expected value",
+          position: { line: 2, column: 5, index: 14 },
+        })
+      );
+    });
+
+    it('should reject incomplete documents on end()', () => {
+      const parser = new StreamingParser().write('{"a": tr');
+
+      expect(() => parser.end()).toThrow("Unexpected end of input in 'tr'");
+      expect(() => new StreamingParser().write('[1, 2').end()).toThrow(
+        "Unexpected end of input, expected ',' or ']'"
+      );
+      expect(() => new StreamingParser().write('{} {}')).toThrow(
+        "Unexpected token '{', expected end of input"
+      );
+    });
+
+    it('should reject invalid UTF-8 at the offset Parser.safe reports', () => {
+      const cases: Array<[number[][], string]> = [
+        [[[0x5b, 0x22, 0xe2], [0x82], [0x28, 0x22, 0x5d]], 'Incomplete UTF-8 sequence at offset 2'],
+        [[[0x5b, 0x22, 0x61, 0x22, 0x2c], [0xff, 0x5d]], 'Invalid UTF-8 byte 0xFF at offset 5'],
+        [[[0x22, 0xf0, 0x9f], [0x98]], 'Incomplete UTF-8 sequence at offset 1'],
+      ];
+
+      for (const [chunks, message] of cases) {
+        const feed = () => {
+          const parser = new StreamingParser();
+          chunks.forEach(chunk => parser.write(Uint8Array.from(chunk)));
+          parser.end();
+        };
+
+        expect(feed).toThrow(JSONEncodingError);
+        expect(feed).toThrow(message);
+        expect(Parser.safe(Uint8Array.from(chunks.flat())).error?.message).toBe(message);
+      }
+    });
+
+    it('should report invalid UTF-8 in a large chunk', () => {
+      const bytes = new TextEncoder().encode(JSON.stringify(['x'.repeat(500_000)]));
+      bytes[250_000] = 0xff;
+
+      expect(() => new StreamingParser().write(bytes)).toThrow(
+        expect.objectContaining({ name: 'JSONEncodingError', offset: 250_000 })
+      );
+    });
+
+    it('should enforce maxDepth', () => {
+      const parser = new StreamingParser({ maxDepth: 2 });
+
+      expect(() => parser.write('[[[1]]]')).toThrow(
+        expect.objectContaining({ code: 'DEPTH_EXCEEDED' })
+      );
+    });
+  });
+
+  describe('streamSelect()', () => {
+    const dump = JSON.stringify({
+      meta: { note: 'x'.repeat(1000) },
+      items: [{ id: 1, tags: ['a'] }, { id: 2, nested: { deep: [null] } }, 3],
+      trailer: { items: [99] },
+    });
+
+    const toArray = async (iterable: AsyncIterable<unknown>): Promise<unknown[]> => {
+      const values: unknown[] = [];
+      for await (const value of iterable) {
+        values.push(value);
+      }
+      return values;
+    };
+
+    it('should yield each matching element fully built', async () => {
+      await expect(toArray(Parser.streamSelect(dump, '$.items[*]'))).resolves.toEqual([
+        { id: 1, tags: ['a'] },
+        { id: 2, nested: { deep: [null] } },
+        3,
+      ]);
+      await expect(toArray(Parser.streamSelect(dump, '$.items[*].id'))).resolves.toEqual([1, 2]);
+      await expect(toArray(Parser.streamSelect(dump, "$['trailer'].*[0]"))).resolves.toEqual([99]);
+    });
+
+    it('should only yield values once they are complete', async () => {
+      async function* chunks() {
+        for (let i = 0; i < dump.length; i += 5) {
+          yield dump.slice(i, i + 5);
+        }
+      }
+      // Snapshot each value as it is yielded, before later chunks are read
+      const seen: string[] = [];
+      for await (const value of Parser.streamSelect(chunks(), '$.items[*]')) {
+        seen.push(JSON.stringify(value));
+      }
+
+      expect(seen).toEqual(['{"id":1,"tags":["a"]}', '{"id":2,"nested":{"deep":[null]}}', '3']);
+    });
+
+    it('should read async iterables and ReadableStreams', async () => {
+      const bytes = new TextEncoder().encode(dump);
+      async function* chunks() {
+        for (let i = 0; i < bytes.length; i += 7) {
+          yield bytes.slice(i, i + 7);
+        }
+      }
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes.slice(0, 50));
+          controller.enqueue(bytes.slice(50));
+          controller.close();
+        },
+      });
+
+      await expect(toArray(Parser.streamSelect(chunks(), '$.items[1].id'))).resolves.toEqual([2]);
+      await expect(toArray(Parser.streamSelect(stream, '$.items[2]'))).resolves.toEqual([3]);
+    });
+
+    it('should reject invalid documents and patterns', async () => {
+      await expect(toArray(Parser.streamSelect('{"items": [1, }', '$.items[*]'))).rejects.toThrow(
+        "Unexpected token '}', expected value"
+      );
+      await expect(toArray(Parser.streamSelect('[]', '$..items'))).rejects.toThrow(
+        "Invalid path pattern '$..items' at index 1"
+      );
+    });
+
+    it('should only emit events inside selected subtrees', () => {
+      const types: string[] = [];
+      const parser = new StreamingParser({ select: '$.items[1]' });
+      parser.on('key', event => types.push(`key ${event.key}`));
+      parser.on('value', event => types.push(`value ${event.value}`));
+      parser.on('end', () => types.push('end'));
+      parser.write(dump).end();
+
+      expect(types).toEqual(['key id', 'value 2', 'key nested', 'key deep', 'value null', 'end']);
+    });
+
+    it('should build __proto__ members as plain properties', () => {
+      const values: unknown[] = [];
+      new StreamingParser()
+        .collect(value => values.push(value))
+        .write('{"__proto__": {"polluted": true}}')
+        .end();
+
+      expect(Object.getPrototypeOf(values[0])).toBe(Object.prototype);
+      expect(Object.keys(values[0] as object)).toEqual(['__proto__']);
+    });
+  });
+
+  describe('PathPattern', () => {
+    it('should match child, index and wildcard steps', () => {
+      const pattern = PathPattern.parse('$.users[*]["first name"]');
+
+      expect(pattern.length).toBe(3);
+      expect(pattern.matches(['users', 4, 'first name'])).toBe(true);
+      expect(pattern.matches(['users', 4])).toBe(false);
+      expect(PathPattern.parse('$[0]').matches(['0'])).toBe(false);
+      expect(PathPattern.parse('$').matches([])).toBe(true);
+    });
+  });
+
+  describe('lines()', () => {
+    const toArray = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const values: T[] = [];
+      for await (const value of iterable) {
+        values.push(value);
+      }
+      return values;
+    };
+
+    it('should yield values and errors with line numbers', async () => {
+      const results = await toArray(Parser.lines('{"a": 1}\r\n\r\n[2]\n{oops}\n"end"'));
+
+      expect(results.map(r => [r.line, r.value])).toEqual([
+        [1, { a: 1 }],
+        [3, [2]],
+        [4, undefined],
+        [5, 'end'],
+      ]);
+      expect(results[2]!.error?.message).toBe("Unexpected token 'oops'");
+    });
+
+    it('should skip failed lines with skipOnError', async () => {
+      const results = await toArray(Parser.lines('1\nnope\n3\n', { skipOnError: true }));
+
+      expect(results).toEqual([
+        { line: 1, value: 1 },
+        { line: 3, value: 3 },
+      ]);
+    });
+
+    it('should reject long lines without buffering them', async () => {
+      const long = '"' + 'x'.repeat(50) + '"';
+      const chunks = ['1\n', long.slice(0, 20), long.slice(20), '\n2'];
+      const results = await toArray(Parser.lines(chunks, { maxLineLength: 10 }));
+
+      expect(results.map(r => r.value ?? r.error?.code)).toEqual([1, 'SIZE_EXCEEDED', 2]);
+      expect(results[1]!.error?.message).toBe('Line 2 exceeds the maximum length of 10 characters');
+    });
+
+    it('should read byte streams split inside characters', async () => {
+      const bytes = new TextEncoder().encode('{"emoji": "😀"}\n{"n": 2}\n');
+      async function* stream() {
+        for (const byte of bytes) {
+          yield Buffer.from([byte]);
+        }
+      }
+
+      expect(await toArray(Parser.lines(stream()))).toEqual([
+        { line: 1, value: { emoji: '😀' } },
+        { line: 2, value: { n: 2 } },
+      ]);
+    });
+
+    it('should reject invalid UTF-8 with its byte offset', async () => {
+      const bytes = Uint8Array.of(0x31, 0x0a, 0x22, 0xff, 0x22, 0x0a);
+
+      await expect(toArray(Parser.lines([bytes.slice(0, 3), bytes.slice(3)]))).rejects.toMatchObject({
+        name: 'JSONEncodingError',
+        message: 'Invalid UTF-8 byte 0xFF at offset 3',
+        offset: 3,
+      });
+    });
+
+    it('should pass parse options to every line', async () => {
+      const results = await toArray(Parser.lines('{a: 1, /* c */}', { mode: 'json5' }));
+
+      expect(results).toEqual([{ line: 1, value: { a: 1 } }]);
+    });
+  });
+
+  describe('writeLines()', () => {
+    it('should write one value per line and wait for drain', async () => {
+      const written: string[] = [];
+      let drains = 0;
+      const sink = new Writable({
+        highWaterMark: 4,
+        write(chunk, _encoding, callback) {
+          written.push(chunk.toString());
+          setImmediate(callback);
+        },
+      });
+      sink.on('drain', () => drains++);
+
+      async function* values() {
+        yield { id: 1 };
+        yield [1, 'two'];
+        yield 12345678901234567890n as any;
+      }
+      const count = await Parser.writeLines(values(), sink, { newline: '\r\n' });
+
+      expect(count).toBe(3);
+      expect(drains).toBeGreaterThan(0);
+      expect(written.join('')).toBe('{"id":1}\r\n[1,"two"]\r\n12345678901234567890\r\n');
+    });
+
+    it('should reject when a Node destination fails or closes during a wait', async () => {
+      const failing = new Writable({
+        highWaterMark: 1,
+        write(_chunk, _encoding, callback) {
+          setImmediate(() => callback(new Error('disk full')));
+        },
+      });
+      const closing = new Writable({
+        highWaterMark: 1,
+        write() {
+          setImmediate(() => closing.destroy());
+        },
+      });
+
+      await expect(Parser.writeLines([1, 2, 3], failing)).rejects.toThrow('disk full');
+      await expect(Parser.writeLines([1, 2, 3], closing)).rejects.toThrow(
+        'The destination closed before all lines were written'
+      );
+    });
+
+    it('should reject when the last write to a WritableStream fails', async () => {
+      const stream = new WritableStream<string>(
+        {
+          async write(chunk) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            if (chunk === '"x"\n') {
+              throw new Error('disk full');
+            }
+          },
+        },
+        { highWaterMark: 10 }
+      );
+
+      await expect(Parser.writeLines([1, 'x'], stream)).rejects.toThrow('disk full');
+    });
+
+    it('should write to a WritableStream and round-trip through lines()', async () => {
+      let output = '';
+      const stream = new WritableStream<string>(
+        {
+          write(chunk) {
+            output += chunk;
+          },
+        },
+        { highWaterMark: 1 }
+      );
+
+      await Parser.writeLines([{ a: 1 }, null, 'x'], stream);
+
+      expect(output).toBe('{"a":1}\nnull\n"x"\n');
+      const values: unknown[] = [];
+      for await (const result of Parser.lines(output)) {
+        values.push(result.value);
+      }
+      expect(values).toEqual([{ a: 1 }, null, 'x']);
+    });
+  });
+
+  describe('concatenated() / sequence()', () => {
+    const toArray = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const values: T[] = [];
+      for await (const value of iterable) {
+        values.push(value);
+      }
+      return values;
+    };
+
+    it('should split concatenated values with byte offsets', async () => {
+      const input = '{"a":"é"}[1,[2]] "x}" 12 true{}\nnull';
+      const results = await toArray(Parser.concatenated(input));
+
+      expect(results).toEqual([
+        { value: { a: 'é' }, start: 0, end: 10 },
+        { value: [1, [2]], start: 10, end: 17 },
+        { value: 'x}', start: 18, end: 22 },
+        { value: 12, start: 23, end: 25 },
+        { value: true, start: 26, end: 30 },
+        { value: {}, start: 30, end: 32 },
+        { value: null, start: 33, end: 37 },
+      ]);
+      const bytes = Buffer.from(input);
+      expect(bytes.subarray(results[0]!.start, results[0]!.end).toString()).toBe('{"a":"é"}');
+    });
+
+    it('should give the same results for any chunking', async () => {
+      const bytes = new TextEncoder().encode('{"s": "a\\"}😀"} [3, {"b": null}]\n7');
+      async function* oneByte() {
+        for (const byte of bytes) {
+          yield Uint8Array.of(byte);
+        }
+      }
+
+      expect(await toArray(Parser.concatenated(oneByte()))).toEqual(
+        await toArray(Parser.concatenated(bytes))
+      );
+    });
+
+    it('should report bad values and carry on', async () => {
+      const results = await toArray(Parser.concatenated('{"a": 1,} [2] {"b"'));
+
+      expect(results.map(r => r.error?.message ?? r.value)).toEqual([
+        "Unexpected token '}', expected string key",
+        [2],
+        "Unexpected end of input, expected ':'",
+      ]);
+      expect(await toArray(Parser.concatenated('{"a": 1,} [2]', { skipOnError: true }))).toEqual([
+        { value: [2], start: 10, end: 13 },
+      ]);
+    });
+
+    it('should limit the size of each value', async () => {
+      const results = await toArray(Parser.concatenated(['[1, 2, ', '3, 4] [5]'], { maxSize: 8 }));
+
+      expect(results.map(r => r.error?.code ?? r.value)).toEqual(['SIZE_EXCEEDED', [5]]);
+      expect(results[0]).toMatchObject({ start: 0, end: 12 });
+    });
+
+    it('should report invalid UTF-8 with its byte offset', async () => {
+      const bytes = Uint8Array.of(...Buffer.from('[1] "'), 0xff, ...Buffer.from('" [2]'));
+      const results = await toArray(Parser.concatenated(bytes));
+
+      expect(results.map(r => r.value ?? r.error?.code)).toEqual([[1], 'INVALID_ENCODING', [2]]);
+      expect(results[1]!.error).toBeInstanceOf(JSONEncodingError);
+      expect(results[1]).toMatchObject({ start: 4, end: 7, error: { offset: 5 } });
+      expect(results[1]!.error?.message).toBe('Invalid UTF-8 byte 0xFF at offset 5');
+    });
+
+    it('should skip a byte order mark split across chunks', async () => {
+      async function* oneByte() {
+        for (const byte of [0xef, 0xbb, 0xbf, ...Buffer.from('[1] 2')]) {
+          yield Uint8Array.of(byte);
+        }
+      }
+
+      expect(await toArray(Parser.concatenated(oneByte()))).toEqual([
+        { value: [1], start: 3, end: 6 },
+        { value: 2, start: 7, end: 8 },
+      ]);
+    });
+
+    it('should read RFC 7464 sequences', async () => {
+      const input = '\x1e{"a": 1}\n\x1e\x1e [2]\n\x1e"é"\n\x1e{"broken\n\x1e42';
+      const results = await toArray(Parser.sequence(input));
+
+      expect(results.map(r => [r.start, r.end, r.error?.message ?? r.value])).toEqual([
+        [1, 9, { a: 1 }],
+        [13, 16, [2]],
+        [18, 22, 'é'],
+        [24, 32, 'Unexpected end of input in unterminated string'],
+        [34, 36, 'Possibly truncated record in JSON text sequence'],
+      ]);
+    });
+
+    it('should reject data before the first record separator', async () => {
+      const results = await toArray(Parser.sequence('junk\n\x1e1\n'));
+
+      expect(results.map(r => r.error?.message ?? r.value)).toEqual([
+        'Data before the first record separator (0x1E) in JSON text sequence',
+        1,
+      ]);
+    });
+  });
+
+  describe('cst()', () => {
+    const source = [
+      '// settings',
+      '{',
+      '  "name": "app", /* inline */',
+      '  "list": [1, 2.50, true,],',
+      '  "nested" : { "off": null }',
+      '}',
+      '',
+    ].join('\n');
+
+    const nodes = (node: CSTNode): CSTNode[] =>
+      node.children.filter((child): child is CSTNode => child.kind === 'node');
+
+    it('should print back identically', () => {
+      const result = Parser.cst(source, { mode: 'jsonc' });
+
+      expect(result.success).toBe(true);
+      expect(Parser.print(result.data!)).toBe(source);
+
+      for (const input of ['0', ' "a" ', '[]', '{ }', '\r\n[ 1 ,2 ]\t\r\n']) {
+        expect(Parser.print(Parser.cst(input).data!)).toBe(input);
+      }
+    });
+
+    it('should keep comments and whitespace as trivia', () => {
+      const document = Parser.cst(source, { mode: 'jsonc' }).data!;
+      const leading = document.children[0] as CSTElement;
+
+      expect(leading).toMatchObject({ kind: 'trivia', type: 'lineComment', text: '// settings' });
+      expect(document.children[document.children.length - 1]).toMatchObject({ kind: 'trivia', type: 'whitespace', text: '\n' });
+
+      const object = nodes(document)[0]!;
+      const comment = object.children.find(child => child.type === 'blockComment');
+      expect(comment).toMatchObject({ text: '/* inline */', start: { line: 3, column: 18 } });
+    });
+
+    it('should expose nodes with keys, values and ranges', () => {
+      const document = Parser.cst(source, { mode: 'jsonc' }).data!;
+      const object = nodes(document)[0]!;
+      const [name, list, nested] = nodes(object);
+
+      expect(document).toMatchObject({ type: 'document', start: { index: 0 }, end: { index: source.length } });
+      expect(object).toMatchObject({ type: 'object', start: { line: 2, column: 1 }, end: { line: 6, column: 2 } });
+      expect(name).toMatchObject({ type: 'property', key: 'name', start: { line: 3, column: 3 }, end: { line: 3, column: 16 } });
+      expect(nodes(name!)[0]).toMatchObject({ type: 'string', value: 'app' });
+      expect(nested!.key).toBe('nested');
+
+      const array = nodes(list!)[0]!;
+      expect(nodes(array).map(node => [node.type, node.value])).toEqual([
+        ['number', 1],
+        ['number', 2.5],
+        ['boolean', true],
+      ]);
+      expect(Parser.print(nodes(array)[1]!)).toBe('2.50');
+      expect(Parser.print(nested!)).toBe('"nested" : { "off": null }');
+    });
+
+    it('should accept JSON5 syntax losslessly', () => {
+      const input = "{unquoted: 'single', hex: 0xFF, inf: -Infinity, /* c */}";
+      const result = Parser.cst(input, { mode: 'json5' });
+
+      expect(Parser.print(result.data!)).toBe(input);
+      expect(nodes(nodes(result.data!)[0]!).map(node => node.key)).toEqual(['unquoted', 'hex', 'inf']);
+    });
+
+    it('should report syntax errors with positions', () => {
+      const result = Parser.cst('{"a": 1,}');
+
+      expect(result.success).toBe(false);
+      expect(result.error!.message).toContain("Unexpected token '}'");
+      expect(result.error!.position).toMatchObject({ line: 1, column: 9 });
+      expect(Parser.cst('// c\n1').success).toBe(false);
+      expect(Parser.cst('[[1]]', { maxDepth: 1 }).success).toBe(false);
+    });
+  });
+
+  describe('edit() / remove() / insert()', () => {
+    const tsconfig = [
+      '{',
+      '  // Compiler settings',
+      '  "compilerOptions": {',
+      '    "strict": true, // keep on',
+      '    "target": "es2020",',
+      '  },',
+      '  "include": ["src"]',
+      '}',
+    ].join('\n');
+
+    const apply = (edits: ReturnType<typeof Parser.edit>, source = tsconfig) =>
+      Parser.applyEdits(source, edits);
+
+    it('should replace a value with a single minimal edit', () => {
+      const edits = Parser.edit(tsconfig, 'compilerOptions.target', 'es2022');
+
+      expect(edits).toEqual([{ offset: tsconfig.indexOf('"es2020"'), length: 8, content: '"es2022"' }]);
+      expect(apply(edits)).toBe(tsconfig.replace('es2020', 'es2022'));
+      expect(Parser.edit(tsconfig, ['compilerOptions', 'strict'], true)).toEqual([]);
+    });
+
+    it('should add members after trailing commas and comments', () => {
+      expect(apply(Parser.edit(tsconfig, 'compilerOptions.outDir', 'dist'))).toBe(
+        tsconfig.replace('"target": "es2020",', '"target": "es2020",\n    "outDir": "dist",')
+      );
+
+      const source = '{\n  "a": 1 // one\n}';
+      expect(apply(Parser.edit(source, 'b', { c: [1] }), source)).toBe(
+        '{\n  "a": 1, // one\n  "b": {\n    "c": [\n      1\n    ]\n  }\n}'
+      );
+    });
+
+    it('should create missing parents and fill empty containers', () => {
+      const result = apply(Parser.edit(tsconfig, ['compilerOptions', 'paths', '@/*'], ['src/*']));
+
+      expect(Parser.safe(result, { mode: 'jsonc' }).data).toMatchObject({
+        compilerOptions: { paths: { '@/*': ['src/*'] } },
+      });
+      expect(result).toContain('"target": "es2020",\n    "paths": {\n      "@/*": [');
+
+      expect(apply(Parser.edit('{\n  "a": {}\n}', 'a.b', 1), '{\n  "a": {}\n}')).toBe(
+        '{\n  "a": {\n    "b": 1\n  }\n}'
+      );
+      expect(apply(Parser.edit('{}', 'a', 1), '{}')).toBe('{"a": 1}');
+      expect(apply(Parser.edit('', 'a', 1), '')).toBe('{\n  "a": 1\n}');
+    });
+
+    it('should follow inline layouts', () => {
+      const source = '{"list": [1, 2], "b":true}';
+
+      expect(apply(Parser.edit(source, 'list.2', 3), source)).toBe('{"list": [1, 2, 3], "b":true}');
+      expect(apply(Parser.insert(source, 'list', 0, 0), source)).toBe('{"list": [0, 1, 2], "b":true}');
+      expect(apply(Parser.remove(source, 'list.0'), source)).toBe('{"list": [2], "b":true}');
+      expect(apply(Parser.remove(source, 'b'), source)).toBe('{"list": [1, 2]}');
+    });
+
+    it('should remove members with their lines and commas', () => {
+      expect(apply(Parser.remove(tsconfig, 'compilerOptions.strict'))).toBe(
+        tsconfig.replace('    "strict": true, // keep on\n', '')
+      );
+      expect(apply(Parser.remove(tsconfig, 'include'))).toBe(
+        tsconfig.replace('  },\n  "include": ["src"]\n', '  }\n')
+      );
+      expect(apply(Parser.remove('{\n  "a": 1\n}', 'a'), '{\n  "a": 1\n}')).toBe('{}');
+      expect(Parser.remove(tsconfig, 'missing.path')).toEqual([]);
+    });
+
+    it('should insert into multi-line arrays', () => {
+      const source = '[\n  1,\n  2\n]';
+
+      expect(apply(Parser.insert(source, [], 1, 'x'), source)).toBe('[\n  1,\n  "x",\n  2\n]');
+      expect(apply(Parser.insert(source, '', 2, 3), source)).toBe('[\n  1,\n  2,\n  3\n]');
+      expect(apply(Parser.edit('[\r\n\t1\r\n]', '1', 2), '[\r\n\t1\r\n]')).toBe('[\r\n\t1,\r\n\t2\r\n]');
+    });
+
+    it('should reject paths through scalars and bad indexes', () => {
+      expect(() => Parser.edit(tsconfig, 'compilerOptions.strict.x', 1)).toThrow(JSONTransformError);
+      expect(() => Parser.edit(tsconfig, 'include.5', 'lib')).toThrow('past the end of the array');
+      expect(() => Parser.insert(tsconfig, 'compilerOptions', 0, 1)).toThrow('is not an array');
+      expect(() => Parser.insert(tsconfig, 'include', 3, 1)).toThrow('outside the array');
+      expect(() => Parser.remove(tsconfig, [])).toThrow('root value cannot be removed');
+      expect(() => Parser.edit('{"a":', 'a', 1)).toThrow(JSONParseError);
+    });
+  });
+
+  describe('reparse()', () => {
+    const source = '{\n  "name": "app",\n  "list": [1, 2, 3],\n  "nested": {"on": true}\n}\n';
+
+    const nodes = (node: CSTNode): CSTNode[] =>
+      node.children.filter((child): child is CSTNode => child.kind === 'node');
+
+    const change = (text: string, offset: number, deleteCount: number, insertText: string) => ({
+      change: { offset, deleteCount, insertText },
+      text: text.slice(0, offset) + insertText + text.slice(offset + deleteCount),
+    });
+
+    it('should match a fresh parse of the edited text', () => {
+      const edits = [
+        change(source, source.indexOf('app'), 3, 'web'),
+        change(source, source.indexOf('2'), 1, '20, 21'),
+        change(source, source.indexOf('true'), 4, '{\n    "deep": [null]\n  }'),
+        change(source, source.indexOf('"list"'), 6, '"items"'),
+        change(source, source.indexOf('}\n}'), 0, ', "x": 1'),
+        change(source, source.length, 0, '// end\n'),
+        change(source, 0, source.length, '[]'),
+      ];
+
+      for (const { change: edit, text } of edits) {
+        const tree = Parser.cst(source, { mode: 'jsonc' }).data!;
+        const result = Parser.reparse(tree, edit, { mode: 'jsonc' });
+
+        expect(result.success).toBe(true);
+        expect(Parser.print(result.data!)).toBe(text);
+        expect(result.data).toEqual(Parser.cst(text, { mode: 'jsonc' }).data);
+      }
+    });
+
+    it('should keep unchanged nodes', () => {
+      const tree = Parser.cst(source).data!;
+      const object = nodes(tree)[0]!;
+      const [name, list, nested] = nodes(object);
+      const array = nodes(list!)[0]!;
+      const [one, two, three] = nodes(array);
+
+      const { change: edit } = change(source, source.indexOf('2'), 1, '22');
+      expect(Parser.reparse(tree, edit).data).toBe(tree);
+
+      expect(nodes(tree)[0]).toBe(object);
+      expect(nodes(object)).toEqual([name, list, nested]);
+      expect(nodes(object)[2]).toBe(nested);
+      expect(nodes(list!)[0]).toBe(array);
+      expect(nodes(array)[0]).toBe(one);
+      expect(nodes(array)[1]).not.toBe(two);
+      expect(nodes(array)[1]).toMatchObject({ value: 22, start: { line: 3, column: 15 } });
+      expect(nodes(array)[2]).toBe(three);
+      expect(three).toMatchObject({ start: { line: 3, column: 19, index: 37 } });
+      expect(nested).toMatchObject({ start: { line: 4, column: 3, index: 43 } });
+    });
+
+    it('should re-parse the parent when a change alters structure', () => {
+      const tree = Parser.cst(source).data!;
+      const object = nodes(tree)[0]!;
+      const [name, list] = nodes(object);
+      const array = nodes(list!)[0]!;
+      const one = nodes(array)[0]!;
+
+      const { change: edit, text } = change(source, source.indexOf(', 3'), 0, ', 2.5');
+      Parser.reparse(tree, edit);
+
+      expect(Parser.print(tree)).toBe(text);
+      expect(nodes(object)[0]).toBe(name);
+      expect(nodes(list!)[0]).not.toBe(array);
+      expect(nodes(nodes(list!)[0]!)[0]).toBe(one);
+      expect(nodes(nodes(list!)[0]!).map(node => node.value)).toEqual([1, 2, 2.5, 3]);
+    });
+
+    it('should stay in step with a fresh parse over successive edits', () => {
+      const tree = Parser.cst(source, { mode: 'jsonc' }).data!;
+      let text = source;
+      const edits: Array<[string, number, string]> = [
+        ['"app"', 5, '"a",\n  "x": "b"'],
+        ['1', 1, '100'],
+        ['true', 4, 'false'],
+        ['3', 1, '3, 4'],
+        ['"x"', 0, '// note\n  '],
+      ];
+
+      for (const [anchor, deleteCount, insertText] of edits) {
+        const edit = change(text, text.indexOf(anchor), deleteCount, insertText);
+        expect(Parser.reparse(tree, edit.change, { mode: 'jsonc' }).success).toBe(true);
+        text = edit.text;
+      }
+
+      expect(Parser.print(tree)).toBe(text);
+      expect(tree).toEqual(Parser.cst(text, { mode: 'jsonc' }).data);
+    });
+
+    it('should move nodes held by the caller and keep the tree plain data', () => {
+      const tree = Parser.cst(source).data!;
+      const [, , nested] = nodes(nodes(tree)[0]!);
+      const on = nodes(nodes(nested!)[0]!)[0]!;
+      const { change: edit, text } = change(source, source.indexOf('app'), 3, 'server');
+
+      Parser.reparse(tree, edit);
+
+      expect(on.start.index).toBe(text.indexOf('"on"'));
+      expect(nested!.start).toEqual({ line: 4, column: 3, index: text.indexOf('"nested"') });
+      expect(Object.getOwnPropertyDescriptor(tree, 'children')).toHaveProperty('value');
+      expect(JSON.parse(JSON.stringify(tree))).toEqual(Parser.cst(text).data);
+    });
+
+    it('should not move anything for a change that keeps its length', () => {
+      const tree = Parser.cst(source).data!;
+      const nested = nodes(nodes(tree)[0]!)[2]!;
+      const start = nested.start;
+
+      Parser.reparse(tree, change(source, source.indexOf('app'), 3, 'web').change);
+      expect(nodes(nodes(tree)[0]!)[2]).toBe(nested);
+      expect(nested.start).toBe(start);
+    });
+
+    it('should leave the tree untouched when the edited text is invalid', () => {
+      const tree = Parser.cst(source).data!;
+      const snapshot = Parser.cst(source).data!;
+
+      const result = Parser.reparse(tree, change(source, source.indexOf('2'), 1, '2,').change);
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(JSONParseError);
+      expect(tree).toEqual(snapshot);
+
+      expect(Parser.reparse(tree, { offset: source.length, deleteCount: 1, insertText: '' }).success).toBe(false);
+      expect(Parser.reparse(tree, { offset: 0, deleteCount: 0, insertText: '// note\n' }).success).toBe(false);
+    });
+  });
+
+  describe('withLocations()', () => {
+    it('should map JSON Pointers to value and key ranges', () => {
+      const input = '{\n  "user": {"name": "Ann", "tags": ["a", "b"]},\n  "a/b": 1\n}';
+      const result = Parser.withLocations(input);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(JSON.parse(input));
+      expect(Object.keys(result.locations!)).toEqual([
+        '',
+        '/user',
+        '/user/name',
+        '/user/tags',
+        '/user/tags/0',
+        '/user/tags/1',
+        '/a~1b',
+      ]);
+      expect(result.locations!['']).toEqual({
+        start: { line: 1, column: 1, index: 0 },
+        end: { line: 4, column: 2, index: input.length },
+      });
+      expect(result.locations!['/user/name']).toEqual({
+        start: { line: 2, column: 20, index: 21 },
+        end: { line: 2, column: 25, index: 26 },
+        keyStart: { line: 2, column: 12, index: 13 },
+        keyEnd: { line: 2, column: 18, index: 19 },
+      });
+      expect(result.locations!['/user/tags/1']).toMatchObject({ start: { line: 2, column: 41 } });
+      expect(result.locations!['/user/tags/1']).not.toHaveProperty('keyStart');
+    });
+
+    it('should honour parse options and report errors', () => {
+      const result = Parser.withLocations('// c\n{"a": [1,],}', { mode: 'jsonc' });
+
+      expect(result.data).toEqual({ a: [1] });
+      expect(result.locations!['/a/0']).toMatchObject({ start: { line: 2, column: 8 } });
+      expect(Parser.withLocations('{"a": 1, "a": 2}').locations!['/a']).toMatchObject({
+        keyStart: { column: 10 },
+      });
+
+      const failed = Parser.withLocations('{"a" 1}');
+      expect(failed.success).toBe(false);
+      expect(failed.locations).toBeUndefined();
+    });
+
+    it('should locate the values the data holds', () => {
+      const input = '{"a": {"x": 1}, "__proto__": {"p": 1}, "a": {"y": [2]}}';
+      const located = (options: ParseOptions) => {
+        const { data, locations } = Parser.withLocations(input, options);
+        return {
+          data,
+          locations: Object.fromEntries(
+            Object.entries(locations!).map(([pointer, { start, keyStart }]) => [
+              pointer,
+              [start.index, keyStart?.index],
+            ])
+          ),
+        };
+      };
+
+      expect(located({ secure: true })).toEqual({
+        data: { a: { y: [2] } },
+        locations: { '': [0, undefined], '/a': [44, 39], '/a/y': [50, 45], '/a/y/0': [51, undefined] },
+      });
+      expect(located({ secure: true, duplicateKeys: 'first' })).toEqual({
+        data: { a: { x: 1 } },
+        locations: { '': [0, undefined], '/a': [6, 1], '/a/x': [12, 7] },
+      });
+      expect(located({ secure: true, duplicateKeys: 'collect' })).toEqual({
+        data: { a: [{ x: 1 }, { y: [2] }] },
+        locations: {
+          '': [0, undefined],
+          '/a': [6, 1],
+          '/a/0': [6, 1],
+          '/a/0/x': [12, 7],
+          '/a/1': [44, 39],
+          '/a/1/y': [50, 45],
+          '/a/1/y/0': [51, undefined],
+        },
+      });
+    });
+  });
+
+  describe('tolerant()', () => {
+    it('should succeed without errors on valid input', () => {
+      const result = Parser.tolerant('{"a": [1, 2]}');
+
+      expect(result).toEqual({ success: true, data: { a: [1, 2] }, errors: [] });
+    });
+
+    it('should collect every error with positions and still return a value', () => {
+      const input = "{\n  name: 'Ann',\n  \"age\": 30\n  \"tags\": [1 2,],\n}";
+      const result = Parser.tolerant(input);
+
+      expect(result.success).toBe(false);
+      expect(result.data).toEqual({ name: 'Ann', age: 30, tags: [1, 2] });
+      expect(result.errors.map(error => [error.message, error.position!.line, error.position!.column])).toEqual([
+        ["Unquoted key 'name' is not allowed", 2, 3],
+        ['Single quotes are not allowed', 2, 9],
+        ["Unexpected token '\"tags\"', expected ',' or '}'", 4, 3],
+        ["Unexpected token '2', expected ',' or ']'", 4, 14],
+        ['Trailing comma is not allowed', 4, 15],
+        ['Trailing comma is not allowed', 4, 17],
+      ]);
+      expect(result.error).toBe(result.errors[0]);
+      expect(result.errors.every(error => error.suggestions!.length > 0)).toBe(true);
+    });
+
+    it('should close unterminated containers and skip stray tokens', () => {
+      const result = Parser.tolerant('[{"a": 1, "b": }, @ 3');
+
+      expect(result.data).toEqual([{ a: 1, b: null }, 3]);
+      expect(result.errors.map(error => error.message)).toEqual([
+        "Unexpected token '}', expected value",
+        "Unexpected token '@'",
+        "Unexpected end of input, expected ']'",
+      ]);
+    });
+
+    it('should recover inside strings and numbers', () => {
+      const result = Parser.tolerant('{"a": "bad \\q", "b": "open\n, "c": 1.}');
+
+      expect(result.data).toMatchObject({ a: 'bad q', b: 'open', c: 1 });
+      expect(result.errors.map(error => error.message)).toEqual([
+        "Invalid escape sequence '\\q'",
+        'Unexpected control character "\\n" in string',
+        'Number 1. needs digits on both sides of the decimal point',
+      ]);
+    });
+
+    it('should only report extensions the options do not allow', () => {
+      const input = '// settings\n{"a": [1,], /* b */ "b": 0x10}';
+
+      expect(Parser.tolerant(input, { mode: 'jsonc' }).errors.map(error => error.message)).toEqual([
+        'Hexadecimal number 0x10 is not allowed',
+      ]);
+      expect(Parser.tolerant(input, { mode: 'json5' }).success).toBe(true);
+      expect(Parser.tolerant(input).errors).toHaveLength(4);
+    });
+
+    it('should skip long runs of junk without recursing', () => {
+      const junk = '[' + '#'.repeat(20000) + ']';
+      const result = Parser.tolerant(junk);
+      const words: unknown[] = [];
+      const tokens = new Tokenizer('junk '.repeat(20000) + '1', {}, error => words.push(error)).all();
+
+      expect(result.data).toEqual([]);
+      expect(result.errors).toHaveLength(20000);
+      expect(Parser.diagnose(junk).errors).toHaveLength(20000);
+      expect(tokens.map(token => token.type)).toEqual(['number', 'eof']);
+      expect(words).toHaveLength(20000);
+    });
+
+    it('should still enforce limits', () => {
+      const result = Parser.tolerant('[[[1]]]', { maxDepth: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeUndefined();
+      expect(result.errors[0]!.code).toBe('DEPTH_EXCEEDED');
+    });
+  });
 });
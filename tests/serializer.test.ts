@@ -0,0 +1,190 @@
+/**
+ * Serializer Module Tests
+ */
+
+import { Serializer } from '../src/modules/serializer/Serializer';
+import { JSONConvertError, JSONParseError } from '../src/core/errors';
+import { SerializerPlugin } from '../src/core/types';
+
+class Money {
+  constructor(readonly amount: bigint, readonly currency: string) {}
+}
+
+const moneyPlugin: SerializerPlugin<Money> = {
+  name: 'Money',
+  isApplicable: (value): value is Money => value instanceof Money,
+  serialize: money => ({ amount: money.amount.toString(), currency: money.currency }),
+  deserialize: json => {
+    const { amount, currency } = json as { amount: string; currency: string };
+    return new Money(BigInt(amount), currency);
+  },
+};
+
+describe('Serializer Module', () => {
+  describe('serialize()', () => {
+    it('should leave plain JSON without metadata', () => {
+      const value = { name: 'app', tags: ['a', 'b'], nested: { on: true, count: 2, none: null } };
+
+      expect(Serializer.serialize(value)).toEqual({ json: value });
+    });
+
+    it('should annotate rich values by JSON Pointer', () => {
+      const result = Serializer.serialize({
+        created: new Date('2024-01-02T03:04:05.000Z'),
+        id: 12345678901234567890n,
+        'a/b': undefined,
+        list: [NaN, -0, Infinity],
+        pattern: /^j(son)?$/gi,
+      });
+
+      expect(result.json).toEqual({
+        created: '2024-01-02T03:04:05.000Z',
+        id: '12345678901234567890',
+        'a/b': null,
+        list: ['NaN', '-0', 'Infinity'],
+        pattern: '/^j(son)?$/gi',
+      });
+      expect(result.meta!.values).toEqual({
+        '/created': 'Date',
+        '/id': 'bigint',
+        '/a~1b': 'undefined',
+        '/list/0': 'number',
+        '/list/1': 'number',
+        '/list/2': 'number',
+        '/pattern': 'RegExp',
+      });
+    });
+
+    it('should encode Map and Set entries in place', () => {
+      const result = Serializer.serialize(new Map<unknown, unknown>([[1, new Set([new Date(0)])], ['k', 2n]]));
+
+      expect(result).toEqual({
+        json: [
+          [1, ['1970-01-01T00:00:00.000Z']],
+          ['k', '2'],
+        ],
+        meta: { values: { '/0/1/0': 'Date', '/0/1': 'Set', '/1/1': 'bigint', '': 'Map' } },
+      });
+    });
+
+    it('should skip functions and symbols like JSON.stringify', () => {
+      const result = Serializer.serialize({ run: () => 1, tag: Symbol('x'), list: [() => 1, 'a'] });
+
+      expect(result).toEqual({ json: { list: [null, 'a'] } });
+    });
+
+    it('should reject circular references', () => {
+      const value: Record<string, unknown> = { a: { b: [] } };
+      ((value.a as Record<string, unknown>).b as unknown[]).push(value);
+
+      expect(() => Serializer.serialize(value)).toThrow(JSONConvertError);
+      expect(() => Serializer.serialize(value)).toThrow('Circular reference at /a/b/0');
+
+      const shared = { x: 1 };
+      expect(Serializer.serialize([shared, shared]).json).toEqual([{ x: 1 }, { x: 1 }]);
+    });
+  });
+
+  describe('deserialize()', () => {
+    it('should restore every built-in type exactly', () => {
+      const value = {
+        created: new Date('2024-01-02T03:04:05.000Z'),
+        id: -12345678901234567890n,
+        missing: undefined,
+        numbers: [NaN, -0, Infinity, -Infinity, 1.5],
+        pattern: /a\/b/u,
+        lookup: new Map<unknown, unknown>([
+          [new Date(0), 'epoch'],
+          ['set', new Set([1n, undefined])],
+        ]),
+      };
+
+      const restored = Serializer.deserialize<typeof value>(Serializer.serialize(value));
+
+      expect(restored).toEqual(value);
+      expect(restored.created).toBeInstanceOf(Date);
+      expect(Object.is(restored.numbers[1], -0)).toBe(true);
+      expect('missing' in restored).toBe(true);
+      expect(Serializer.deserialize<Date>(Serializer.serialize(new Date(NaN))).getTime()).toBeNaN();
+      expect(restored.pattern.flags).toBe('u');
+      expect([...restored.lookup.keys()][0]).toBeInstanceOf(Date);
+    });
+
+    it('should round-trip through a JSON string', () => {
+      const value = [new Set(['a']), { at: new Date(1000) }];
+      const text = Serializer.stringify(value);
+
+      expect(JSON.parse(text)).toHaveProperty('meta');
+      expect(Serializer.parse(text)).toEqual(value);
+      expect(() => Serializer.parse('{"json": ')).toThrow(JSONParseError);
+    });
+
+    it('should not modify its input', () => {
+      const serialized = Serializer.serialize({ at: new Date(0) });
+      const snapshot = JSON.parse(JSON.stringify(serialized));
+
+      Serializer.deserialize(serialized);
+      expect(serialized).toEqual(snapshot);
+    });
+
+    it('should reject annotations that do not fit the JSON', () => {
+      expect(() => Serializer.deserialize({ json: {}, meta: { values: { '/a': 'Date' } } })).toThrow(
+        "No value at /a for its 'Date' annotation"
+      );
+      expect(() => Serializer.deserialize({ json: 1, meta: { values: { '': 'Date' } } })).toThrow('Invalid Date at the root');
+      expect(() => Serializer.deserialize({ json: 'x', meta: { values: { '': 'bigint' } } })).toThrow(JSONConvertError);
+      expect(() => Serializer.deserialize({ json: [1], meta: { values: { '': 'Map' } } })).toThrow('Invalid Map');
+      expect(() => Serializer.deserialize({ json: {}, meta: { values: { '/__proto__': 'Date' } } })).toThrow(
+        'No value at /__proto__'
+      );
+      expect(() => Serializer.deserialize({ json: 1, meta: { values: { '': 'Money' } } })).toThrow(
+        "Unknown type 'Money' at the root"
+      );
+      expect(() => Serializer.deserialize({ json: 1, meta: { values: { x: 'Date' } } })).toThrow(JSONConvertError);
+      expect(() => Serializer.deserialize(null as never)).toThrow('Expected the { json, meta } output');
+    });
+
+    it('should keep __proto__ keys as data', () => {
+      const value = JSON.parse('{"__proto__": {"at": 1}}');
+      value.__proto__.at = new Date(0);
+
+      const restored = Serializer.deserialize<Record<string, unknown>>(Serializer.serialize(value));
+      expect(Object.getPrototypeOf(restored)).toBe(Object.prototype);
+      expect(Object.getOwnPropertyDescriptor(restored, '__proto__')!.value).toEqual({ at: new Date(0) });
+    });
+  });
+
+  describe('plugins', () => {
+    afterEach(() => {
+      Serializer.unregister('Money');
+    });
+
+    it('should round-trip custom classes from registered plugins', () => {
+      Serializer.register(moneyPlugin);
+      const value = { price: new Money(1999n, 'EUR'), list: [new Money(5n, 'USD')] };
+
+      const serialized = Serializer.serialize(value);
+      expect(serialized.json).toEqual({
+        price: { amount: '1999', currency: 'EUR' },
+        list: [{ amount: '5', currency: 'USD' }],
+      });
+      expect(serialized.meta!.values).toEqual({ '/price': 'Money', '/list/0': 'Money' });
+
+      const restored = Serializer.deserialize<typeof value>(serialized);
+      expect(restored.price).toBeInstanceOf(Money);
+      expect(restored).toEqual(value);
+    });
+
+    it('should accept plugins per call', () => {
+      const text = Serializer.stringify(new Money(1n, 'GBP'), { plugins: [moneyPlugin] });
+
+      expect(() => Serializer.parse(text)).toThrow("Unknown type 'Money'");
+      expect(Serializer.parse(text, { plugins: [moneyPlugin] })).toEqual(new Money(1n, 'GBP'));
+    });
+
+    it('should refuse names of built-in types', () => {
+      expect(() => Serializer.register({ ...moneyPlugin, name: 'Date' })).toThrow(JSONConvertError);
+      expect(Serializer.unregister('Money')).toBe(false);
+    });
+  });
+});